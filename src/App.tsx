@@ -9,11 +9,13 @@ import { store } from "@/store";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { PersistenceGate } from "@/components/PersistenceGate";
 import { Layout } from "./components/Layout";
 import Index from "./pages/Index";
 import MCPSetup from "./pages/MCPSetup";
 import DataSources from "./pages/DataSources";
 import Settings from "./pages/Settings";
+import Personas from "./pages/Personas";
 import Auth from "./pages/Auth";
 import Profile from "./pages/Profile";
 import ResetPassword from "./pages/ResetPassword";
@@ -32,24 +34,27 @@ const App = () => (
         <AuthProvider>
           <Toaster />
           <Sonner />
-          <BrowserRouter>
-            <Routes>
-              <Route path="/auth" element={<Auth />} />
-              <Route path="/reset-password" element={<ResetPassword />} />
-              <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
-                <Route index element={<Index />} />
-                <Route path="chat-history" element={<ChatHistory />} />
-                <Route path="rag-dashboard" element={<RAGDashboard />} />
-                <Route path="analytics" element={<Analytics />} />
-                <Route path="mcp-setup" element={<MCPSetup />} />
-                <Route path="data-sources" element={<DataSources />} />
-                <Route path="settings" element={<Settings />} />
-                <Route path="profile" element={<Profile />} />
-              </Route>
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
+          <PersistenceGate>
+            <BrowserRouter>
+              <Routes>
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/reset-password" element={<ResetPassword />} />
+                <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
+                  <Route index element={<Index />} />
+                  <Route path="chat-history" element={<ChatHistory />} />
+                  <Route path="rag-dashboard" element={<RAGDashboard />} />
+                  <Route path="analytics" element={<Analytics />} />
+                  <Route path="mcp-setup" element={<MCPSetup />} />
+                  <Route path="data-sources" element={<DataSources />} />
+                  <Route path="personas" element={<Personas />} />
+                  <Route path="settings" element={<Settings />} />
+                  <Route path="profile" element={<Profile />} />
+                </Route>
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </PersistenceGate>
         </AuthProvider>
       </TooltipProvider>
     </ThemeProvider>
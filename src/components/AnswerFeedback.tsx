@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { FeedbackReason, MessageFeedback } from '@/stores/useAppStore';
+import { FEEDBACK_REASONS } from '@/utils/feedback';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface AnswerFeedbackProps {
+  feedback?: MessageFeedback;
+  onSubmit: (feedback: Pick<MessageFeedback, 'rating' | 'reasons' | 'correction'> | null) => void;
+  disabled?: boolean;
+}
+
+export function AnswerFeedback({ feedback, onSubmit, disabled }: AnswerFeedbackProps) {
+  const [open, setOpen] = useState(false);
+  const [reasons, setReasons] = useState<FeedbackReason[]>([]);
+  const [correction, setCorrection] = useState('');
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setReasons(feedback?.rating === 'down' ? feedback.reasons : []);
+      setCorrection(feedback?.correction ?? '');
+    }
+    setOpen(next);
+  };
+
+  const handleSave = () => {
+    onSubmit({ rating: 'down', reasons, correction });
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex items-center gap-0.5">
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("h-5 w-5 p-0", feedback?.rating === 'up' && "text-green-600")}
+        onClick={() => onSubmit(feedback?.rating === 'up' ? null : { rating: 'up', reasons: [] })}
+        disabled={disabled}
+        aria-label="Good answer"
+      >
+        <ThumbsUp className={cn("h-3 w-3", feedback?.rating === 'up' && "fill-current")} />
+      </Button>
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn("h-5 w-5 p-0", feedback?.rating === 'down' && "text-destructive")}
+            disabled={disabled}
+            aria-label="Bad answer"
+          >
+            <ThumbsDown className={cn("h-3 w-3", feedback?.rating === 'down' && "fill-current")} />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 space-y-3" align="start">
+          <p className="text-sm font-medium">What went wrong?</p>
+          <ToggleGroup
+            type="multiple"
+            value={reasons}
+            onValueChange={(value) => setReasons(value as FeedbackReason[])}
+            className="flex-wrap justify-start"
+          >
+            {(Object.keys(FEEDBACK_REASONS) as FeedbackReason[]).map(reason => (
+              <ToggleGroupItem key={reason} value={reason} variant="outline" size="sm" className="h-7 text-xs">
+                {FEEDBACK_REASONS[reason]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <Textarea
+            value={correction}
+            onChange={(e) => setCorrection(e.target.value)}
+            placeholder="What should the answer have said? (optional)"
+            className="min-h-[80px] text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            {feedback?.rating === 'down' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  onSubmit(null);
+                  setOpen(false);
+                }}
+              >
+                Remove rating
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave}>
+              Submit
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
 } from '@/components/ui/sidebar';
 import { Badge } from '@/components/ui/badge';
 import { useAppStore } from '@/stores/useAppStore';
+import { ChatFolderTree } from '@/components/ChatFolderTree';
 import {
   MessageSquare,
   Server,
@@ -23,13 +24,15 @@ import {
   CheckCircle,
   XCircle,
   Clock,
-  History
+  History,
+  UserCog
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 const navigationItems = [
   { title: 'Chat', url: '/', icon: MessageSquare },
   { title: 'Chat History', url: '/chat-history', icon: History },
+  { title: 'Personas', url: '/personas', icon: UserCog },
   { title: 'Data Sources', url: '/data-sources', icon: Database },
   { title: 'MCP Setup', url: '/mcp-setup', icon: Server },
   { title: 'RAG Dashboard', url: '/rag-dashboard', icon: Brain },
@@ -109,6 +112,9 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {/* Chats */}
+        {state !== 'collapsed' && <ChatFolderTree />}
+
         {/* MCP Servers */}
         {state !== 'collapsed' && (
           <SidebarGroup>
@@ -0,0 +1,45 @@
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface BranchSwitcherProps {
+  siblingIds: string[];
+  currentId: string;
+  onSelect: (messageId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function BranchSwitcher({ siblingIds, currentId, onSelect, disabled, className }: BranchSwitcherProps) {
+  if (siblingIds.length < 2) return null;
+
+  const position = siblingIds.indexOf(currentId);
+
+  return (
+    <div className={cn("flex items-center gap-0.5 text-xs", className)}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-5 w-5 p-0"
+        disabled={disabled || position <= 0}
+        onClick={() => onSelect(siblingIds[position - 1])}
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span className="tabular-nums">
+        {position + 1}/{siblingIds.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-5 w-5 p-0"
+        disabled={disabled || position >= siblingIds.length - 1}
+        onClick={() => onSelect(siblingIds[position + 1])}
+        aria-label="Next version"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
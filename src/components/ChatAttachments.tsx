@@ -0,0 +1,55 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { ChatAttachment } from '@/stores/useAppStore';
+import { FileText, DatabaseZap, X } from 'lucide-react';
+
+interface ChatAttachmentsProps {
+  attachments: ChatAttachment[];
+  onRemove: (attachmentId: string) => void;
+  onPromote: (attachmentId: string) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export function ChatAttachments({ attachments, onRemove, onPromote }: ChatAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {attachments.map((attachment) => (
+        <Badge key={attachment.id} variant="secondary" className="gap-1.5 py-1 pl-2 pr-1 font-normal">
+          <FileText className="h-3 w-3" />
+          <span className="max-w-[180px] truncate">{attachment.name}</span>
+          <span className="text-muted-foreground">
+            {formatSize(attachment.size)} • {attachment.chunks.length} chunks
+          </span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                onClick={() => onPromote(attachment.id)}
+                aria-label="Add to knowledge base"
+              >
+                <DatabaseZap className="h-3 w-3" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Add to knowledge base</TooltipContent>
+          </Tooltip>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0"
+            onClick={() => onRemove(attachment.id)}
+            aria-label="Remove attachment"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </Badge>
+      ))}
+    </div>
+  );
+}
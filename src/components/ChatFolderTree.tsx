@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { useAppStore } from '@/stores/useAppStore';
+import type { ChatFolder, ChatThread } from '@/store/slices/appSlice';
+import { FOLDER_DRAG_TYPE, THREAD_DRAG_TYPE } from '@/utils/folders';
+import {
+  ChevronRight,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  History,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Unfiled conversations shown before linking to the full history
+const UNFILED_LIMIT = 8;
+
+interface FolderDraft {
+  folderId?: string;
+  parentId: string | null;
+  name: string;
+}
+
+// Folder tree of conversations for the sidebar. Conversations and folders
+// can be dragged onto a folder, or onto the "Chats" heading to unfile them.
+export function ChatFolderTree() {
+  const {
+    chatFolders,
+    chatThreads,
+    currentThreadId,
+    switchToThread,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    moveThreads,
+  } = useAppStore();
+  const navigate = useNavigate();
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [draft, setDraft] = useState<FolderDraft | null>(null);
+
+  const threads = chatThreads
+    .filter(thread => !thread.archived)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const unfiled = threads.filter(thread => !thread.folderId || !chatFolders.some(f => f.id === thread.folderId));
+
+  const toggleFolder = (folderId: string) => {
+    setExpanded(ids => (ids.includes(folderId) ? ids.filter(id => id !== folderId) : [...ids, folderId]));
+  };
+
+  const submitDraft = () => {
+    const name = draft?.name.trim();
+    if (name && draft.folderId) {
+      renameFolder(draft.folderId, name);
+    } else if (name) {
+      createFolder(name, draft.parentId);
+      if (draft.parentId) setExpanded(ids => [...ids, draft.parentId]);
+    }
+    setDraft(null);
+  };
+
+  const handleOpenThread = (threadId: string) => {
+    switchToThread(threadId);
+    navigate('/');
+  };
+
+  // Drop handlers for a folder, or the root when folderId is null
+  const dropProps = (folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(THREAD_DRAG_TYPE) && !e.dataTransfer.types.includes(FOLDER_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(folderId ?? 'root');
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const threadId = e.dataTransfer.getData(THREAD_DRAG_TYPE);
+      const draggedFolderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+      if (threadId) moveThreads([threadId], folderId);
+      if (draggedFolderId) moveFolder(draggedFolderId, folderId);
+      if (folderId && !expanded.includes(folderId)) setExpanded(ids => [...ids, folderId]);
+    },
+  });
+
+  const renderDraftInput = (depth: number) => (
+    <div className="px-2 py-1" style={{ paddingLeft: depth * 12 + 8 }}>
+      <Input
+        value={draft.name}
+        placeholder="Folder name"
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') submitDraft();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        onBlur={submitDraft}
+        className="h-7 text-sm"
+        autoFocus
+      />
+    </div>
+  );
+
+  const renderThread = (thread: ChatThread, depth: number) => (
+    <button
+      key={thread.id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(THREAD_DRAG_TYPE, thread.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onClick={() => handleOpenThread(thread.id)}
+      className={cn(
+        'flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-left text-sm transition-colors',
+        thread.id === currentThreadId ? 'bg-sidebar-accent text-sidebar-accent-foreground' : 'hover:bg-sidebar-accent/50'
+      )}
+      style={{ paddingLeft: depth * 12 + 8 }}
+    >
+      <MessageSquare className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+      <span className="truncate">{thread.title}</span>
+    </button>
+  );
+
+  const renderFolder = (folder: ChatFolder, depth: number): React.ReactNode => {
+    const isOpen = expanded.includes(folder.id);
+    const subfolders = chatFolders
+      .filter(f => f.parentId === folder.id)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const folderThreads = threads.filter(thread => thread.folderId === folder.id);
+
+    return (
+      <div key={folder.id}>
+        {draft?.folderId === folder.id ? renderDraftInput(depth) : (
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.stopPropagation();
+              e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            {...dropProps(folder.id)}
+            onClick={() => toggleFolder(folder.id)}
+            className={cn(
+              'group flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-sm cursor-pointer transition-colors hover:bg-sidebar-accent/50',
+              dropTarget === folder.id && 'bg-sidebar-accent ring-1 ring-primary'
+            )}
+            style={{ paddingLeft: depth * 12 + 8 }}
+          >
+            <ChevronRight className={cn('h-3.5 w-3.5 flex-shrink-0 transition-transform', isOpen && 'rotate-90')} />
+            {isOpen ? <FolderOpen className="h-4 w-4 flex-shrink-0" /> : <Folder className="h-4 w-4 flex-shrink-0" />}
+            <span className="flex-1 truncate">{folder.name}</span>
+            <span className="text-xs text-muted-foreground group-hover:hidden">{folderThreads.length || ''}</span>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className="hidden h-5 w-5 items-center justify-center rounded group-hover:flex hover:bg-sidebar-accent"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <MoreHorizontal className="h-3.5 w-3.5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+                <DropdownMenuItem onClick={() => navigate(`/chat-history?folder=${folder.id}`)}>
+                  <History className="h-4 w-4 mr-2" />
+                  Open in history
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setDraft({ parentId: folder.id, name: '' })}>
+                  <FolderPlus className="h-4 w-4 mr-2" />
+                  New subfolder
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setDraft({ folderId: folder.id, parentId: folder.parentId, name: folder.name })}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => deleteFolder(folder.id)} className="text-destructive">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete folder
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )}
+        {draft && !draft.folderId && draft.parentId === folder.id && renderDraftInput(depth + 1)}
+        {isOpen && (
+          <>
+            {subfolders.map(subfolder => renderFolder(subfolder, depth + 1))}
+            {folderThreads.map(thread => renderThread(thread, depth + 1))}
+            {subfolders.length === 0 && folderThreads.length === 0 && (
+              <p className="py-1 text-xs text-muted-foreground" style={{ paddingLeft: (depth + 1) * 12 + 8 }}>
+                Drag conversations here
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const topFolders = chatFolders
+    .filter(folder => !folder.parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel
+        {...dropProps(null)}
+        className={cn(dropTarget === 'root' && 'bg-sidebar-accent ring-1 ring-primary')}
+      >
+        Chats
+      </SidebarGroupLabel>
+      <SidebarGroupAction title="New folder" onClick={() => setDraft({ parentId: null, name: '' })}>
+        <FolderPlus />
+      </SidebarGroupAction>
+      <SidebarGroupContent>
+        <div className="space-y-0.5">
+          {draft && !draft.folderId && draft.parentId === null && renderDraftInput(0)}
+          {topFolders.map(folder => renderFolder(folder, 0))}
+          <div {...dropProps(null)} className="space-y-0.5">
+            {unfiled.slice(0, UNFILED_LIMIT).map(thread => renderThread(thread, 0))}
+          </div>
+          {unfiled.length > UNFILED_LIMIT && (
+            <button
+              onClick={() => navigate('/chat-history?folder=unfiled')}
+              className="px-2 py-1 text-xs text-muted-foreground hover:text-foreground"
+            >
+              +{unfiled.length - UNFILED_LIMIT} more conversations
+            </button>
+          )}
+        </div>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+}
@@ -0,0 +1,127 @@
+import { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/stores/useAppStore';
+import type { ChatImportReport } from '@/utils/chatImport';
+import { Upload, Loader2, AlertCircle } from 'lucide-react';
+
+interface ChatImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SOURCE_NAMES: Record<ChatImportReport['source'], string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export function ChatImportDialog({ open, onOpenChange }: ChatImportDialogProps) {
+  const { importChatHistory } = useAppStore();
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ChatImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (isImporting) return;
+    if (!next) {
+      setReport(null);
+      setError(null);
+    }
+    onOpenChange(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+    setReport(null);
+    try {
+      setReport(await importChatHistory(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be imported.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import conversations</DialogTitle>
+          <DialogDescription>
+            Choose a ChatGPT export (the .zip or its conversations.json) or a Claude export JSON.
+            Importing the same export again only adds new messages.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.zip,application/json,application/zip"
+          className="hidden"
+          onChange={handleFile}
+        />
+
+        {error && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-3 text-sm">
+            <p>
+              From {SOURCE_NAMES[report.source]}: {plural(report.imported, 'new conversation')}
+              {report.updated > 0 && `, ${report.updated} updated`} with {plural(report.messages, 'message')}.
+            </p>
+            {report.droppedMessages > 0 && (
+              <p className="text-muted-foreground">
+                {plural(report.droppedMessages, 'message')} without text (images, tool calls, files) were left out.
+              </p>
+            )}
+            {report.skipped.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">Skipped {plural(report.skipped.length, 'conversation')}</p>
+                <div className="max-h-48 overflow-y-auto rounded-md border">
+                  <ul className="p-2 space-y-1">
+                    {report.skipped.map((skip, i) => (
+                      <li key={i} className="flex justify-between gap-4 text-xs">
+                        <span className="truncate">{skip.title}</span>
+                        <span className="text-muted-foreground flex-shrink-0">{skip.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+            {report ? 'Done' : 'Cancel'}
+          </Button>
+          <Button onClick={() => fileInputRef.current?.click()} disabled={isImporting} className="gap-2">
+            {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            {report ? 'Import another' : 'Choose file'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
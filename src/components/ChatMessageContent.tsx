@@ -0,0 +1,83 @@
+import { memo, ReactNode } from 'react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { MarkdownMessage } from '@/components/MarkdownMessage';
+import type { ChatMessage } from '@/stores/useAppStore';
+import { cn } from '@/lib/utils';
+
+interface ChatMessageContentProps {
+  message: ChatMessage;
+  onCitationClick?: (index: number) => void;
+}
+
+function ChatMessageContentBase({ message, onCitationClick }: ChatMessageContentProps) {
+  if (message.role === 'user') {
+    return <p className="whitespace-pre-wrap">{message.content}</p>;
+  }
+
+  const promptChunks = message.promptContext?.chunks || [];
+
+  const renderCitation = (index: number) => {
+    const chunk = promptChunks.find(c => c.index === index);
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <sup>
+            <button
+              type="button"
+              onClick={() => chunk && onCitationClick?.(index)}
+              className={cn(
+                "mx-0.5 rounded px-1 text-[0.7rem] font-medium",
+                chunk
+                  ? "bg-primary/10 text-primary hover:bg-primary/20"
+                  : "bg-destructive/10 text-destructive line-through cursor-not-allowed"
+              )}
+            >
+              {index}
+            </button>
+          </sup>
+        </TooltipTrigger>
+        <TooltipContent>
+          {chunk
+            ? `${chunk.sourceName || chunk.sourceId} • ${Math.round(chunk.score * 100)}% match`
+            : 'Invalid citation: this passage was not part of the prompt'}
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
+  const unsupportedClaims = (message.grounding?.claims || [])
+    .filter(claim => !claim.supported)
+    .map(claim => ({ text: claim.text, note: claim.reason || 'Not supported by the retrieved passages' }));
+
+  const renderHighlight = (note: string, children: ReactNode) => (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <mark className="rounded-sm bg-amber-200/60 text-inherit underline decoration-amber-500 decoration-dotted underline-offset-2 dark:bg-amber-500/20">
+          {children}
+        </mark>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p className="font-medium">Possibly unsupported</p>
+        <p className="text-xs">{note}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+
+  return (
+    <MarkdownMessage
+      content={message.content}
+      streaming={message.status === 'streaming'}
+      renderCitation={renderCitation}
+      citationCount={promptChunks.length}
+      highlights={unsupportedClaims}
+      renderHighlight={renderHighlight}
+    />
+  );
+}
+
+// Messages are immutable store objects, so only re-parse markdown when the
+// message itself changes rather than on every token of another message.
+export const ChatMessageContent = memo(
+  ChatMessageContentBase,
+  (prev, next) => prev.message === next.message
+);
@@ -0,0 +1,141 @@
+import { format } from 'date-fns';
+import { MarkdownMessage } from '@/components/MarkdownMessage';
+import type { PdfConversation } from '@/utils/pdfExport';
+import { cn } from '@/lib/utils';
+
+interface ChatPdfDocumentProps {
+  conversations: PdfConversation[];
+  includeChunks: boolean;
+  exportedAt: string;
+}
+
+const formatTime = (timestamp: string) => format(new Date(timestamp), 'MMM d, yyyy HH:mm');
+
+const describeReference = (reference: PdfConversation['references'][number]) =>
+  reference.pageNumber ? `${reference.sourceName}, p. ${reference.pageNumber}` : reference.sourceName;
+
+// Printable layout for PDF export. Every [data-pdf-section] starts on a new
+// page and its value becomes the PDF bookmark. Each [data-pdf-block] is
+// captured as one image; [data-pdf-text] groups are written as PDF text
+// instead when their characters allow it, and only rendered as a fallback.
+export function ChatPdfDocument({ conversations, includeChunks, exportedAt }: ChatPdfDocumentProps) {
+  const messageCount = conversations.reduce((total, c) => total + c.messages.length, 0);
+  const withReferences = conversations.filter(c => c.references.length > 0);
+
+  return (
+    <div data-pdf-root className="bg-white text-[13px] text-neutral-900">
+      <section data-pdf-section="">
+        <div data-pdf-block className="flex min-h-[1000px] flex-col justify-center px-16 py-24">
+          <p className="text-sm uppercase tracking-widest text-neutral-500">RagForge conversation export</p>
+          <h1 className="mt-4 text-3xl font-bold">
+            {conversations.length === 1 ? conversations[0].thread.title : `${conversations.length} conversations`}
+          </h1>
+          <p className="mt-2 text-neutral-600">
+            Exported {formatTime(exportedAt)} • {messageCount} message{messageCount === 1 ? '' : 's'}
+          </p>
+          {conversations.length > 1 && (
+            <ol className="mt-10 list-decimal space-y-2 pl-6">
+              {conversations.map(({ thread, messages }) => (
+                <li key={thread.id}>
+                  <span className="font-medium">{thread.title}</span>
+                  <span className="text-neutral-500"> — {messages.length} messages, {formatTime(thread.createdAt)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </section>
+
+      {conversations.map(({ thread, messages, references, referenceNumbers }) => (
+        <section key={thread.id} data-pdf-section={thread.title} data-pdf-thread={thread.id} className="px-12 py-8">
+          <header data-pdf-block className="mb-6 border-b border-neutral-200 pb-3">
+            <h1 className="text-2xl font-bold">{thread.title}</h1>
+            <p className="mt-1 text-xs text-neutral-500">
+              Started {formatTime(thread.createdAt)} • Updated {formatTime(thread.updatedAt)}
+            </p>
+          </header>
+
+          <div className="space-y-4">
+            {messages.map(message => (
+              <div
+                key={message.id}
+                data-pdf-block
+                className={cn(
+                  "rounded-lg border px-4 py-3",
+                  message.role === 'user'
+                    ? "ml-16 border-blue-200 bg-blue-50"
+                    : "mr-8 border-neutral-200 bg-white"
+                )}
+              >
+                <div className="mb-2 flex items-center gap-2 text-xs text-neutral-500">
+                  <span className={cn("font-semibold", message.role === 'user' ? "text-blue-700" : "text-neutral-800")}>
+                    {message.role === 'user' ? 'You' : 'Assistant'}
+                  </span>
+                  <span>{formatTime(message.timestamp)}</span>
+                  {message.metadata?.model && <span>• {message.metadata.model}</span>}
+                  {message.status === 'stopped' && <span>• stopped early</span>}
+                  {message.status === 'error' && <span className="text-red-600">• failed</span>}
+                </div>
+                {message.role === 'user' ? (
+                  <p className="whitespace-pre-wrap leading-relaxed">{message.content}</p>
+                ) : (
+                  <MarkdownMessage
+                    content={message.content || message.error || ''}
+                    renderCitation={(index) => {
+                      const number = referenceNumbers[message.id]?.[index];
+                      return number === undefined
+                        ? <sup className="text-red-600 line-through">[{index}]</sup>
+                        : <sup className="text-blue-700">[{number}]</sup>;
+                    }}
+                    citationCount={message.promptContext?.chunks.length}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          {references.length > 0 && (
+            <div data-pdf-text={`references-${thread.id}`} className="mt-8">
+              <h2 data-pdf-block className="mb-3 text-lg font-semibold">References</h2>
+              <ol className="space-y-2">
+                {references.map(reference => (
+                  <li key={reference.chunkId} data-pdf-block className="flex gap-2">
+                    <span className="w-8 flex-shrink-0 text-right font-medium">[{reference.number}]</span>
+                    <div>
+                      <p className="font-medium">{describeReference(reference)}</p>
+                      <p className="text-xs text-neutral-600">{reference.excerpt}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </section>
+      ))}
+
+      {includeChunks && withReferences.length > 0 && (
+        <section data-pdf-section="Appendix: retrieved passages" data-pdf-text="appendix" className="px-12 py-8">
+          <h1 data-pdf-block className="mb-1 text-2xl font-bold">Appendix: retrieved passages</h1>
+          <p data-pdf-block className="mb-6 text-xs text-neutral-500">
+            Full text of every cited chunk, numbered as in each conversation's references.
+          </p>
+          {withReferences.map(({ thread, references }) => (
+            <div key={thread.id} className="mb-6">
+              {conversations.length > 1 && <h2 data-pdf-block className="mb-3 text-lg font-semibold">{thread.title}</h2>}
+              {references.map(reference => (
+                <div key={reference.chunkId} data-pdf-block className="mb-4">
+                  <p className="mb-1 font-medium">
+                    [{reference.number}] {describeReference(reference)}
+                  </p>
+                  <p className="whitespace-pre-wrap border-l-2 border-neutral-300 pl-3 text-xs leading-relaxed text-neutral-700">
+                    {reference.text}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ))}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,8 +15,9 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
-interface Citation {
+export interface Citation {
   id: string;
+  index?: number;
   text: string;
   sourceId: string;
   sourceName: string;
@@ -29,11 +30,19 @@ interface Citation {
 
 interface CitationViewerProps {
   citations: Citation[];
+  activeCitationId?: string;
   onCitationClick?: (citation: Citation) => void;
 }
 
-export function CitationViewer({ citations, onCitationClick }: CitationViewerProps) {
+export function CitationViewer({ citations, activeCitationId, onCitationClick }: CitationViewerProps) {
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const citationRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    if (activeCitationId) {
+      citationRefs.current[activeCitationId]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [activeCitationId]);
 
   const handleCopyText = (citation: Citation) => {
     const citationText = `"${citation.text}" - ${citation.sourceName}${citation.pageNumber ? `, p. ${citation.pageNumber}` : ''}`;
@@ -82,15 +91,22 @@ export function CitationViewer({ citations, onCitationClick }: CitationViewerPro
         <ScrollArea className="h-96">
           <div className="space-y-4">
             {citations.map((citation, index) => (
-              <div key={citation.id} className="space-y-3">
-                <Card className="hover:shadow-md transition-all cursor-pointer group">
+              <div
+                key={citation.id}
+                ref={(el) => { citationRefs.current[citation.id] = el; }}
+                className="space-y-3"
+              >
+                <Card className={cn(
+                  "hover:shadow-md transition-all cursor-pointer group",
+                  citation.id === activeCitationId && "ring-2 ring-primary"
+                )}>
                   <CardContent className="p-4">
                     <div className="space-y-3">
                       {/* Header */}
                       <div className="flex items-start justify-between">
                         <div className="flex items-center gap-2 flex-1">
                           <div className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center text-xs font-medium">
-                            {index + 1}
+                            {citation.index ?? index + 1}
                           </div>
                           <FileText className="h-4 w-4 text-primary" />
                           <div className="flex-1">
@@ -152,7 +168,7 @@ export function CitationViewer({ citations, onCitationClick }: CitationViewerPro
                       {/* Context */}
                       {citation.context && (
                         <div className="pl-8">
-                          <details className="group">
+                          <details className="group" open={citation.id === activeCitationId}>
                             <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
                               Show context
                             </summary>
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CompareConfig } from '@/stores/useAppStore';
+import { listOllamaModels } from '@/utils/ollama';
+import { MAX_COMPARE_CANDIDATES, findDuplicateConfigs, suggestCompareConfig } from '@/utils/comparison';
+import { Plus, X } from 'lucide-react';
+
+interface CompareSetupProps {
+  configs: CompareConfig[];
+  onChange: (configs: CompareConfig[]) => void;
+  endpoint: string;
+  // Offered even when the Ollama server cannot be reached
+  fallbackModels: string[];
+}
+
+const TOP_K_OPTIONS = [3, 5, 10];
+
+export function CompareSetup({ configs, onChange, endpoint, fallbackModels }: CompareSetupProps) {
+  const [installedModels, setInstalledModels] = useState<string[]>([]);
+
+  useEffect(() => {
+    listOllamaModels(endpoint)
+      .then(setInstalledModels)
+      .catch(() => setInstalledModels([]));
+  }, [endpoint]);
+
+  const models = Array.from(new Set([...installedModels, ...fallbackModels, ...configs.map(c => c.model)]));
+
+  const duplicates = findDuplicateConfigs(configs);
+  const nextConfig = suggestCompareConfig(configs, models, TOP_K_OPTIONS);
+
+  const update = (index: number, updates: Partial<CompareConfig>) =>
+    onChange(configs.map((config, i) => (i === index ? { ...config, ...updates } : config)));
+
+  return (
+    <div className="mb-2 rounded-md border bg-muted/30 p-2 space-y-2">
+      {configs.map((config, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground w-16">Column {index + 1}</span>
+          <Select value={config.model} onValueChange={(model) => update(index, { model })}>
+            <SelectTrigger className="h-8 flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {models.map(model => (
+                <SelectItem key={model} value={model}>{model}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={config.retrievalEnabled ? String(config.retrievalTopK) : 'off'}
+            onValueChange={(value) =>
+              update(index, value === 'off'
+                ? { retrievalEnabled: false }
+                : { retrievalEnabled: true, retrievalTopK: Number(value) })
+            }
+          >
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">No retrieval</SelectItem>
+              {Array.from(new Set([...TOP_K_OPTIONS, config.retrievalTopK])).sort((a, b) => a - b).map(k => (
+                <SelectItem key={k} value={String(k)}>Top {k} chunks</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {duplicates.has(index) && (
+            <span className="text-xs text-destructive">Same as column {duplicates.get(index)! + 1}</span>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => onChange(configs.filter((_, i) => i !== index))}
+            disabled={configs.length <= 2}
+            aria-label="Remove column"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {configs.length < MAX_COMPARE_CANDIDATES && nextConfig && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          onClick={() => onChange([...configs, nextConfig])}
+        >
+          <Plus className="h-3 w-3" />
+          Add column
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChatMessageContent } from '@/components/ChatMessageContent';
+import type { ChatMessage, ModelComparison } from '@/stores/useAppStore';
+import { formatTokenCount } from '@/utils/usage';
+import { AlertCircle, Check, Clock, Loader2, Quote } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ComparisonPanelProps {
+  comparison: ModelComparison;
+  // Candidate answers are looked up by id
+  messages: ChatMessage[];
+  onChoose: (comparisonId: string, messageId: string) => void;
+  onCitationClick: (message: ChatMessage, index: number) => void;
+}
+
+const formatSeconds = (ms?: number) => (ms === undefined ? '–' : `${(ms / 1000).toFixed(1)}s`);
+
+export function ComparisonPanel({ comparison, messages, onChoose, onCitationClick }: ComparisonPanelProps) {
+  const candidateIds = new Set(comparison.candidates.map(c => c.messageId));
+  const byId = new Map(messages.filter(m => candidateIds.has(m.id)).map(message => [message.id, message]));
+  const isStreaming = Array.from(byId.values()).some(message => message.status === 'streaming');
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground">
+        Comparing {comparison.candidates.length} answers — pick one to continue the conversation
+      </p>
+      <div
+        className={cn(
+          "grid gap-3 grid-cols-1",
+          comparison.candidates.length === 3 ? "lg:grid-cols-3" : "md:grid-cols-2"
+        )}
+      >
+        {comparison.candidates.map(candidate => {
+          const message = byId.get(candidate.messageId);
+          const metadata = message?.metadata;
+
+          return (
+            <div key={candidate.messageId} className="flex flex-col rounded-lg border bg-card p-3 space-y-3 min-w-0">
+              <Badge variant="secondary" className="self-start font-normal">
+                {candidate.label}
+              </Badge>
+
+              <div className="flex-1 text-sm min-w-0">
+                {!message || (message.status === 'streaming' && !message.content) ? (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Thinking...
+                  </div>
+                ) : message.status === 'error' ? (
+                  <div className="flex items-center gap-2 text-destructive">
+                    <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                    {message.error || 'Failed to generate a response'}
+                  </div>
+                ) : (
+                  <ChatMessageContent
+                    message={message}
+                    onCitationClick={(index) => onCitationClick(message, index)}
+                  />
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1" title="First token / full answer">
+                  <Clock className="h-3 w-3" />
+                  {formatSeconds(metadata?.firstTokenMs)} / {formatSeconds(metadata?.latencyMs)}
+                </span>
+                {metadata?.tokens !== undefined && (
+                  <span>
+                    {metadata.tokensEstimated && '~'}{formatTokenCount(metadata.tokens)} tokens
+                  </span>
+                )}
+                <span className="flex items-center gap-1">
+                  <Quote className="h-3 w-3" />
+                  {message?.citations?.length ?? 0} citations
+                </span>
+              </div>
+
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1"
+                onClick={() => onChoose(comparison.id, candidate.messageId)}
+                disabled={isStreaming || !message || message.status === 'error'}
+              >
+                <Check className="h-3 w-3" />
+                Use this answer
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
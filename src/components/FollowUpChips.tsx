@@ -0,0 +1,30 @@
+import { Button } from '@/components/ui/button';
+import { CornerDownRight } from 'lucide-react';
+
+interface FollowUpChipsProps {
+  questions: string[];
+  onSelect: (question: string) => void;
+  disabled?: boolean;
+}
+
+export function FollowUpChips({ questions, onSelect, disabled }: FollowUpChipsProps) {
+  if (questions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 pt-1">
+      {questions.map(question => (
+        <Button
+          key={question}
+          variant="outline"
+          size="sm"
+          className="h-auto whitespace-normal rounded-full py-1 text-left text-xs font-normal"
+          onClick={() => onSelect(question)}
+          disabled={disabled}
+        >
+          <CornerDownRight className="h-3 w-3 mr-1 flex-shrink-0" />
+          {question}
+        </Button>
+      ))}
+    </div>
+  );
+}
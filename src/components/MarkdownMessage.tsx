@@ -0,0 +1,203 @@
+import { useEffect, useId, useState, ReactNode } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { Element, ElementContent } from 'hast';
+import { Button } from '@/components/ui/button';
+import { remarkCitations } from '@/utils/remarkCitations';
+import { rehypeHighlightClaims, ClaimHighlight } from '@/utils/rehypeHighlightClaims';
+import { Copy, Check } from 'lucide-react';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+
+interface MarkdownMessageProps {
+  content: string;
+  streaming?: boolean;
+  renderCitation?: (index: number) => ReactNode;
+  // Number of passages in the prompt; only [n] markers within it are citations
+  citationCount?: number;
+  // Sentences to mark, e.g. claims the grounding check could not verify
+  highlights?: ClaimHighlight[];
+  renderHighlight?: (note: string, children: ReactNode) => ReactNode;
+}
+
+const getText = (node: ElementContent): string => {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(getText).join('');
+  return '';
+};
+
+function CodeBlock({ language, code, children }: { language?: string; code: string; children: ReactNode }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="group relative my-3 overflow-hidden rounded-md border bg-[#0d1117]">
+      <div className="flex items-center justify-between border-b border-white/10 px-3 py-1 text-xs text-gray-400">
+        <span>{language || 'text'}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleCopy}
+          className="h-6 gap-1 px-2 text-xs text-gray-400 hover:bg-white/10 hover:text-white"
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-sm leading-relaxed">{children}</pre>
+    </div>
+  );
+}
+
+function MermaidDiagram({ code, streaming }: { code: string; streaming?: boolean }) {
+  const id = useId().replace(/[^a-zA-Z0-9]/g, '');
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Half-written diagrams do not parse, so wait for the stream to finish
+    if (streaming) return;
+    let cancelled = false;
+
+    import('mermaid')
+      .then(async ({ default: mermaid }) => {
+        mermaid.initialize({
+          startOnLoad: false,
+          securityLevel: 'strict',
+          theme: document.documentElement.classList.contains('dark') ? 'dark' : 'default',
+        });
+        const result = await mermaid.render(`mermaid-${id}`, code);
+        if (!cancelled) {
+          setSvg(result.svg);
+          setError(null);
+        }
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Invalid diagram');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, streaming, id]);
+
+  if (svg && !streaming) {
+    // Mermaid sanitizes its output when securityLevel is 'strict'
+    return <div className="my-3 flex justify-center overflow-x-auto" dangerouslySetInnerHTML={{ __html: svg }} />;
+  }
+
+  return (
+    <div className="my-3 space-y-1">
+      <pre className="overflow-x-auto rounded-md border bg-muted p-3 text-xs">{code}</pre>
+      {error && <p className="text-xs text-destructive">Could not render diagram: {error}</p>}
+    </div>
+  );
+}
+
+export function MarkdownMessage({ content, streaming, renderCitation, citationCount, highlights, renderHighlight }: MarkdownMessageProps) {
+  const components: Components = {
+    pre: ({ node }) => {
+      const codeElement = node?.children.find(
+        (child): child is Element => child.type === 'element' && child.tagName === 'code'
+      );
+      const classNames = (codeElement?.properties.className as string[] | undefined) || [];
+      const language = classNames.find(name => name.startsWith('language-'))?.replace('language-', '');
+      const code = codeElement ? getText(codeElement).replace(/\n$/, '') : '';
+
+      if (language === 'mermaid') {
+        return <MermaidDiagram code={code} streaming={streaming} />;
+      }
+
+      return (
+        <CodeBlock language={language} code={code}>
+          <code className={classNames.join(' ')}>
+            {codeElement?.children.map((child, i) => <HastNode key={i} node={child} />)}
+          </code>
+        </CodeBlock>
+      );
+    },
+    code: ({ children, className }) => (
+      <code className={className || 'rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]'}>{children}</code>
+    ),
+    sup: ({ children, ...props }) => {
+      const marker = (props as Record<string, unknown>)['data-citation'];
+      if (marker !== undefined && renderCitation) {
+        return <>{renderCitation(Number(marker))}</>;
+      }
+      return <sup>{children}</sup>;
+    },
+    mark: ({ children, ...props }) => {
+      const note = (props as Record<string, unknown>)['data-note'];
+      if (typeof note === 'string' && renderHighlight) {
+        return <>{renderHighlight(note, children)}</>;
+      }
+      return <mark>{children}</mark>;
+    },
+    a: ({ children, href }) => (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+        {children}
+      </a>
+    ),
+    p: ({ children }) => <p className="my-2 leading-relaxed first:mt-0 last:mb-0">{children}</p>,
+    ul: ({ children }) => <ul className="my-2 list-disc space-y-1 pl-6">{children}</ul>,
+    ol: ({ children }) => <ol className="my-2 list-decimal space-y-1 pl-6">{children}</ol>,
+    h1: ({ children }) => <h1 className="mb-2 mt-4 text-xl font-bold first:mt-0">{children}</h1>,
+    h2: ({ children }) => <h2 className="mb-2 mt-4 text-lg font-semibold first:mt-0">{children}</h2>,
+    h3: ({ children }) => <h3 className="mb-2 mt-3 font-semibold first:mt-0">{children}</h3>,
+    blockquote: ({ children }) => (
+      <blockquote className="my-2 border-l-4 border-primary/20 pl-4 italic text-muted-foreground">{children}</blockquote>
+    ),
+    table: ({ children }) => (
+      <div className="my-3 overflow-x-auto">
+        <table className="w-full border-collapse text-sm">{children}</table>
+      </div>
+    ),
+    th: ({ children, style }) => (
+      <th style={style} className="border bg-muted px-3 py-1.5 text-left font-semibold">{children}</th>
+    ),
+    td: ({ children, style }) => <td style={style} className="border px-3 py-1.5">{children}</td>,
+    hr: () => <hr className="my-4 border-border" />,
+  };
+
+  return (
+    <div className="break-words">
+      <ReactMarkdown
+        remarkPlugins={[
+          remarkGfm,
+          // Only $$…$$ is math, so prices like "$5 and $10" stay as text
+          [remarkMath, { singleDollarTextMath: false }],
+          [remarkCitations, { maxIndex: citationCount }],
+        ]}
+        rehypePlugins={[
+          rehypeKatex,
+          [rehypeHighlight, { plainText: ['mermaid'] }],
+          [rehypeHighlightClaims, { claims: highlights }],
+        ]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+// Renders highlighted hast spans produced by rehype-highlight inside code blocks
+function HastNode({ node }: { node: ElementContent }) {
+  if (node.type === 'text') return <>{node.value}</>;
+  if (node.type !== 'element') return null;
+
+  const className = (node.properties.className as string[] | undefined)?.join(' ');
+  return (
+    <span className={className}>
+      {node.children.map((child, i) => <HastNode key={i} node={child} />)}
+    </span>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAppStore } from '@/stores/useAppStore';
+import { useToast } from '@/hooks/use-toast';
+import { FileDown, Loader2 } from 'lucide-react';
+
+interface PdfExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Threads ticked when the dialog opens
+  initialThreadIds: string[];
+}
+
+export function PdfExportDialog({ open, onOpenChange, initialThreadIds }: PdfExportDialogProps) {
+  const { chatThreads, chatMessages, exportChatAsPDF } = useAppStore();
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialThreadIds);
+  const [includeChunks, setIncludeChunks] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [wasOpen, setWasOpen] = useState(open);
+
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) setSelectedIds(initialThreadIds);
+  }
+
+  const threads = chatThreads.filter(thread => chatMessages.some(m => m.threadId === thread.id));
+  const allSelected = threads.length > 0 && threads.every(thread => selectedIds.includes(thread.id));
+
+  const toggleThread = (threadId: string, checked: boolean) => {
+    setSelectedIds(ids => (checked ? [...ids, threadId] : ids.filter(id => id !== threadId)));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const filename = await exportChatAsPDF(selectedIds, { includeChunks });
+      toast({ title: "PDF exported", description: filename });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : 'The PDF could not be created.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export as PDF</DialogTitle>
+          <DialogDescription>
+            Each conversation gets its own section with a numbered list of the sources it cited.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label>Conversations ({selectedIds.length} selected)</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7"
+              onClick={() => setSelectedIds(allSelected ? [] : threads.map(thread => thread.id))}
+            >
+              {allSelected ? 'Select none' : 'Select all'}
+            </Button>
+          </div>
+          <ScrollArea className="h-56 rounded-md border">
+            <div className="p-2 space-y-1">
+              {threads.map(thread => (
+                <label
+                  key={thread.id}
+                  className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-muted cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selectedIds.includes(thread.id)}
+                    onCheckedChange={(checked) => toggleThread(thread.id, checked === true)}
+                  />
+                  <span className="truncate">{thread.title}</span>
+                </label>
+              ))}
+              {threads.length === 0 && (
+                <p className="p-2 text-sm text-muted-foreground">No conversations with messages yet.</p>
+              )}
+            </div>
+          </ScrollArea>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Include retrieved passages</Label>
+              <p className="text-sm text-muted-foreground">Append the full text of every cited chunk</p>
+            </div>
+            <Switch checked={includeChunks} onCheckedChange={setIncludeChunks} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={selectedIds.length === 0 || isExporting} className="gap-2">
+            {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+            Export PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { useStore } from 'react-redux';
+import { initPersistence } from '@/store/persistence';
+import type { store as appStore } from '@/store';
+import { Loader2 } from 'lucide-react';
+
+interface PersistenceGateProps {
+  children: React.ReactNode;
+}
+
+// Holds back its children until saved app state has been loaded, so routes
+// never render with the empty defaults first.
+export const PersistenceGate = ({ children }: PersistenceGateProps) => {
+  const store = useStore() as typeof appStore;
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    initPersistence(store).finally(() => setReady(true));
+  }, [store]);
+
+  if (!ready) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
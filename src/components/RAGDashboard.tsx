@@ -9,6 +9,7 @@ import { ChunkingPreview } from './ChunkingPreview';
 import { SemanticSearch } from './SemanticSearch';
 import { KnowledgeGraph } from './KnowledgeGraph';
 import { CitationViewerDemo } from './CitationViewer';
+import { PdfExportDialog } from './PdfExportDialog';
 import { useAppStore } from '@/stores/useAppStore';
 import { 
   Brain, 
@@ -23,7 +24,8 @@ import {
 
 export function RAGDashboard() {
   const [activeTab, setActiveTab] = useState('search');
-  const { exportChatAsMarkdown, exportChatAsPDF, chatMessages, dataSources } = useAppStore();
+  const [isPdfExportOpen, setIsPdfExportOpen] = useState(false);
+  const { exportChatAsMarkdown, chatMessages, chatThreads, currentThreadId, dataSources } = useAppStore();
 
   const handleExportMarkdown = () => {
     const markdown = exportChatAsMarkdown();
@@ -36,9 +38,6 @@ export function RAGDashboard() {
     URL.revokeObjectURL(url);
   };
 
-  const handleExportPDF = () => {
-    exportChatAsPDF();
-  };
 
   const stats = {
     totalDocuments: dataSources.length,
@@ -66,10 +65,15 @@ export function RAGDashboard() {
             <Download className="h-4 w-4" />
             Export MD
           </Button>
-          <Button variant="outline" onClick={handleExportPDF} className="gap-2">
+          <Button variant="outline" onClick={() => setIsPdfExportOpen(true)} className="gap-2">
             <FileText className="h-4 w-4" />
-            Export Chat
+            Export PDF
           </Button>
+          <PdfExportDialog
+            open={isPdfExportOpen}
+            onOpenChange={setIsPdfExportOpen}
+            initialThreadIds={currentThreadId ? [currentThreadId] : chatThreads.map(thread => thread.id)}
+          />
         </div>
       </div>
 
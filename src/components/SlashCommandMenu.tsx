@@ -0,0 +1,39 @@
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import type { SlashMenuItem } from '@/hooks/useSlashCommands';
+
+interface SlashCommandMenuProps {
+  items: SlashMenuItem[];
+  selectedIndex: number;
+  onHighlight: (index: number) => void;
+  onSelect: (item: SlashMenuItem) => void;
+}
+
+// Keyboard navigation is driven by the composer textarea, so the list only
+// mirrors the selection and handles pointer input.
+export function SlashCommandMenu({ items, selectedIndex, onHighlight, onSelect }: SlashCommandMenuProps) {
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-20 rounded-md border bg-popover shadow-md">
+      <Command shouldFilter={false} value={items[selectedIndex]?.key ?? ''}>
+        <CommandList className="max-h-[240px]">
+          <CommandGroup heading="Commands">
+            {items.map((item, index) => (
+              <CommandItem
+                key={item.key}
+                value={item.key}
+                onMouseEnter={() => onHighlight(index)}
+                onMouseDown={(e) => e.preventDefault()}
+                onSelect={() => onSelect(item)}
+                className="flex items-baseline gap-3"
+              >
+                <span className="font-mono text-sm">{item.label}</span>
+                {item.description && (
+                  <span className="text-xs text-muted-foreground truncate">{item.description}</span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </Command>
+    </div>
+  );
+}
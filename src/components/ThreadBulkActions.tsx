@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAppStore } from '@/stores/useAppStore';
+import { useToast } from '@/hooks/use-toast';
+import { flattenFolders } from '@/utils/folders';
+import { Archive, ArchiveRestore, FileDown, Folder, FolderInput, Inbox, Tag, Trash2, X } from 'lucide-react';
+
+const plural = (count: number) => `${count} conversation${count === 1 ? '' : 's'}`;
+
+// Menu items for picking a destination folder, indented by depth
+export function FolderMenuItems({ onSelect }: { onSelect: (folderId: string | null) => void }) {
+  const { chatFolders } = useAppStore();
+
+  return (
+    <>
+      <DropdownMenuItem onClick={() => onSelect(null)}>
+        <Inbox className="h-4 w-4 mr-2" />
+        No folder
+      </DropdownMenuItem>
+      {flattenFolders(chatFolders).map(({ folder, depth }) => (
+        <DropdownMenuItem key={folder.id} onClick={() => onSelect(folder.id)} style={{ paddingLeft: depth * 12 + 8 }}>
+          <Folder className="h-4 w-4 mr-2" />
+          {folder.name}
+        </DropdownMenuItem>
+      ))}
+      {chatFolders.length === 0 && (
+        <DropdownMenuItem disabled>Create folders from the sidebar</DropdownMenuItem>
+      )}
+    </>
+  );
+}
+
+interface ThreadBulkActionsProps {
+  threadIds: string[];
+  onClear: () => void;
+  onExport: () => void;
+}
+
+export function ThreadBulkActions({ threadIds, onClear, onExport }: ThreadBulkActionsProps) {
+  const { chatThreads, moveThreads, archiveThreads, tagThreads, untagThreads, deleteThreads } = useAppStore();
+  const { toast } = useToast();
+  const [tagDraft, setTagDraft] = useState('');
+
+  const selected = chatThreads.filter(thread => threadIds.includes(thread.id));
+  const allArchived = selected.length > 0 && selected.every(thread => thread.archived);
+  const knownTags = Array.from(new Set(chatThreads.flatMap(thread => thread.tags || []))).sort();
+
+  const handleMove = (folderId: string | null) => {
+    moveThreads(threadIds, folderId);
+    toast({ title: `Moved ${plural(threadIds.length)}` });
+  };
+
+  const handleArchive = () => {
+    archiveThreads(threadIds, !allArchived);
+    toast({ title: `${allArchived ? 'Restored' : 'Archived'} ${plural(threadIds.length)}` });
+    onClear();
+  };
+
+  const handleAddTag = () => {
+    const tag = tagDraft.trim().replace(/\s+/g, ' ');
+    if (!tag) return;
+    tagThreads(threadIds, tag);
+    setTagDraft('');
+  };
+
+  // Applies a tag to every selected conversation, or removes it when all have it
+  const handleToggleTag = (tag: string) => {
+    if (selected.every(thread => thread.tags?.includes(tag))) {
+      untagThreads(threadIds, tag);
+    } else {
+      tagThreads(threadIds, tag);
+    }
+  };
+
+  const handleDelete = () => {
+    deleteThreads(threadIds);
+    onClear();
+    toast({ title: `Deleted ${plural(threadIds.length)}`, variant: "destructive" });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium mr-1">{threadIds.length} selected</span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <FolderInput className="h-4 w-4" />
+            Move
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <FolderMenuItems onSelect={handleMove} />
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <Tag className="h-4 w-4" />
+            Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 space-y-3">
+          <Input
+            value={tagDraft}
+            placeholder="New tag, then Enter"
+            onChange={(e) => setTagDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+            className="h-8"
+          />
+          {knownTags.length > 0 && (
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {knownTags.map(tag => {
+                const count = selected.filter(thread => thread.tags?.includes(tag)).length;
+                return (
+                  <label key={tag} className="flex items-center gap-2 rounded px-1 py-1 text-sm hover:bg-muted cursor-pointer">
+                    <Checkbox
+                      checked={count === selected.length ? true : count > 0 ? 'indeterminate' : false}
+                      onCheckedChange={() => handleToggleTag(tag)}
+                    />
+                    <span className="truncate">{tag}</span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+      <Button variant="outline" size="sm" className="gap-2" onClick={handleArchive}>
+        {allArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+        {allArchived ? 'Unarchive' : 'Archive'}
+      </Button>
+      <Button variant="outline" size="sm" className="gap-2" onClick={onExport}>
+        <FileDown className="h-4 w-4" />
+        Export
+      </Button>
+      <Button variant="outline" size="sm" className="gap-2 text-destructive" onClick={handleDelete}>
+        <Trash2 className="h-4 w-4" />
+        Delete
+      </Button>
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClear} title="Clear selection">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { ThreadSummary } from '@/utils/summarizer';
+import { Pin, ChevronDown, Pencil, RefreshCw, Trash2, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ThreadSummaryCardProps {
+  summary: ThreadSummary;
+  onSave: (content: string) => void;
+  onRefresh: () => void;
+  onClear: () => void;
+  refreshing?: boolean;
+}
+
+// Pinned at the top of a long thread: the summary replaces the covered
+// messages in the prompt, so this is exactly what the model remembers.
+export function ThreadSummaryCard({ summary, onSave, onRefresh, onClear, refreshing }: ThreadSummaryCardProps) {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(summary.content);
+
+  const startEdit = () => {
+    setDraft(summary.content);
+    setEditing(true);
+    setOpen(true);
+  };
+
+  const handleSave = () => {
+    onSave(draft.trim());
+    setEditing(false);
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-primary/30 bg-primary/5">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <Pin className="h-4 w-4 text-primary" />
+        <CollapsibleTrigger className="flex flex-1 items-center gap-2 text-left text-sm font-medium">
+          Conversation summary
+          <span className="text-xs font-normal text-muted-foreground">
+            replaces {summary.messageIds.length} earlier messages in the prompt
+          </span>
+          {summary.edited && <Badge variant="outline" className="text-xs">Edited</Badge>}
+          <ChevronDown className={cn("h-4 w-4 ml-auto transition-transform", open && "rotate-180")} />
+        </CollapsibleTrigger>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={startEdit} aria-label="Edit summary">
+          <Pencil className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={onRefresh}
+          disabled={refreshing}
+          aria-label="Update summary"
+        >
+          {refreshing ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+        </Button>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClear} aria-label="Remove summary">
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+      <CollapsibleContent className="border-t border-primary/20 px-3 py-2">
+        {editing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="min-h-[120px] text-sm"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={!draft.trim()}>
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="whitespace-pre-wrap text-sm text-muted-foreground">{summary.content}</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
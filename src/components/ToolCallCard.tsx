@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { ChatToolCall } from '@/stores/useAppStore';
+import { Wrench, ChevronDown, Loader2, Check, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ToolCallCardProps {
+  call: ChatToolCall;
+  // False once the answer is stopped, so stale approvals are not offered
+  awaitingApproval: boolean;
+  onApprove: () => void;
+  onReject: () => void;
+  onAlwaysApprove?: () => void;
+}
+
+const STATUS_LABELS: Record<ChatToolCall['status'], string> = {
+  pending: 'Needs approval',
+  running: 'Running',
+  complete: 'Done',
+  error: 'Failed',
+  rejected: 'Declined',
+};
+
+const formatJson = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+export function ToolCallCard({ call, awaitingApproval, onApprove, onReject, onAlwaysApprove }: ToolCallCardProps) {
+  const needsApproval = call.status === 'pending' && awaitingApproval;
+  const [open, setOpen] = useState(needsApproval);
+
+  return (
+    <Collapsible
+      open={open || needsApproval}
+      onOpenChange={setOpen}
+      className={cn("rounded-md border bg-muted/30 text-sm", needsApproval && "border-primary/50")}
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-left">
+        <Wrench className="h-3 w-3 text-muted-foreground" />
+        <span className="font-mono text-xs">{call.name}</span>
+        <Badge
+          variant={call.status === 'error' ? 'destructive' : call.status === 'complete' ? 'secondary' : 'outline'}
+          className="text-xs font-normal"
+        >
+          {call.status === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {call.status === 'pending' && !awaitingApproval ? 'Not run' : STATUS_LABELS[call.status]}
+        </Badge>
+        <ChevronDown className={cn("h-4 w-4 ml-auto transition-transform", (open || needsApproval) && "rotate-180")} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 px-3 pb-3">
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">Arguments</p>
+          <pre className="max-h-48 overflow-auto rounded bg-background p-2 text-xs">{formatJson(call.arguments)}</pre>
+        </div>
+        {call.status === 'complete' && (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">Result</p>
+            <pre className="max-h-64 overflow-auto rounded bg-background p-2 text-xs">{formatJson(call.result)}</pre>
+          </div>
+        )}
+        {call.error && <p className="text-xs text-destructive">{call.error}</p>}
+        {needsApproval && (
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={onReject}>
+              <X className="h-3 w-3" />
+              Deny
+            </Button>
+            {onAlwaysApprove && (
+              <Button variant="outline" size="sm" className="h-7" onClick={onAlwaysApprove}>
+                Always allow
+              </Button>
+            )}
+            <Button size="sm" className="h-7 gap-1" onClick={onApprove}>
+              <Check className="h-3 w-3" />
+              Run tool
+            </Button>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
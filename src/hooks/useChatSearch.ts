@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { useAppSelector } from '@/store';
+import { chatSearchIndex } from '@/utils/searchIndex';
+
+// Full-text search over every chat message, honouring the history filters.
+// The shared index is brought up to date whenever messages change, so only
+// new or edited messages are re-indexed.
+export const useChatSearch = (query: string, limit = 50) => {
+  const chatMessages = useAppSelector(state => state.app.chatMessages);
+  const filters = useAppSelector(state => state.chat.historyFilters);
+
+  const indexedMessages = useMemo(() => {
+    chatSearchIndex.sync(chatMessages);
+    return chatMessages;
+  }, [chatMessages]);
+
+  return useMemo(
+    () => (indexedMessages.length && query.trim() ? chatSearchIndex.search(query, filters, limit) : []),
+    [indexedMessages, query, filters, limit]
+  );
+};
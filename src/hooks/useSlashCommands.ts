@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useStore } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import { useAppDispatch, type RootState } from '@/store';
+import { useAppStore } from '@/stores/useAppStore';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getSlashCommand,
+  getSlashCommands,
+  parseSlashCommand,
+  SlashCommandContext,
+} from '@/utils/slashCommands';
+import '@/utils/builtinCommands';
+
+export interface SlashMenuItem {
+  key: string;
+  label: string;
+  description?: string;
+  // Composer text after the item is picked
+  completion: string;
+}
+
+export const useSlashCommands = (input: string, setInput: (value: string) => void) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null);
+  const [lastInput, setLastInput] = useState(input);
+  const app = useAppStore();
+  const dispatch = useAppDispatch();
+  const store = useStore<RootState>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  if (input !== lastInput) {
+    setLastInput(input);
+    setActiveIndex(0);
+  }
+
+  const context: SlashCommandContext = {
+    app,
+    dispatch,
+    getState: store.getState,
+    setInput,
+    notify: toast,
+    navigate,
+  };
+
+  const parsed = parseSlashCommand(input);
+  let items: SlashMenuItem[] = [];
+  if (parsed && !parsed.hasArgs) {
+    items = getSlashCommands()
+      .filter(command => command.name.startsWith(parsed.name))
+      .map(command => ({
+        key: command.name,
+        label: command.usage ?? `/${command.name}`,
+        description: command.description,
+        completion: command.usage || command.suggest ? `/${command.name} ` : `/${command.name}`,
+      }));
+  } else if (parsed) {
+    const command = getSlashCommand(parsed.name);
+    items = (command?.suggest?.(parsed.args, context) ?? []).map(suggestion => ({
+      key: `${command.name}:${suggestion.value}`,
+      label: suggestion.label,
+      description: suggestion.description,
+      completion: `/${command.name} ${suggestion.value}`,
+    }));
+  }
+
+  const isOpen = items.length > 0 && dismissedFor !== input && !items.some(item => item.completion === input);
+  const selectedIndex = Math.min(activeIndex, items.length - 1);
+
+  const apply = (item: SlashMenuItem) => setInput(item.completion);
+
+  // Returns true when the key was consumed by the menu.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!isOpen) return false;
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveIndex((selectedIndex + 1) % items.length);
+        break;
+      case 'ArrowUp':
+        setActiveIndex((selectedIndex - 1 + items.length) % items.length);
+        break;
+      case 'Tab':
+        apply(items[selectedIndex]);
+        break;
+      case 'Enter':
+        if (e.ctrlKey || e.metaKey) return false;
+        apply(items[selectedIndex]);
+        break;
+      case 'Escape':
+        setDismissedFor(input);
+        break;
+      default:
+        return false;
+    }
+    e.preventDefault();
+    return true;
+  };
+
+  // Runs the composer text as a command. Returns false when it is not one,
+  // so the caller can send it as a normal message.
+  const execute = async (text: string) => {
+    const command = parsed && text === input ? getSlashCommand(parsed.name) : undefined;
+    if (!command) return false;
+
+    if (command.requiresArgs && !parsed.args) {
+      toast({ title: `Usage: ${command.usage ?? `/${command.name}`}`, description: command.description });
+      return true;
+    }
+
+    setInput('');
+    try {
+      await command.run(parsed.args, context);
+    } catch (error) {
+      toast({
+        title: `/${command.name} failed`,
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+    return true;
+  };
+
+  return { items, isOpen, selectedIndex, setActiveIndex, apply, handleKeyDown, execute };
+};
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  getSpeechLocale,
+  isSpeechSynthesisSupported,
+  pickVoice,
+  splitForSpeech,
+  toSpeakableText,
+} from '@/utils/speech';
+
+interface SpeechSynthesisOptions {
+  language: string;
+  voiceURI: string;
+  rate: number;
+}
+
+// Reads answers aloud. Only one answer is spoken at a time; speaking another
+// or calling cancel() stops the current one.
+export const useSpeechSynthesis = (options: SpeechSynthesisOptions) => {
+  const supported = isSpeechSynthesisSupported();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Bumped on every speak/cancel so callbacks of interrupted utterances are ignored
+  const runRef = useRef(0);
+
+  useEffect(() => {
+    if (!supported) return;
+    // Chrome loads voices asynchronously
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, [supported]);
+
+  const cancel = useCallback(() => {
+    if (!supported) return;
+    runRef.current++;
+    window.speechSynthesis.cancel();
+    setSpeakingId(null);
+  }, [supported]);
+
+  const speak = useCallback((id: string, markdown: string, onEnd?: () => void) => {
+    if (!supported) return false;
+    const parts = splitForSpeech(toSpeakableText(markdown));
+    if (parts.length === 0) return false;
+
+    const run = ++runRef.current;
+    window.speechSynthesis.cancel();
+    const { language, voiceURI, rate } = optionsRef.current;
+    const voice = pickVoice(window.speechSynthesis.getVoices(), voiceURI, language);
+    const finish = () => {
+      if (runRef.current !== run) return;
+      runRef.current++;
+      setSpeakingId(null);
+      onEnd?.();
+    };
+
+    parts.forEach((part, i) => {
+      const utterance = new SpeechSynthesisUtterance(part);
+      utterance.lang = voice?.lang || getSpeechLocale(language);
+      utterance.voice = voice || null;
+      utterance.rate = rate;
+      if (i === parts.length - 1) utterance.onend = finish;
+      utterance.onerror = () => {
+        // Drop the rest of the answer rather than reading it with a gap
+        if (runRef.current === run) window.speechSynthesis.cancel();
+        finish();
+      };
+      window.speechSynthesis.speak(utterance);
+    });
+    setSpeakingId(id);
+    return true;
+  }, [supported]);
+
+  useEffect(() => () => {
+    if (supported) window.speechSynthesis.cancel();
+  }, [supported]);
+
+  return { supported, voices, speakingId, speak, cancel };
+};
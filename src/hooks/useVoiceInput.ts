@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getSpeechLocale, getSpeechRecognition } from '@/utils/speech';
+
+interface VoiceInputOptions {
+  language: string;
+  // Silence after which onPause fires
+  pauseMs: number;
+  // Composer text, kept in front of the dictation when push-to-talk starts
+  text: string;
+  onStart?: () => void;
+  onTranscript: (text: string) => void;
+  // Dictation stops and hands over the transcript after a pause
+  onPause?: (text: string) => void;
+  // Push-to-talk key released
+  onRelease?: (text: string) => void;
+  onError?: (error: string) => void;
+}
+
+// Errors that only mean nothing was heard; continuous dictation carries on.
+const BENIGN_ERRORS = new Set(['no-speech', 'aborted']);
+
+const joinText = (...parts: string[]) => parts.map(p => p.trim()).filter(Boolean).join(' ');
+
+const isPushToTalkKey = (e: KeyboardEvent) => e.code === 'Space' && e.ctrlKey;
+
+// Continuous dictation with interim results. Browsers end a recognition
+// session after a stretch of silence, so it is restarted until stop() is
+// called. Holding Ctrl+Space dictates for as long as the keys are held.
+export const useVoiceInput = (options: VoiceInputOptions) => {
+  const [isListening, setIsListening] = useState(false);
+  const [isPushToTalk, setIsPushToTalk] = useState(false);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const activeRef = useRef(false);
+  const pushToTalkRef = useRef(false);
+  const prefixRef = useRef('');
+  const committedRef = useRef('');
+  const sessionFinalRef = useRef('');
+  const latestRef = useRef('');
+  const pauseTimerRef = useRef<number>();
+
+  const supported = !!getSpeechRecognition();
+
+  const stop = useCallback(() => {
+    activeRef.current = false;
+    window.clearTimeout(pauseTimerRef.current);
+    recognitionRef.current?.stop();
+    return latestRef.current;
+  }, []);
+
+  const start = useCallback((prefix = '') => {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition || activeRef.current) return false;
+
+    activeRef.current = true;
+    prefixRef.current = prefix;
+    committedRef.current = '';
+    sessionFinalRef.current = '';
+    latestRef.current = prefix;
+
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = getSpeechLocale(optionsRef.current.language);
+
+    recognition.onstart = () => setIsListening(true);
+
+    // A recognition replaced by push-to-talk may still fire events after abort()
+    const isCurrent = () => recognitionRef.current === recognition;
+
+    recognition.onresult = (event) => {
+      // Results arriving after stop() would refill a composer that was just sent
+      if (!isCurrent() || !activeRef.current) return;
+      let final = '';
+      let interim = '';
+      for (let i = 0; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) final += result[0].transcript;
+        else interim += result[0].transcript;
+      }
+      sessionFinalRef.current = final;
+      latestRef.current = joinText(prefixRef.current, committedRef.current, final, interim);
+      optionsRef.current.onTranscript(latestRef.current);
+
+      window.clearTimeout(pauseTimerRef.current);
+      if (!pushToTalkRef.current && optionsRef.current.onPause) {
+        pauseTimerRef.current = window.setTimeout(() => {
+          if (!activeRef.current || !latestRef.current.trim()) return;
+          activeRef.current = false;
+          recognition.stop();
+          optionsRef.current.onPause?.(latestRef.current);
+        }, optionsRef.current.pauseMs);
+      }
+    };
+
+    recognition.onerror = (event) => {
+      if (!isCurrent() || BENIGN_ERRORS.has(event.error)) return;
+      activeRef.current = false;
+      window.clearTimeout(pauseTimerRef.current);
+      optionsRef.current.onError?.(event.error);
+    };
+
+    recognition.onend = () => {
+      if (!isCurrent()) return;
+      if (activeRef.current) {
+        committedRef.current = joinText(committedRef.current, sessionFinalRef.current);
+        sessionFinalRef.current = '';
+        try {
+          recognition.start();
+          return;
+        } catch {
+          activeRef.current = false;
+        }
+      }
+      recognitionRef.current = null;
+      setIsListening(false);
+    };
+
+    recognitionRef.current = recognition;
+    try {
+      recognition.start();
+    } catch {
+      activeRef.current = false;
+      recognitionRef.current = null;
+      return false;
+    }
+    optionsRef.current.onStart?.();
+    return true;
+  }, []);
+
+  useEffect(() => {
+    if (!supported) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isPushToTalkKey(e)) return;
+      e.preventDefault();
+      if (e.repeat || pushToTalkRef.current) return;
+      // Push-to-talk takes over from an ongoing dictation
+      if (activeRef.current) {
+        const previous = recognitionRef.current;
+        activeRef.current = false;
+        recognitionRef.current = null;
+        previous?.abort();
+      }
+      pushToTalkRef.current = true;
+      setIsPushToTalk(true);
+      start(optionsRef.current.text);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (!pushToTalkRef.current || (e.code !== 'Space' && e.key !== 'Control')) return;
+      pushToTalkRef.current = false;
+      setIsPushToTalk(false);
+      const text = stop();
+      if (text.trim()) optionsRef.current.onRelease?.(text);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [supported, start, stop]);
+
+  useEffect(() => () => {
+    activeRef.current = false;
+    window.clearTimeout(pauseTimerRef.current);
+    const recognition = recognitionRef.current;
+    recognitionRef.current = null;
+    recognition?.abort();
+  }, []);
+
+  return { supported, isListening, isPushToTalk, start, stop };
+};
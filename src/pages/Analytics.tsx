@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { DatePickerWithRange } from '@/components/DateRangePicker';
 import { useAppStore } from '@/stores/useAppStore';
 import { 
@@ -34,9 +35,19 @@ import {
   Activity,
   Cpu,
   HardDrive,
-  Wifi
+  Wifi,
+  Trophy,
+  ThumbsUp,
+  ThumbsDown,
+  AlertTriangle,
+  ShieldCheck,
+  ChevronDown
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getDailyUsage, formatCost } from '@/utils/usage';
+import { summarizePreferences } from '@/utils/comparison';
+import { getDailyGroundedness } from '@/utils/grounding';
+import { summarizeFeedback, getWorstQueries, getProblemSources, FEEDBACK_REASONS } from '@/utils/feedback';
 import Papa from 'papaparse';
 import { addDays, subDays, format } from 'date-fns';
 
@@ -75,23 +86,6 @@ const generateDataSourceUsage = () => [
   { name: 'PostgreSQL', value: 5, color: '#8b5cf6' },
 ];
 
-const generateTokenUsageData = () => {
-  const data = [];
-  for (let i = 6; i >= 0; i--) {
-    const date = subDays(new Date(), i);
-    data.push({
-      date: format(date, 'MMM dd'),
-      promptTokens: Math.floor(Math.random() * 50000) + 20000,
-      completionTokens: Math.floor(Math.random() * 30000) + 15000,
-      totalTokens: 0,
-    });
-  }
-  return data.map(item => ({
-    ...item,
-    totalTokens: item.promptTokens + item.completionTokens,
-  }));
-};
-
 const generateHeatmapData = () => {
   const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   const hours = Array.from({ length: 24 }, (_, i) => i);
@@ -124,6 +118,8 @@ const popularTopics = [
   { text: 'visualization', value: 45 },
 ];
 
+const timeRangeDays: Record<string, number> = { '1d': 1, '7d': 7, '30d': 30, '90d': 90 };
+
 export default function Analytics() {
   const [timeRange, setTimeRange] = useState('7d');
   const [dateRange, setDateRange] = useState({
@@ -131,18 +127,34 @@ export default function Analytics() {
     to: new Date(),
   });
   
-  const { chatMessages, dataSources, mcpServers } = useAppStore();
+  const { chatMessages, dataSources, mcpServers, comparisons } = useAppStore();
 
   const chatUsageData = useMemo(() => generateChatUsageData(), [timeRange]);
   const responseTimeData = useMemo(() => generateResponseTimeData(), []);
   const dataSourceUsage = useMemo(() => generateDataSourceUsage(), []);
-  const tokenUsageData = useMemo(() => generateTokenUsageData(), []);
+  const tokenUsageData = useMemo(
+    () => getDailyUsage(chatMessages, timeRangeDays[timeRange] ?? 7),
+    [chatMessages, timeRange]
+  );
   const heatmapData = useMemo(() => generateHeatmapData(), []);
+  const groundednessData = useMemo(
+    () => getDailyGroundedness(chatMessages, timeRangeDays[timeRange] ?? 7),
+    [chatMessages, timeRange]
+  );
+  const checkedAnswers = chatMessages.filter(m => m.metadata?.groundedness !== undefined);
+  const averageGroundedness = checkedAnswers.length
+    ? checkedAnswers.reduce((sum, m) => sum + m.metadata.groundedness, 0) / checkedAnswers.length
+    : undefined;
+  const preferenceStats = useMemo(() => summarizePreferences(comparisons), [comparisons]);
+  const feedbackSummary = useMemo(() => summarizeFeedback(chatMessages), [chatMessages]);
+  const worstQueries = useMemo(() => getWorstQueries(chatMessages), [chatMessages]);
+  const problemSources = useMemo(() => getProblemSources(chatMessages), [chatMessages]);
 
   // Calculate key metrics
   const totalMessages = chatUsageData.reduce((sum, day) => sum + day.messages, 0);
   const avgResponseTime = responseTimeData.reduce((sum, hour) => sum + hour.avgResponseTime, 0) / responseTimeData.length;
   const totalTokens = tokenUsageData.reduce((sum, day) => sum + day.totalTokens, 0);
+  const totalCost = tokenUsageData.reduce((sum, day) => sum + day.cost, 0);
   const activeDataSources = dataSources.filter(ds => ds.status === 'connected').length;
 
   const exportToCSV = (data: any[], filename: string) => {
@@ -273,9 +285,10 @@ export default function Analytics() {
 
       {/* Main Analytics */}
       <Tabs defaultValue="usage" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="usage">Usage Analytics</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
+          <TabsTrigger value="feedback">Answer Feedback</TabsTrigger>
           <TabsTrigger value="activity">Activity Heatmap</TabsTrigger>
           <TabsTrigger value="system">System Metrics</TabsTrigger>
         </TabsList>
@@ -341,6 +354,9 @@ export default function Analytics() {
               <CardTitle className="flex items-center gap-2">
                 <Zap className="h-5 w-5" />
                 Token Usage Trends
+                <Badge variant="outline" className="ml-auto">
+                  {formatCost(totalCost)} estimated cost
+                </Badge>
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -441,6 +457,224 @@ export default function Analytics() {
               </CardContent>
             </Card>
           </div>
+
+          {/* Answer Groundedness */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Answer Groundedness
+                <Badge variant="secondary" className="ml-auto font-normal">
+                  {averageGroundedness !== undefined
+                    ? `${Math.round(averageGroundedness * 100)}% average over ${checkedAnswers.length} answers`
+                    : 'no checked answers'}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={250}>
+                <LineChart data={groundednessData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis domain={[0, 100]} unit="%" />
+                  <Tooltip
+                    formatter={(value: number, _name: string, item: { payload: { answers: number } }) => [
+                      `${value}% (${item.payload.answers} answers)`,
+                      'Groundedness',
+                    ]}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="groundedness"
+                    stroke="#10b981"
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          {/* Model Preferences */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="h-5 w-5" />
+                Model Preferences
+                <Badge variant="secondary" className="ml-auto font-normal">
+                  {comparisons.filter(c => c.winnerMessageId).length} comparisons
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {preferenceStats.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Compare models in chat and pick the better answer to build up preference data.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {preferenceStats.map(stat => (
+                    <div key={stat.label}>
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-sm font-medium">{stat.label}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {stat.wins} of {stat.comparisons} won • {Math.round(stat.winRate * 100)}%
+                        </span>
+                      </div>
+                      <div className="w-full bg-muted rounded-full h-2">
+                        <div
+                          className="bg-primary h-2 rounded-full transition-all"
+                          style={{ width: `${stat.winRate * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="feedback" className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-sm font-medium text-muted-foreground">Helpful Answers</p>
+                <p className="text-3xl font-bold">
+                  {feedbackSummary.total > 0 ? `${Math.round((feedbackSummary.up / feedbackSummary.total) * 100)}%` : '–'}
+                </p>
+                <p className="text-sm text-muted-foreground flex items-center gap-3">
+                  <span className="flex items-center gap-1">
+                    <ThumbsUp className="h-3 w-3" />
+                    {feedbackSummary.up}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <ThumbsDown className="h-3 w-3" />
+                    {feedbackSummary.down}
+                  </span>
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-sm font-medium text-muted-foreground">Corrections Submitted</p>
+                <p className="text-3xl font-bold">{feedbackSummary.corrections}</p>
+                <p className="text-sm text-muted-foreground">of {feedbackSummary.total} rated answers</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6 space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Reasons Given</p>
+                {Object.entries(FEEDBACK_REASONS).map(([reason, label]) => (
+                  <div key={reason} className="flex items-center justify-between text-sm">
+                    <span>{label}</span>
+                    <Badge variant="outline">{feedbackSummary.reasons[reason as keyof typeof FEEDBACK_REASONS]}</Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Worst-Rated Queries */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5" />
+                  Worst-Rated Queries
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {worstQueries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No answers have been rated down yet.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {worstQueries.map((query, index) => (
+                      <div key={index} className="flex items-start gap-3">
+                        <Badge variant="outline" className="w-8 justify-center">
+                          {index + 1}
+                        </Badge>
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-start justify-between gap-2">
+                            <span className="text-sm font-medium line-clamp-2">{query.question || 'Unknown question'}</span>
+                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                              {query.down} down • {query.up} up
+                            </span>
+                          </div>
+                          {query.reasons.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {query.reasons.map(reason => (
+                                <Badge key={reason} variant="secondary" className="text-xs font-normal">
+                                  {FEEDBACK_REASONS[reason]}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                          {query.lastCorrection && (
+                            <p className="text-xs text-muted-foreground line-clamp-2">
+                              Correction: {query.lastCorrection}
+                            </p>
+                          )}
+                          {query.lastBadChunks.length > 0 && (
+                            <Collapsible>
+                              <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                                <ChevronDown className="h-3 w-3" />
+                                {query.lastBadChunks.length} {query.lastBadChunks.length === 1 ? 'passage' : 'passages'} the model saw
+                              </CollapsibleTrigger>
+                              <CollapsibleContent className="mt-1 space-y-1">
+                                {query.lastBadChunks.map(chunk => (
+                                  <div key={chunk.chunkId} className="rounded border bg-muted/40 p-2 text-xs">
+                                    <div className="mb-0.5 font-medium">
+                                      {chunk.sourceName || chunk.sourceId} • {Math.round(chunk.score * 100)}% match
+                                    </div>
+                                    <p className="text-muted-foreground">{chunk.excerpt ?? 'Passage text was not recorded.'}</p>
+                                  </div>
+                                ))}
+                              </CollapsibleContent>
+                            </Collapsible>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Sources In Bad Answers */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Database className="h-5 w-5" />
+                  Sources in Bad Answers
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {problemSources.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No retrieved sources were involved in down-rated answers.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {problemSources.map(source => (
+                      <div key={source.sourceId}>
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-sm font-medium">{source.sourceName}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {source.badAnswers} of {source.totalAnswers} rated answers
+                          </span>
+                        </div>
+                        <div className="w-full bg-muted rounded-full h-2">
+                          <div
+                            className="bg-destructive h-2 rounded-full transition-all"
+                            style={{ width: `${(source.badAnswers / problemSources[0].badAnswers) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
         </TabsContent>
 
         <TabsContent value="activity" className="space-y-6">
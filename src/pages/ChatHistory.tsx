@@ -4,40 +4,162 @@ import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useAppStore } from '@/stores/useAppStore';
 import { useToast } from '@/hooks/use-toast';
-import { useNavigate } from 'react-router-dom';
+import { PdfExportDialog } from '@/components/PdfExportDialog';
+import { ChatImportDialog } from '@/components/ChatImportDialog';
+import { useChatSearch } from '@/hooks/useChatSearch';
+import { useAppDispatch, useAppSelector } from '@/store';
+import { setHistoryFilters } from '@/store/slices/chatSlice';
+import { ThreadBulkActions, FolderMenuItems } from '@/components/ThreadBulkActions';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   MessageSquare,
   Trash2,
   Search,
   Plus,
-  MoreHorizontal
+  MoreHorizontal,
+  Pencil,
+  Wand2,
+  Loader2,
+  FileDown,
+  Upload,
+  User,
+  Bot,
+  Sparkles,
+  Archive,
+  ArchiveRestore,
+  Folder,
+  FolderInput,
+  X
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { summarizeUsage, formatTokenCount, formatCost } from '@/utils/usage';
+import { getUnembeddedAnswers, ConversationHit } from '@/utils/conversationSearch';
+import { getEmbeddingModelError } from '@/utils/ollama';
+import {
+  flattenFolders,
+  getDescendantFolderIds,
+  getFolderPath,
+  sortThreads,
+  ThreadSort,
+  THREAD_DRAG_TYPE,
+} from '@/utils/folders';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Message hits listed above the conversations; all hits count towards relevance
+const MESSAGE_HIT_LIMIT = 20;
+// Relevance added when the query appears in a conversation's title
+const TITLE_MATCH_BOOST = 10;
 
 export default function ChatHistory() {
   const [searchQuery, setSearchQuery] = useState('');
+  const [renamingThreadId, setRenamingThreadId] = useState<string | null>(null);
+  const [titleDraft, setTitleDraft] = useState('');
+  const [isRetitling, setIsRetitling] = useState(false);
+  const [exportThreadIds, setExportThreadIds] = useState<string[] | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [searchByMeaning, setSearchByMeaning] = useState(false);
+  const [similarHits, setSimilarHits] = useState<ConversationHit[] | null>(null);
+  const [isSearchingSimilar, setIsSearchingSimilar] = useState(false);
+  const [isEmbedding, setIsEmbedding] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [sort, setSort] = useState<ThreadSort>('recent');
+  const [searchParams, setSearchParams] = useSearchParams();
   
   const { 
     chatThreads, 
+    chatFolders,
     chatMessages, 
+    messageEmbeddings,
+    settings,
     deleteThread, 
     switchToThread, 
     createNewThread,
-    clearChatHistory 
+    clearChatHistory,
+    updateThreadTitle,
+    generateThreadTitle,
+    retitleThreads,
+    revealMessage,
+    embedAnswers,
+    searchConversations,
+    moveThreads,
+    archiveThreads
   } = useAppStore();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const historyFilters = useAppSelector(state => state.chat.historyFilters);
+  const roleFilter = historyFilters.role ?? 'all';
+  const unembeddedCount = getUnembeddedAnswers(chatMessages, messageEmbeddings, settings.embeddingModel).length;
+  const embeddingModelError = getEmbeddingModelError(settings.embeddingModel);
 
-  const filteredThreads = chatThreads.filter(thread => {
-    if (!searchQuery) return true;
-    return thread.title.toLowerCase().includes(searchQuery.toLowerCase());
-  });
+  const threadTitles = new Map(chatThreads.map(thread => [thread.id, thread.title]));
+  const messageCounts = new Map<string, number>();
+  chatMessages.forEach(m => messageCounts.set(m.threadId, (messageCounts.get(m.threadId) ?? 0) + 1));
+
+  // "all", "unfiled", "archived" or a folder id, which includes its subfolders
+  const requestedView = searchParams.get('folder') ?? 'all';
+  const isFolderView = chatFolders.some(folder => folder.id === requestedView);
+  const view = isFolderView || ['unfiled', 'archived'].includes(requestedView) ? requestedView : 'all';
+  const viewFolderIds = isFolderView ? [view, ...getDescendantFolderIds(chatFolders, view)] : [];
+  const isInView = (threadId: string) => {
+    const thread = chatThreads.find(t => t.id === threadId);
+    if (!thread) return false;
+    if (historyFilters.tags.length > 0 && !historyFilters.tags.some(tag => thread.tags?.includes(tag))) return false;
+    if (view === 'archived') return Boolean(thread.archived);
+    if (thread.archived) return false;
+    if (view === 'unfiled') return !thread.folderId || !chatFolders.some(folder => folder.id === thread.folderId);
+    return view === 'all' || viewFolderIds.includes(thread.folderId);
+  };
+
+  // A description typed for meaning search is not matched against words
+  const query = searchByMeaning ? '' : searchQuery.trim().toLowerCase();
+  const messageHits = useChatSearch(query, 200).filter(hit => isInView(hit.threadId));
+  const relevance = new Map<string, number>();
+  messageHits.forEach(hit => relevance.set(hit.threadId, (relevance.get(hit.threadId) ?? 0) + hit.score));
+  chatThreads
+    .filter(thread => query && thread.title.toLowerCase().includes(query))
+    .forEach(thread => relevance.set(thread.id, (relevance.get(thread.id) ?? 0) + TITLE_MATCH_BOOST));
+
+  const filteredThreads = sortThreads(
+    chatThreads.filter(thread => isInView(thread.id) && (!query || relevance.has(thread.id))),
+    sort === 'relevance' && !query ? 'recent' : sort,
+    { messageCounts, relevance }
+  );
+  const visibleSelection = selectedIds.filter(id => filteredThreads.some(thread => thread.id === id));
+  const allSelected = filteredThreads.length > 0 && visibleSelection.length === filteredThreads.length;
+
+  const setView = (next: string) => {
+    setSelectedIds([]);
+    setSearchParams(next === 'all' ? {} : { folder: next });
+  };
+
+  const toggleSelected = (threadId: string, checked: boolean) => {
+    setSelectedIds(ids => (checked ? [...ids, threadId] : ids.filter(id => id !== threadId)));
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    const tags = historyFilters.tags.includes(tag)
+      ? historyFilters.tags.filter(t => t !== tag)
+      : [...historyFilters.tags, tag];
+    dispatch(setHistoryFilters({ tags }));
+  };
 
   const handleStartNewChat = () => {
     createNewThread();
@@ -49,6 +171,44 @@ export default function ChatHistory() {
     navigate('/');
   };
 
+  const handleOpenHit = (messageId: string) => {
+    revealMessage(messageId);
+    navigate('/', { state: { focusMessageId: messageId } });
+  };
+
+  const handleSearchByMeaning = async () => {
+    if (!searchQuery.trim()) return;
+    setIsSearchingSimilar(true);
+    try {
+      setSimilarHits(await searchConversations(searchQuery, historyFilters).unwrap());
+    } catch (error) {
+      toast({
+        title: "Search failed",
+        description: error instanceof Error ? error.message : 'The embedding model did not respond.',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSearchingSimilar(false);
+    }
+  };
+
+  const handleEmbedAnswers = async () => {
+    setIsEmbedding(true);
+    try {
+      const count = await embedAnswers().unwrap();
+      toast({ title: `Indexed ${count} answer${count === 1 ? '' : 's'}` });
+      if (similarHits) handleSearchByMeaning();
+    } catch (error) {
+      toast({
+        title: "Indexing failed",
+        description: error instanceof Error ? error.message : 'The embedding model did not respond.',
+        variant: "destructive"
+      });
+    } finally {
+      setIsEmbedding(false);
+    }
+  };
+
   const handleDeleteThread = (threadId: string, event: React.MouseEvent) => {
     event.stopPropagation();
     deleteThread(threadId);
@@ -66,11 +226,60 @@ export default function ChatHistory() {
     });
   };
 
+  const handleStartRename = (threadId: string, title: string) => {
+    setRenamingThreadId(threadId);
+    setTitleDraft(title);
+  };
+
+  const handleSubmitRename = () => {
+    if (renamingThreadId && titleDraft.trim()) {
+      updateThreadTitle(renamingThreadId, titleDraft.trim());
+    }
+    setRenamingThreadId(null);
+  };
+
+  const handleGenerateTitle = async (threadId: string) => {
+    try {
+      const title = await generateThreadTitle(threadId).unwrap();
+      if (!title) {
+        toast({ title: "Nothing to title yet", description: "The conversation needs a question and an answer." });
+      }
+    } catch (error) {
+      toast({
+        title: "Could not generate title",
+        description: error instanceof Error ? error.message : 'The model did not respond.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRetitleAll = async () => {
+    setIsRetitling(true);
+    const { updated, skipped, failed } = await retitleThreads(
+      chatThreads.filter(thread => thread.titleSource !== 'user').map(thread => thread.id)
+    ).unwrap();
+    setIsRetitling(false);
+    toast({
+      title: `Retitled ${updated} conversation${updated === 1 ? '' : 's'}`,
+      description: [
+        skipped > 0 && `${skipped} skipped`,
+        failed > 0 && `${failed} failed`,
+        'Renamed conversations were left unchanged.',
+      ].filter(Boolean).join(' • '),
+      variant: failed > 0 && updated === 0 ? "destructive" : undefined
+    });
+  };
+
   const getThreadPreview = (thread: any) => {
     const threadMessages = chatMessages.filter(m => m.threadId === thread.id);
     return threadMessages.length > 0 ? `${threadMessages.length} messages` : 'Empty conversation';
   };
 
+  const getThreadUsage = (threadId: string) => {
+    const usage = summarizeUsage(chatMessages.filter(m => m.threadId === threadId));
+    return usage.tokens > 0 ? `${formatTokenCount(usage.tokens)} tokens • ${formatCost(usage.cost)}` : null;
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -83,19 +292,51 @@ export default function ChatHistory() {
     return date.toLocaleDateString();
   };
 
+  const renderMessageHit = (
+    messageId: string,
+    role: 'user' | 'assistant',
+    threadId: string,
+    timestamp: string,
+    snippet: React.ReactNode
+  ) => (
+    <button
+      key={messageId}
+      onClick={() => handleOpenHit(messageId)}
+      className="w-full text-left p-3 rounded-lg hover:bg-muted transition-colors"
+    >
+      <div className="flex items-center gap-2 mb-1 text-xs text-muted-foreground">
+        {role === 'user' ? <User className="h-3 w-3" /> : <Bot className="h-3 w-3" />}
+        <span className="truncate font-medium text-foreground">{threadTitles.get(threadId)}</span>
+        <span>•</span>
+        <span className="flex-shrink-0">{formatDate(timestamp)}</span>
+      </div>
+      <p className="text-sm text-muted-foreground line-clamp-2">{snippet}</p>
+    </button>
+  );
+
+  // First child of both layouts, so an import from the empty state keeps its report
+  const importDialog = <ChatImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />;
+
   if (chatThreads.length === 0) {
     return (
       <div className="flex items-center justify-center h-full">
+        {importDialog}
         <div className="text-center space-y-4">
           <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto" />
           <div>
             <h3 className="text-lg font-semibold">No conversations yet</h3>
             <p className="text-muted-foreground">Start chatting to see your history here</p>
           </div>
-          <Button onClick={handleStartNewChat} className="gap-2">
-            <Plus className="h-4 w-4" />
-            Start new conversation
-          </Button>
+          <div className="flex justify-center gap-2">
+            <Button onClick={handleStartNewChat} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Start new conversation
+            </Button>
+            <Button onClick={() => setIsImportOpen(true)} variant="outline" className="gap-2">
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+          </div>
         </div>
       </div>
     );
@@ -103,6 +344,7 @@ export default function ChatHistory() {
 
   return (
     <div className="h-full flex flex-col">
+      {importDialog}
       {/* Header */}
       <div className="p-4 border-b">
         <div className="flex items-center justify-between mb-4">
@@ -112,6 +354,23 @@ export default function ChatHistory() {
               <Plus className="h-4 w-4" />
               New
             </Button>
+            <Button onClick={handleRetitleAll} variant="outline" size="sm" className="gap-2" disabled={isRetitling}>
+              {isRetitling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+              Retitle
+            </Button>
+            <Button
+              onClick={() => setExportThreadIds(filteredThreads.map(thread => thread.id))}
+              variant="outline"
+              size="sm"
+              className="gap-2"
+            >
+              <FileDown className="h-4 w-4" />
+              Export
+            </Button>
+            <Button onClick={() => setIsImportOpen(true)} variant="outline" size="sm" className="gap-2">
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
             {chatThreads.length > 0 && (
               <Button onClick={handleClearAll} variant="ghost" size="sm" className="gap-2">
                 <Trash2 className="h-4 w-4" />
@@ -122,37 +381,257 @@ export default function ChatHistory() {
         </div>
         
         {/* Search */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search conversations..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={searchByMeaning
+                ? 'Describe what you are looking for and press Enter...'
+                : 'Search messages... ("exact phrase", prefix*)'}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && searchByMeaning) handleSearchByMeaning();
+              }}
+              className="pl-10"
+            />
+          </div>
+          <Button
+            variant={searchByMeaning ? 'secondary' : 'outline'}
+            onClick={() => setSearchByMeaning(!searchByMeaning)}
+            className="gap-2"
+            title="Find answers with a similar meaning instead of matching words"
+          >
+            {isSearchingSimilar ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+            By meaning
+          </Button>
+          <Select
+            value={roleFilter}
+            onValueChange={(role: 'all' | 'user' | 'assistant') => dispatch(setHistoryFilters({ role }))}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All messages</SelectItem>
+              <SelectItem value="user">Questions</SelectItem>
+              <SelectItem value="assistant">Answers</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mt-3 min-h-9">
+          <Checkbox
+            checked={allSelected ? true : visibleSelection.length > 0 ? 'indeterminate' : false}
+            onCheckedChange={() => setSelectedIds(allSelected ? [] : filteredThreads.map(thread => thread.id))}
+            aria-label="Select all conversations"
+            className="mx-2"
           />
+          {visibleSelection.length > 0 ? (
+            <ThreadBulkActions
+              threadIds={visibleSelection}
+              onClear={() => setSelectedIds([])}
+              onExport={() => setExportThreadIds(visibleSelection)}
+            />
+          ) : (
+            <>
+              <Select value={view} onValueChange={setView}>
+                <SelectTrigger className="w-48 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All conversations</SelectItem>
+                  <SelectItem value="unfiled">No folder</SelectItem>
+                  {flattenFolders(chatFolders).map(({ folder, depth }) => (
+                    <SelectItem key={folder.id} value={folder.id}>
+                      {'\u00a0\u00a0'.repeat(depth)}{folder.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="archived">Archived</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={sort} onValueChange={(value: ThreadSort) => setSort(value)}>
+                <SelectTrigger className="w-40 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="recent">Recently updated</SelectItem>
+                  <SelectItem value="oldest">Oldest first</SelectItem>
+                  <SelectItem value="messages">Most messages</SelectItem>
+                  <SelectItem value="relevance" disabled={!query}>Relevance</SelectItem>
+                </SelectContent>
+              </Select>
+              {historyFilters.tags.map(tag => (
+                <Badge key={tag} variant="secondary" className="gap-1">
+                  {tag}
+                  <button onClick={() => toggleTagFilter(tag)} aria-label={`Remove ${tag} filter`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </>
+          )}
         </div>
       </div>
 
       {/* Conversation List */}
       <ScrollArea className="flex-1">
+        {searchByMeaning ? (
+          <div className="p-2 space-y-1 border-b">
+            <div className="flex items-center justify-between gap-2 px-3 py-1 text-xs text-muted-foreground">
+              <h2 className="font-medium">
+                {similarHits ? `Similar answers (${similarHits.length})` : 'Search answers by meaning'}
+              </h2>
+              {unembeddedCount > 0 && !embeddingModelError && (
+                <button
+                  onClick={handleEmbedAnswers}
+                  disabled={isEmbedding}
+                  className="flex items-center gap-1 hover:text-foreground disabled:opacity-50"
+                >
+                  {isEmbedding && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Index {unembeddedCount} more answer{unembeddedCount === 1 ? '' : 's'}
+                </button>
+              )}
+            </div>
+            {embeddingModelError && (
+              <p className="px-3 py-2 text-sm text-muted-foreground">
+                {embeddingModelError}{' '}
+                <button onClick={() => navigate('/settings')} className="underline hover:text-foreground">
+                  Open Settings
+                </button>
+              </p>
+            )}
+            {similarHits?.filter(hit => isInView(hit.threadId)).map(hit => {
+              const messageId = roleFilter === 'user' ? hit.questionId : hit.answerId;
+              const content = chatMessages.find(m => m.id === messageId)?.content ?? '';
+              return renderMessageHit(
+                messageId,
+                roleFilter === 'user' ? 'user' : 'assistant',
+                hit.threadId,
+                hit.timestamp,
+                <>
+                  <span className="text-foreground">{Math.round(hit.similarity * 100)}% match • </span>
+                  {content.replace(/\s+/g, ' ').slice(0, 240)}
+                </>
+              );
+            })}
+            {similarHits?.length === 0 && (
+              <p className="px-3 py-2 text-sm text-muted-foreground">No similar answers found.</p>
+            )}
+          </div>
+        ) : searchQuery.trim() && (
+          <div className="p-2 space-y-1 border-b">
+            <h2 className="px-3 py-1 text-xs font-medium text-muted-foreground">
+              Messages ({messageHits.length})
+            </h2>
+            {messageHits.slice(0, MESSAGE_HIT_LIMIT).map(hit => renderMessageHit(
+              hit.messageId,
+              hit.role,
+              hit.threadId,
+              hit.timestamp,
+              hit.snippet.map((part, i) => (
+                part.match
+                  ? <mark key={i} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part.text}</mark>
+                  : <span key={i}>{part.text}</span>
+              ))
+            ))}
+            {messageHits.length === 0 && (
+              <p className="px-3 py-2 text-sm text-muted-foreground">No messages match.</p>
+            )}
+          </div>
+        )}
         <div className="p-2 space-y-1">
+          {searchQuery.trim() && filteredThreads.length > 0 && (
+            <h2 className="px-3 py-1 text-xs font-medium text-muted-foreground">
+              Conversations
+            </h2>
+          )}
+          {filteredThreads.length === 0 && (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+              {view === 'archived' ? 'No archived conversations.' : 'No conversations here.'}
+            </p>
+          )}
           {filteredThreads.map((thread) => (
             <div
               key={thread.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(THREAD_DRAG_TYPE, thread.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
               onClick={() => handleContinueThread(thread.id)}
-              className="group flex items-center justify-between p-3 rounded-lg hover:bg-muted cursor-pointer transition-colors"
+              className={cn(
+                "group flex items-center justify-between gap-3 p-3 rounded-lg hover:bg-muted cursor-pointer transition-colors",
+                selectedIds.includes(thread.id) && "bg-muted/60"
+              )}
             >
+              <div onClick={(e) => e.stopPropagation()} className="flex items-center">
+                <Checkbox
+                  checked={selectedIds.includes(thread.id)}
+                  onCheckedChange={(checked) => toggleSelected(thread.id, checked === true)}
+                  aria-label={`Select ${thread.title}`}
+                />
+              </div>
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 mb-1">
                   <MessageSquare className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                  <h3 className="font-medium truncate text-sm">
-                    {thread.title}
-                  </h3>
+                  {renamingThreadId === thread.id ? (
+                    <Input
+                      value={titleDraft}
+                      onChange={(e) => setTitleDraft(e.target.value)}
+                      onClick={(e) => e.stopPropagation()}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSubmitRename();
+                        if (e.key === 'Escape') setRenamingThreadId(null);
+                      }}
+                      onBlur={handleSubmitRename}
+                      className="h-7 text-sm"
+                      autoFocus
+                    />
+                  ) : (
+                    <h3 className="font-medium truncate text-sm">
+                      {thread.title}
+                    </h3>
+                  )}
+                  {thread.folderId && view !== thread.folderId && getFolderPath(chatFolders, thread.folderId) && (
+                    <Badge variant="outline" className="gap-1 font-normal flex-shrink-0">
+                      <Folder className="h-3 w-3" />
+                      {getFolderPath(chatFolders, thread.folderId)}
+                    </Badge>
+                  )}
+                  {thread.archived && view !== 'archived' && (
+                    <Badge variant="outline" className="font-normal flex-shrink-0">Archived</Badge>
+                  )}
                 </div>
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                   <span>{getThreadPreview(thread)}</span>
                   <span>•</span>
                   <span>{formatDate(thread.updatedAt)}</span>
+                  {thread.importedFrom && (
+                    <>
+                      <span>•</span>
+                      <span>from {thread.importedFrom === 'chatgpt' ? 'ChatGPT' : 'Claude'}</span>
+                    </>
+                  )}
+                  {getThreadUsage(thread.id) && (
+                    <>
+                      <span>•</span>
+                      <span>{getThreadUsage(thread.id)}</span>
+                    </>
+                  )}
+                  {thread.tags?.map(tag => (
+                    <Badge
+                      key={tag}
+                      variant={historyFilters.tags.includes(tag) ? 'default' : 'secondary'}
+                      className="font-normal cursor-pointer"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleTagFilter(tag);
+                      }}
+                    >
+                      {tag}
+                    </Badge>
+                  ))}
                 </div>
               </div>
               
@@ -168,6 +647,51 @@ export default function ChatHistory() {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleStartRename(thread.id, thread.title);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleGenerateTitle(thread.id);
+                    }}
+                  >
+                    <Wand2 className="h-4 w-4 mr-2" />
+                    Generate title
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setExportThreadIds([thread.id]);
+                    }}
+                  >
+                    <FileDown className="h-4 w-4 mr-2" />
+                    Export as PDF
+                  </DropdownMenuItem>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                      <FolderInput className="h-4 w-4 mr-2" />
+                      Move to
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent onClick={(e) => e.stopPropagation()}>
+                      <FolderMenuItems onSelect={(folderId) => moveThreads([thread.id], folderId)} />
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      archiveThreads([thread.id], !thread.archived);
+                    }}
+                  >
+                    {thread.archived ? <ArchiveRestore className="h-4 w-4 mr-2" /> : <Archive className="h-4 w-4 mr-2" />}
+                    {thread.archived ? 'Unarchive' : 'Archive'}
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={(e) => handleDeleteThread(thread.id, e)}
                     className="text-destructive"
@@ -181,6 +705,12 @@ export default function ChatHistory() {
           ))}
         </div>
       </ScrollArea>
+
+      <PdfExportDialog
+        open={!!exportThreadIds}
+        onOpenChange={(open) => !open && setExportThreadIds(null)}
+        initialThreadIds={exportThreadIds ?? []}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -5,9 +5,36 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { useAppStore } from '@/stores/useAppStore';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChatMessageContent } from '@/components/ChatMessageContent';
+import { BranchSwitcher } from '@/components/BranchSwitcher';
+import { ChatAttachments } from '@/components/ChatAttachments';
+import { ThreadSummaryCard } from '@/components/ThreadSummaryCard';
+import { SlashCommandMenu } from '@/components/SlashCommandMenu';
+import { CompareSetup } from '@/components/CompareSetup';
+import { ComparisonPanel } from '@/components/ComparisonPanel';
+import { AnswerFeedback } from '@/components/AnswerFeedback';
+import { ToolCallCard } from '@/components/ToolCallCard';
+import { FollowUpChips } from '@/components/FollowUpChips';
+import { CitationViewer, Citation } from '@/components/CitationViewer';
+import { useAppStore, ChatMessage, CompareConfig, ModelComparison } from '@/stores/useAppStore';
+import { useStore } from 'react-redux';
+import { useAppSelector, type RootState } from '@/store';
 import { useToast } from '@/hooks/use-toast';
-import { useNavigate } from 'react-router-dom';
+import { useSlashCommands } from '@/hooks/useSlashCommands';
+import { useVoiceInput } from '@/hooks/useVoiceInput';
+import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
+import { useLocation, useNavigate } from 'react-router-dom';
 import {
   Send,
   Paperclip,
@@ -17,35 +44,166 @@ import {
   FileText,
   Loader2,
   MessageSquare,
-  Plus
+  Plus,
+  AlertCircle,
+  RotateCcw,
+  Square,
+  Pencil,
+  RefreshCw,
+  ChevronDown,
+  UserCog,
+  Columns2,
+  ShieldCheck,
+  Headphones,
+  Volume2,
+  VolumeX
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatTokenCount, formatCost } from '@/utils/usage';
+import { readFilePages } from '@/utils/chunking';
+import { findDuplicateConfigs } from '@/utils/comparison';
+
+// A failed answer is recorded on its assistant message and rendered inline,
+// so callers only keep the rejection from going unhandled.
+const settleAnswer = <T,>(request: Promise<T> | undefined) => request?.catch(() => undefined);
 
 const Index = () => {
   const [message, setMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [isListening, setIsListening] = useState(false);
+  const [handsFree, setHandsFree] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [checkingGroundingId, setCheckingGroundingId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareConfigs, setCompareConfigs] = useState<CompareConfig[]>([]);
+  const [activeCitation, setActiveCitation] = useState<{ messageId: string; citationId?: string } | null>(null);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Read after an answer finishes, when the toggle may have changed since sending
+  const handsFreeRef = useRef(false);
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { chatMessages, addChatMessage, dataSources, mcpServers, addDataSource, getCurrentThreadMessages, createNewThread } = useAppStore();
+  const location = useLocation();
+  const store = useStore<RootState>();
+  const slashCommands = useSlashCommands(message, setMessage);
+  const {
+    chatMessages,
+    addChatMessage,
+    generateChatResponse,
+    retryChatResponse,
+    stopChatResponse,
+    regenerateChatResponse,
+    editChatMessage,
+    selectBranch,
+    getMessageSiblings,
+    currentThreadId,
+    dataSources,
+    mcpServers,
+    attachFileToThread,
+    removeChatAttachment,
+    promoteChatAttachment,
+    getCurrentThreadAttachments,
+    getCurrentThreadSummary,
+    summarizeThread,
+    editThreadSummary,
+    clearThreadSummary,
+    getCurrentThreadMessages,
+    createNewThread,
+    chatThreads,
+    personas,
+    getCurrentPersona,
+    setThreadPersona,
+    settings,
+    compareResponses,
+    chooseComparisonWinner,
+    getCurrentThreadComparisons,
+    rateMessage,
+    approveToolCall,
+    alwaysApproveTool,
+    checkGrounding
+  } = useAppStore();
+  const chatModels = useAppSelector(state => state.chat.models);
+  const speech = useSpeechSynthesis({
+    language: settings.language,
+    voiceURI: settings.speechVoice,
+    rate: settings.speechRate,
+  });
+  const voice = useVoiceInput({
+    language: settings.language,
+    pauseMs: settings.voicePauseMs,
+    text: message,
+    // Don't talk over the user
+    onStart: () => speech.cancel(),
+    onTranscript: setMessage,
+    onPause: handsFree || settings.voiceAutoSend ? (text) => handleSendMessage(text) : undefined,
+    onRelease: (text) => handleSendMessage(text),
+    onError: (error) => {
+      setHandsFree(false);
+      handsFreeRef.current = false;
+      toast({
+        title: "Voice input failed",
+        description: error === 'not-allowed'
+          ? "Microphone access was blocked. Allow it in your browser to talk to the assistant."
+          : "Please try again or type your question.",
+        variant: "destructive",
+      });
+    },
+  });
 
   const connectedSources = dataSources.filter(s => s.status === 'connected');
   const connectedServers = mcpServers.filter(s => s.status === 'connected');
   const currentThreadMessages = getCurrentThreadMessages();
+  const currentAttachments = getCurrentThreadAttachments();
+  const threadSummary = getCurrentThreadSummary();
+  const summarizedIds = new Set(threadSummary?.messageIds);
+  const currentThread = chatThreads.find(t => t.id === currentThreadId);
+  const currentPersona = getCurrentPersona();
+  const isLoading = chatMessages.some(m => m.threadId === currentThreadId && m.status === 'streaming');
+  // Undecided comparisons render as columns in place of the answer on the active branch
+  const pendingComparisons = new Map<string, ModelComparison>();
+  getCurrentThreadComparisons()
+    .filter(comparison => !comparison.winnerMessageId)
+    .forEach(comparison => comparison.candidates.forEach(c => pendingComparisons.set(c.messageId, comparison)));
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Only new or growing messages scroll, so a message shown from search stays in view
+  const lastMessage = currentThreadMessages[currentThreadMessages.length - 1];
   useEffect(() => {
     scrollToBottom();
-  }, [currentThreadMessages]);
+  }, [currentThreadId, currentThreadMessages.length, lastMessage?.content]);
+
+  // Search results link here with the message to show
+  useEffect(() => {
+    const focusMessageId = (location.state as { focusMessageId?: string } | null)?.focusMessageId;
+    if (!focusMessageId) return;
+    setFocusedMessageId(focusMessageId);
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, location.pathname, navigate]);
 
-  const handleSendMessage = async () => {
-    if (!message.trim() || isLoading) return;
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ block: 'center' });
+    const timer = setTimeout(() => setFocusedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [focusedMessageId]);
 
-    const userMessage = message;
+  const handleSendMessage = async (text = message) => {
+    if (!text.trim() || isLoading) return;
+    if (await slashCommands.execute(text)) return;
+    if (compareMode && findDuplicateConfigs(compareConfigs).size > 0) {
+      toast({
+        title: "Duplicate comparison columns",
+        description: "Each column needs a different model or retrieval setting.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const userMessage = text;
     setMessage('');
     
     // Add user message
@@ -55,68 +213,185 @@ const Index = () => {
       timestamp: new Date().toISOString()
     });
 
-    setIsLoading(true);
-
-    // Simulate AI response delay
-    setTimeout(() => {
-      const responses = [
-        "Based on your connected data sources, I found relevant information. Here's what I can tell you about that topic...",
-        "I've analyzed the documents in your knowledge base and found several relevant matches. Let me provide you with a comprehensive answer...",
-        "Drawing from your MCP servers and uploaded files, I can provide insights on this question. Here's what the data shows...",
-        "I've searched through your connected resources and found some interesting patterns. Here's my analysis..."
-      ];
-
-      const sources = connectedSources.length > 0 ? 
-        connectedSources.slice(0, 2).map(s => `${s.name}.${s.type === 'file' ? 'pdf' : 'data'}`) : 
-        ['sample_document.pdf', 'knowledge_base.txt'];
-
-      addChatMessage({
-        content: responses[Math.floor(Math.random() * responses.length)],
-        role: 'assistant',
-        sources: Math.random() > 0.5 ? sources : undefined,
-        timestamp: new Date().toISOString()
+    if (compareMode) {
+      compareResponses(compareConfigs).unwrap().catch((error) => {
+        toast({
+          title: "Comparison failed",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive"
+        });
+      }).finally(() => handleAnswerFinished());
+      return;
+    }
+
+    settleAnswer(generateChatResponse().unwrap())
+      .then(result => handleAnswerFinished(result && !result.stopped ? result.messageId : undefined));
+  };
+
+  // Reads the answer aloud when enabled; hands-free mode then listens for the next question.
+  const handleAnswerFinished = (messageId?: string) => {
+    const resumeListening = () => {
+      if (handsFreeRef.current) voice.start();
+    };
+    const answer = messageId && store.getState().app.chatMessages.find(m => m.id === messageId);
+    const shouldSpeak = answer && answer.status === 'complete' && (handsFreeRef.current || settings.readAloud);
+    if (!shouldSpeak || !speech.speak(answer.id, answer.content, resumeListening)) resumeListening();
+  };
+
+  const handleToggleHandsFree = () => {
+    const enabled = !handsFree;
+    if (enabled && !voice.supported) {
+      toast({
+        title: "Voice input not supported",
+        description: "Your browser doesn't support voice input.",
+        variant: "destructive",
       });
+      return;
+    }
+    setHandsFree(enabled);
+    handsFreeRef.current = enabled;
+    if (enabled) {
+      if (!isLoading) voice.start(message);
+    } else {
+      voice.stop();
+      speech.cancel();
+    }
+  };
 
-      setIsLoading(false);
-    }, 1500);
+  const handleReadAloud = (msg: ChatMessage) => {
+    if (speech.speakingId === msg.id) {
+      speech.cancel();
+    } else {
+      speech.speak(msg.id, msg.content);
+    }
   };
 
+  const handleToggleCompare = () => {
+    if (!compareMode && compareConfigs.length === 0) {
+      const base = { model: settings.ollamaModel, retrievalEnabled: true, retrievalTopK: settings.retrievalTopK };
+      setCompareConfigs([base, { ...base, retrievalEnabled: false }]);
+    }
+    setCompareMode(!compareMode);
+  };
+
+  const handleRetry = (messageId: string) => {
+    settleAnswer(retryChatResponse(messageId).unwrap());
+  };
+
+  const handleStartEdit = (msg: ChatMessage) => {
+    setEditingMessageId(msg.id);
+    setEditDraft(msg.content);
+  };
+
+  const handleSubmitEdit = () => {
+    if (!editingMessageId || !editDraft.trim()) return;
+    settleAnswer(editChatMessage(editingMessageId, editDraft)?.unwrap());
+    setEditingMessageId(null);
+    setEditDraft('');
+  };
+
+  const handleCheckGrounding = async (messageId: string) => {
+    setCheckingGroundingId(messageId);
+    try {
+      await checkGrounding(messageId).unwrap();
+    } catch (error) {
+      toast({
+        title: "Grounding check failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setCheckingGroundingId(null);
+    }
+  };
+
+  const handleRegenerate = (messageId: string) => {
+    settleAnswer(regenerateChatResponse(messageId).unwrap());
+  };
+
+  const getViewerCitations = (msg: ChatMessage): Citation[] =>
+    (msg.citations || []).map(citation => ({
+      ...citation,
+      sourceName: citation.sourceName || citation.sourceId,
+      context: citation.context || '',
+      timestamp: msg.timestamp,
+    }));
+
+  const handleCitationClick = (msg: ChatMessage, index: number) => {
+    const citation = msg.citations?.find(c => c.index === index);
+    setActiveCitation({ messageId: msg.id, citationId: citation?.id });
+  };
+
+  const activeCitationMessage = activeCitation
+    ? chatMessages.find(m => m.id === activeCitation.messageId)
+    : undefined;
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (slashCommands.handleKeyDown(e)) return;
     if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
       e.preventDefault();
       handleSendMessage();
     }
   };
 
+  const handleAttachFiles = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const pages = await readFilePages(file);
+        attachFileToThread({ name: file.name, size: file.size, type: file.type, pages });
+        toast({
+          title: "File attached",
+          description: `${file.name} will be used as context in this conversation.`,
+        });
+      } catch (error) {
+        toast({
+          title: "Could not attach file",
+          description: error instanceof Error ? error.message : `${file.name} could not be read.`,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files) return;
+    await handleAttachFiles(Array.from(files));
+    e.target.value = '';
+  };
 
-    for (const file of Array.from(files)) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const content = event.target?.result as string;
-        
-        // Add file as data source
-        addDataSource({
-          name: file.name,
-          type: 'file',
-          status: 'connected',
-          fileCount: 1,
-          lastSync: new Date().toISOString()
-        });
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleAttachFiles(Array.from(e.dataTransfer.files));
+  };
 
-        toast({
-          title: "File uploaded",
-          description: `${file.name} has been processed and added to your knowledge base.`,
-        });
-      };
-      reader.readAsText(file);
+  const handlePromoteAttachment = (attachmentId: string) => {
+    const attachment = currentAttachments.find(a => a.id === attachmentId);
+    promoteChatAttachment(attachmentId);
+    toast({
+      title: "Added to knowledge base",
+      description: `${attachment?.name ?? 'The file'} is now available in every conversation.`,
+    });
+  };
+
+  const handleRefreshSummary = async () => {
+    setIsSummarizing(true);
+    try {
+      await summarizeThread()?.unwrap();
+    } catch (error) {
+      toast({
+        title: "Could not update summary",
+        description: error instanceof Error ? error.message : 'The model did not return a summary.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSummarizing(false);
     }
   };
 
   const toggleVoiceInput = () => {
-    if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
+    if (!voice.supported) {
       toast({
         title: "Voice input not supported",
         description: "Your browser doesn't support voice input.",
@@ -125,64 +400,50 @@ const Index = () => {
       return;
     }
 
-    if (isListening) {
-      setIsListening(false);
+    if (voice.isListening) {
+      voice.stop();
       return;
     }
 
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    const recognition = new SpeechRecognition();
-    
-    recognition.continuous = false;
-    recognition.interimResults = false;
-    recognition.lang = 'en-US';
-
-    recognition.onstart = () => {
-      setIsListening(true);
-      toast({
-        title: "Listening...",
-        description: "Start speaking your question",
-      });
-    };
-
-    recognition.onresult = (event) => {
-      const transcript = event.results[0][0].transcript;
-      setMessage(transcript);
-      setIsListening(false);
-    };
-
-    recognition.onerror = () => {
-      setIsListening(false);
-      toast({
-        title: "Voice input failed",
-        description: "Please try again or type your question.",
-        variant: "destructive",
-      });
-    };
-
-    recognition.onend = () => {
-      setIsListening(false);
-    };
-
-    recognition.start();
+    voice.start(message);
   };
 
-  const handleStartNewChat = () => {
-    createNewThread();
+  const handleStartNewChat = (personaId?: string) => {
+    createNewThread(personaId);
     setMessage('');
     toast({
       title: "New thread started",
-      description: "Ready for a fresh conversation!"
+      description: personaId
+        ? `Chatting as ${personas.find(p => p.id === personaId)?.name}.`
+        : "Ready for a fresh conversation!"
     });
   };
 
+  const handlePersonaChange = (value: string) => {
+    const personaId = value === 'default' ? null : value;
+    if (currentThreadId) {
+      setThreadPersona(currentThreadId, personaId);
+    } else {
+      createNewThread(personaId ?? undefined);
+    }
+  };
+
   return (
     <div className="flex flex-col h-full bg-background">
       {/* Chat Header */}
       <div className="p-4 border-b border-border">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-2xl font-bold">RagForge AI Assistant</h1>
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-bold">RagForge AI Assistant</h1>
+              {currentPersona && (
+                <Badge variant="outline" className="gap-1">
+                  <UserCog className="h-3 w-3" />
+                  {currentPersona.name}
+                  <span className="text-muted-foreground">v{currentThread?.personaVersion ?? currentPersona.version}</span>
+                </Badge>
+              )}
+            </div>
             <p className="text-sm text-muted-foreground">
               Connected to {connectedSources.length} data sources and {connectedServers.length} MCP servers
             </p>
@@ -197,15 +458,32 @@ const Index = () => {
               <MessageSquare className="h-4 w-4" />
               History
             </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleStartNewChat}
-              className="gap-2"
-            >
-              <Plus className="h-4 w-4" />
-              New Chat
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  New Chat
+                  <ChevronDown className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Start with persona</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleStartNewChat()}>
+                  <Bot className="h-4 w-4 mr-2" />
+                  Default assistant
+                </DropdownMenuItem>
+                {personas.map(persona => (
+                  <DropdownMenuItem key={persona.id} onClick={() => handleStartNewChat(persona.id)}>
+                    <UserCog className="h-4 w-4 mr-2" />
+                    {persona.name}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => navigate('/personas')}>
+                  Manage personas...
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             {connectedSources.length > 0 && (
               <Badge variant="default" className="gap-1">
                 <FileText className="h-3 w-3" />
@@ -232,6 +510,22 @@ const Index = () => {
               <p className="text-muted-foreground mb-4">
                 I'm ready to help you analyze your data and answer questions using your connected sources.
               </p>
+              {personas.length > 0 && (
+                <div className="flex items-center justify-center gap-2 mb-4">
+                  <span className="text-sm text-muted-foreground">Persona</span>
+                  <Select value={currentPersona?.id ?? 'default'} onValueChange={handlePersonaChange}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Default assistant</SelectItem>
+                      {personas.map(persona => (
+                        <SelectItem key={persona.id} value={persona.id}>{persona.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-md mx-auto">
                 <Card className="hover:bg-muted/50 transition-colors cursor-pointer" 
                       onClick={() => setMessage("What's in my latest reports?")}>
@@ -250,18 +544,40 @@ const Index = () => {
               </div>
             </div>
           ) : (
-            currentThreadMessages.map((msg) => (
+            <>
+            {threadSummary && currentThreadId && (
+              <ThreadSummaryCard
+                key={threadSummary.updatedAt}
+                summary={threadSummary}
+                onSave={(content) => editThreadSummary(currentThreadId, content)}
+                onRefresh={handleRefreshSummary}
+                onClear={() => clearThreadSummary(currentThreadId)}
+                refreshing={isSummarizing}
+              />
+            )}
+            {currentThreadMessages.map((msg) => pendingComparisons.has(msg.id) ? (
+              <ComparisonPanel
+                key={msg.id}
+                comparison={pendingComparisons.get(msg.id)}
+                messages={chatMessages}
+                onChoose={chooseComparisonWinner}
+                onCitationClick={handleCitationClick}
+              />
+            ) : (
               <div
                 key={msg.id}
+                id={`message-${msg.id}`}
                 className={cn(
                   "flex gap-3",
-                  msg.role === 'user' ? "justify-end" : "justify-start"
+                  msg.role === 'user' ? "justify-end" : "justify-start",
+                  summarizedIds.has(msg.id) && "opacity-60"
                 )}
               >
                 <div
                   className={cn(
-                    "flex gap-3 max-w-3xl",
-                    msg.role === 'user' ? "flex-row-reverse" : "flex-row"
+                    "flex gap-3 max-w-3xl rounded-lg transition-shadow duration-500",
+                    msg.role === 'user' ? "flex-row-reverse" : "flex-row",
+                    focusedMessageId === msg.id && "ring-2 ring-primary ring-offset-4 ring-offset-background"
                   )}
                 >
                   <div className={cn(
@@ -280,8 +596,83 @@ const Index = () => {
                       ? "bg-primary text-primary-foreground ml-12" 
                       : "bg-card border mr-12"
                   )}>
-                    <p className="whitespace-pre-wrap">{msg.content}</p>
+                    {msg.toolCalls?.map(call => (
+                      <ToolCallCard
+                        key={call.id}
+                        call={call}
+                        awaitingApproval={msg.status === 'streaming'}
+                        onApprove={() => approveToolCall(call.id, true)}
+                        onReject={() => approveToolCall(call.id, false)}
+                        onAlwaysApprove={call.toolId ? () => alwaysApproveTool(call.id, call.toolId) : undefined}
+                      />
+                    ))}
+                    {editingMessageId === msg.id ? (
+                      <div className="space-y-2 min-w-[20rem]">
+                        <Textarea
+                          value={editDraft}
+                          onChange={(e) => setEditDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                              e.preventDefault();
+                              handleSubmitEdit();
+                            }
+                          }}
+                          className="min-h-[60px] bg-background text-foreground"
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="secondary" size="sm" onClick={() => setEditingMessageId(null)}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={handleSubmitEdit} disabled={!editDraft.trim() || isLoading}>
+                            Save & Submit
+                          </Button>
+                        </div>
+                      </div>
+                    ) : msg.status === 'streaming' && !msg.content ? (
+                      <div className="flex items-center gap-2">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        <span className="text-sm text-muted-foreground">
+                          {msg.toolCalls?.some(call => call.status === 'pending')
+                            ? 'Waiting for tool approval...'
+                            : msg.toolCalls?.some(call => call.status === 'running')
+                              ? 'Running tool...'
+                              : 'Thinking...'}
+                        </span>
+                      </div>
+                    ) : (
+                      <ChatMessageContent
+                        message={msg}
+                        onCitationClick={(index) => handleCitationClick(msg, index)}
+                      />
+                    )}
+
+                    {msg.status === 'error' && (
+                      <div className="flex items-center justify-between gap-3 rounded-md border border-destructive/50 bg-destructive/10 p-2">
+                        <div className="flex items-center gap-2 text-sm text-destructive">
+                          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                          <span>{msg.error || 'Failed to generate a response'}</span>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRetry(msg.id)}
+                          disabled={isLoading}
+                          className="gap-1 flex-shrink-0"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          Retry
+                        </Button>
+                      </div>
+                    )}
                     
+                    {msg.invalidCitations && msg.invalidCitations.length > 0 && (
+                      <p className="text-xs text-destructive">
+                        {msg.invalidCitations.length === 1 ? 'Citation' : 'Citations'}{' '}
+                        {msg.invalidCitations.map(index => `[${index}]`).join(', ')} did not match any retrieved passage
+                      </p>
+                    )}
+
                     {msg.sources && (
                       <>
                         <Separator className="my-3" />
@@ -300,28 +691,122 @@ const Index = () => {
                         </div>
                       </>
                     )}
+
+                    {msg.followUps && (
+                      <FollowUpChips
+                        questions={msg.followUps}
+                        onSelect={(question) => handleSendMessage(question)}
+                        disabled={isLoading}
+                      />
+                    )}
                     
-                    <p className="text-xs text-muted-foreground">
-                      {new Date(msg.timestamp).toLocaleTimeString()}
-                    </p>
+                    <div className={cn(
+                      "flex items-center gap-2 text-xs",
+                      msg.role === 'user' ? "text-primary-foreground/70" : "text-muted-foreground"
+                    )}>
+                      <span>
+                        {new Date(msg.timestamp).toLocaleTimeString()}
+                        {msg.status === 'stopped' && ' • Stopped'}
+                        {summarizedIds.has(msg.id) && ' • Summarized'}
+                      </span>
+                      {msg.metadata?.tokens !== undefined && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span>
+                              {msg.metadata.tokensEstimated && '~'}{formatTokenCount(msg.metadata.tokens)} tokens • {formatCost(msg.metadata.cost ?? 0)}
+                            </span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {msg.metadata.promptTokens} prompt + {msg.metadata.completionTokens} completion
+                            {msg.metadata.tokensEstimated && ' (estimated)'}
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
+                      {msg.grounding ? (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className={cn(msg.grounding.score < 0.7 && "text-amber-600")}>
+                              {Math.round(msg.grounding.score * 100)}% grounded
+                            </span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {msg.grounding.claims.filter(claim => !claim.supported).length} of {msg.grounding.claims.length} sentences
+                            not supported by the retrieved passages
+                            {msg.grounding.method === 'lexical' && ' (word overlap only)'}
+                          </TooltipContent>
+                        </Tooltip>
+                      ) : msg.role === 'assistant' && msg.status === 'complete' && msg.promptContext?.chunks.length > 0 && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-5 w-5 p-0"
+                              onClick={() => handleCheckGrounding(msg.id)}
+                              disabled={checkingGroundingId === msg.id}
+                              aria-label="Check grounding"
+                            >
+                              {checkingGroundingId === msg.id
+                                ? <Loader2 className="h-3 w-3 animate-spin" />
+                                : <ShieldCheck className="h-3 w-3" />}
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Check the answer against its sources</TooltipContent>
+                        </Tooltip>
+                      )}
+                      <BranchSwitcher
+                        siblingIds={getMessageSiblings(msg.id).map(m => m.id)}
+                        currentId={msg.id}
+                        onSelect={selectBranch}
+                        disabled={isLoading}
+                      />
+                      {msg.role === 'assistant' && msg.status !== 'streaming' && msg.status !== 'error' && (
+                        <AnswerFeedback
+                          feedback={msg.feedback}
+                          onSubmit={(feedback) => rateMessage(msg.id, feedback)}
+                        />
+                      )}
+                      {msg.role === 'user' && editingMessageId !== msg.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 w-5 p-0 ml-auto"
+                          onClick={() => handleStartEdit(msg)}
+                          disabled={isLoading}
+                          aria-label="Edit message"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {msg.role === 'assistant' && speech.supported && msg.status !== 'streaming' && msg.status !== 'error' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 w-5 p-0 ml-auto"
+                          onClick={() => handleReadAloud(msg)}
+                          aria-label={speech.speakingId === msg.id ? "Stop reading" : "Read aloud"}
+                        >
+                          {speech.speakingId === msg.id ? <VolumeX className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />}
+                        </Button>
+                      )}
+                      {msg.role === 'assistant' && msg.status !== 'streaming' && msg.status !== 'error' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className={cn("h-5 w-5 p-0", !speech.supported && "ml-auto")}
+                          onClick={() => handleRegenerate(msg.id)}
+                          disabled={isLoading}
+                          aria-label="Regenerate response"
+                        >
+                          <RefreshCw className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
-            ))
-          )}
-          
-          {isLoading && (
-            <div className="flex gap-3 justify-start">
-              <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
-                <Bot className="h-4 w-4" />
-              </div>
-              <div className="bg-card border rounded-lg p-4 mr-12">
-                <div className="flex items-center gap-2">
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  <span className="text-sm text-muted-foreground">Thinking...</span>
-                </div>
-              </div>
-            </div>
+            ))}
+            </>
           )}
           
           <div ref={messagesEndRef} />
@@ -329,16 +814,45 @@ const Index = () => {
       </ScrollArea>
 
       {/* Input Area */}
-      <div className="border-t border-border p-4">
+      <div
+        className={cn("border-t border-border p-4", isDragging && "bg-primary/5")}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
         <div className="max-w-4xl mx-auto">
+          <ChatAttachments
+            attachments={currentAttachments}
+            onRemove={removeChatAttachment}
+            onPromote={handlePromoteAttachment}
+          />
+          {compareMode && (
+            <CompareSetup
+              configs={compareConfigs}
+              onChange={setCompareConfigs}
+              endpoint={settings.apiEndpoint}
+              fallbackModels={[settings.ollamaModel, ...chatModels]}
+            />
+          )}
           <div className="flex gap-2 items-end">
             <div className="flex-1 relative">
+              {slashCommands.isOpen && (
+                <SlashCommandMenu
+                  items={slashCommands.items}
+                  selectedIndex={slashCommands.selectedIndex}
+                  onHighlight={slashCommands.setActiveIndex}
+                  onSelect={slashCommands.apply}
+                />
+              )}
               <Textarea
                 value={message}
                 onChange={(e) => setMessage(e.target.value)}
                 onKeyDown={handleKeyPress}
-                placeholder="Ask me anything about your data..."
-                className="min-h-[60px] max-h-[200px] pr-20"
+                placeholder="Ask me anything about your data, or type / for commands..."
+                className="min-h-[60px] max-h-[200px] pr-36"
                 disabled={isLoading}
               />
               <div className="absolute right-2 bottom-2 flex gap-1">
@@ -354,37 +868,94 @@ const Index = () => {
                   id="file-upload"
                   type="file"
                   multiple
-                  accept=".pdf,.txt,.doc,.docx,.md"
+                  accept=".pdf,.docx,.txt,.md,.markdown,.csv,.json,.jsonl,.xml,.html,.yaml,.yml,.log,.js,.ts,.tsx,.py,.sql"
                   className="hidden"
                   onChange={handleFileUpload}
                 />
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={cn("h-8 w-8 p-0", compareMode && "bg-accent")}
+                      onClick={handleToggleCompare}
+                      aria-label="Compare models"
+                    >
+                      <Columns2 className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Compare models side by side</TooltipContent>
+                </Tooltip>
                 <Button
                   variant="ghost"
                   size="sm"
-                  className={cn("h-8 w-8 p-0", isListening && "bg-red-100 border-red-300")}
+                  className={cn("h-8 w-8 p-0", voice.isListening && !handsFree && "bg-red-100 border-red-300")}
                   onClick={toggleVoiceInput}
+                  disabled={handsFree}
+                  aria-label={voice.isListening ? "Stop dictation" : "Dictate"}
                 >
-                  <Mic className={cn("h-4 w-4", isListening && "text-red-600")} />
+                  <Mic className={cn("h-4 w-4", voice.isListening && !handsFree && "text-red-600")} />
                 </Button>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={cn("h-8 w-8 p-0", handsFree && "bg-red-100 border-red-300")}
+                      onClick={handleToggleHandsFree}
+                      aria-label="Hands-free conversation"
+                    >
+                      <Headphones className={cn("h-4 w-4", handsFree && "text-red-600")} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {handsFree ? 'Stop hands-free conversation' : 'Talk hands-free: answers are read aloud'}
+                  </TooltipContent>
+                </Tooltip>
               </div>
             </div>
-            <Button
-              onClick={handleSendMessage}
-              disabled={!message.trim() || isLoading}
-              className="h-[60px] px-6"
-            >
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <Button
+                onClick={() => stopChatResponse()}
+                variant="outline"
+                className="h-[60px] px-6 gap-2"
+              >
+                <Square className="h-4 w-4 fill-current" />
+                Stop
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleSendMessage()}
+                disabled={!message.trim()}
+                className="h-[60px] px-6"
+              >
                 <Send className="h-4 w-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </div>
           <p className="text-xs text-muted-foreground mt-2 text-center">
-            Press Ctrl+Enter to send • Connected to {connectedSources.length + connectedServers.length} sources
+            {handsFree
+              ? `Hands-free • ${speech.speakingId ? 'Speaking' : voice.isListening ? 'Listening' : 'Waiting for the answer'}`
+              : voice.isPushToTalk
+                ? 'Listening • release Ctrl+Space to send'
+                : 'Press Ctrl+Enter to send • Hold Ctrl+Space to talk'} • Connected to {connectedSources.length + connectedServers.length} sources
           </p>
         </div>
       </div>
+
+      <Dialog open={!!activeCitationMessage} onOpenChange={(open) => !open && setActiveCitation(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Sources for this answer</DialogTitle>
+          </DialogHeader>
+          {activeCitationMessage && (
+            <CitationViewer
+              citations={getViewerCitations(activeCitationMessage)}
+              activeCitationId={activeCitation?.citationId}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -4,6 +4,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
@@ -23,6 +24,8 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { useAppStore, MCPServer } from '@/stores/useAppStore';
+import { useAppDispatch, useAppSelector } from '@/store';
+import { toggleTool, setToolAutoApprove, fetchServerTools } from '@/store/slices/mcpSlice';
 import { useToast } from '@/hooks/use-toast';
 import {
   Server,
@@ -39,7 +42,8 @@ import {
   Code,
   FileText,
   Globe,
-  Search
+  Search,
+  Wrench
 } from 'lucide-react';
 
 const getStatusIcon = (status: string) => {
@@ -145,6 +149,10 @@ const popularServers = [
 
 export default function MCPSetup() {
   const { mcpServers, addMCPServer, updateMCPServer, removeMCPServer } = useAppStore();
+  const dispatch = useAppDispatch();
+  const { tools, servers } = useAppSelector(state => state.mcp);
+  const getServerName = (serverId: string) =>
+    servers.find(s => s.id === serverId)?.name ?? mcpServers.find(s => s.id === serverId)?.name ?? serverId;
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingServer, setEditingServer] = useState<MCPServer | null>(null);
@@ -230,6 +238,17 @@ export default function MCPSetup() {
           : "Failed to connect. Please check your configuration.",
         variant: success ? "default" : "destructive"
       });
+
+      // Offers the server's tools to the chat assistant
+      if (success) {
+        dispatch(fetchServerTools(serverId)).unwrap().catch((error) => {
+          toast({
+            title: "Could not load tools",
+            description: error.message || "The server did not list its tools.",
+            variant: "destructive"
+          });
+        });
+      }
     }, 2000);
   };
 
@@ -563,6 +582,51 @@ export default function MCPSetup() {
               ))}
             </div>
           )}
+
+          {/* Tools offered to the chat assistant */}
+          {tools.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Wrench className="h-5 w-5" />
+                  Chat Tools
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Enabled tools of connected servers can be called by the assistant. Tools without auto-approve
+                  ask before every run.
+                </p>
+              </CardHeader>
+              <CardContent className="divide-y">
+                {tools.map(tool => (
+                  <div key={tool.id} className="flex items-center gap-4 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium font-mono">{tool.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {getServerName(tool.serverId)} • {tool.description}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`tool-enabled-${tool.id}`} className="text-xs">Enabled</Label>
+                      <Switch
+                        id={`tool-enabled-${tool.id}`}
+                        checked={tool.enabled}
+                        onCheckedChange={(enabled) => dispatch(toggleTool({ toolId: tool.id, enabled }))}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`tool-auto-${tool.id}`} className="text-xs">Auto-approve</Label>
+                      <Switch
+                        id={`tool-auto-${tool.id}`}
+                        checked={Boolean(tool.autoApprove)}
+                        disabled={!tool.enabled}
+                        onCheckedChange={(autoApprove) => dispatch(setToolAutoApprove({ toolId: tool.id, autoApprove }))}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,444 @@
+import { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAppStore, Persona } from '@/stores/useAppStore';
+import { useToast } from '@/hooks/use-toast';
+import { useNavigate } from 'react-router-dom';
+import { exportPersonas, parsePersonaExport, PersonaInput } from '@/utils/personas';
+import {
+  UserCog,
+  Plus,
+  Edit2,
+  Trash2,
+  Download,
+  Upload,
+  History,
+  MessageSquare,
+  RotateCcw
+} from 'lucide-react';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  systemPrompt: '',
+  model: '',
+  temperature: '',
+  retrievalEnabled: true,
+  preferredSourceIds: [] as string[],
+};
+
+const downloadJson = (json: string, filename: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function Personas() {
+  const {
+    personas,
+    dataSources,
+    settings,
+    addPersona,
+    updatePersona,
+    restorePersonaVersion,
+    deletePersona,
+    createNewThread
+  } = useAppStore();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+  const [historyPersona, setHistoryPersona] = useState<Persona | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const openCreate = () => {
+    setEditingPersona(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (persona: Persona) => {
+    setEditingPersona(persona);
+    setFormData({
+      name: persona.name,
+      description: persona.description || '',
+      systemPrompt: persona.systemPrompt,
+      model: persona.model || '',
+      temperature: persona.temperature !== undefined ? String(persona.temperature) : '',
+      retrievalEnabled: persona.retrievalEnabled,
+      preferredSourceIds: persona.preferredSourceIds,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const temperature = parseFloat(formData.temperature);
+    const persona: PersonaInput = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || undefined,
+      systemPrompt: formData.systemPrompt.trim(),
+      model: formData.model.trim() || undefined,
+      temperature: Number.isNaN(temperature) ? undefined : Math.min(1, Math.max(0, temperature)),
+      retrievalEnabled: formData.retrievalEnabled,
+      preferredSourceIds: formData.preferredSourceIds,
+    };
+
+    if (editingPersona) {
+      updatePersona(editingPersona.id, persona);
+      toast({ title: "Persona updated", description: `${persona.name} has been saved.` });
+    } else {
+      addPersona(persona);
+      toast({ title: "Persona created", description: `${persona.name} is ready to use.` });
+    }
+    setIsDialogOpen(false);
+  };
+
+  const toggleSource = (sourceId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      preferredSourceIds: checked
+        ? [...prev.preferredSourceIds, sourceId]
+        : prev.preferredSourceIds.filter(id => id !== sourceId),
+    }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePersonaExport(await file.text());
+      imported.forEach(persona => addPersona(persona));
+      toast({
+        title: "Personas imported",
+        description: `${imported.length} persona${imported.length === 1 ? '' : 's'} added to your library.`
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : 'Could not read the file.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleStartChat = (persona: Persona) => {
+    createNewThread(persona.id);
+    navigate('/');
+  };
+
+  const sourceName = (id: string) => dataSources.find(source => source.id === id)?.name ?? 'Removed source';
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <UserCog className="h-8 w-8 text-primary" />
+            Personas
+          </h1>
+          <p className="text-muted-foreground">
+            Reusable system prompts and model settings for new conversations
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleImport} />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="gap-2">
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => downloadJson(exportPersonas(personas), 'personas.json')}
+            disabled={personas.length === 0}
+            className="gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Export All
+          </Button>
+          <Button onClick={openCreate} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Persona
+          </Button>
+        </div>
+      </div>
+
+      {personas.length === 0 ? (
+        <Card className="p-12 text-center">
+          <UserCog className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No Personas Yet</h3>
+          <p className="text-muted-foreground mb-4 max-w-md mx-auto">
+            Create a persona to give new chats their own instructions, model and sources, or import one shared as JSON.
+          </p>
+          <Button onClick={openCreate} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Create Your First Persona
+          </Button>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {personas.map((persona) => (
+            <Card key={persona.id} className="hover:shadow-lg transition-all flex flex-col">
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="text-lg">{persona.name}</CardTitle>
+                    {persona.description && (
+                      <p className="text-sm text-muted-foreground">{persona.description}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(persona)} className="h-8 w-8 p-0">
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryPersona(persona)}
+                      className="h-8 w-8 p-0"
+                      disabled={persona.history.length === 0}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => downloadJson(exportPersonas([persona]), `persona-${persona.name.toLowerCase().replace(/\s+/g, '-')}.json`)}
+                      className="h-8 w-8 p-0"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deletePersona(persona.id)}
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="secondary">v{persona.version}</Badge>
+                  <Badge variant="outline">{persona.model || `${settings.ollamaModel} (default)`}</Badge>
+                  <Badge variant="outline">Temp {persona.temperature ?? settings.temperature}</Badge>
+                  <Badge variant={persona.retrievalEnabled ? 'default' : 'outline'}>
+                    {persona.retrievalEnabled ? 'Retrieval on' : 'Retrieval off'}
+                  </Badge>
+                </div>
+              </CardHeader>
+
+              <CardContent className="space-y-4 flex-1 flex flex-col">
+                <p className="text-sm font-mono bg-muted px-2 py-1 rounded line-clamp-4 whitespace-pre-wrap">
+                  {persona.systemPrompt}
+                </p>
+                {persona.retrievalEnabled && persona.preferredSourceIds.length > 0 && (
+                  <div>
+                    <p className="text-sm text-muted-foreground mb-1">Preferred sources</p>
+                    <div className="flex flex-wrap gap-1">
+                      {persona.preferredSourceIds.map(id => (
+                        <Badge key={id} variant="outline" className="text-xs">{sourceName(id)}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <Button onClick={() => handleStartChat(persona)} variant="outline" className="w-full gap-2 mt-auto">
+                  <MessageSquare className="h-4 w-4" />
+                  Start Chat
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create / edit */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{editingPersona ? 'Edit Persona' : 'New Persona'}</DialogTitle>
+              <DialogDescription>
+                {editingPersona
+                  ? 'Changes to the prompt or model settings are saved as a new version.'
+                  : 'Leave model and temperature empty to use the defaults from Settings.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="persona-name">Name</Label>
+                <Input
+                  id="persona-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Research Analyst"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="persona-description">Description</Label>
+                <Input
+                  id="persona-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Careful answers with sources"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="persona-prompt">System Prompt</Label>
+                <Textarea
+                  id="persona-prompt"
+                  value={formData.systemPrompt}
+                  onChange={(e) => setFormData(prev => ({ ...prev, systemPrompt: e.target.value }))}
+                  placeholder="You are a meticulous research analyst..."
+                  rows={5}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="persona-model">Model</Label>
+                  <Input
+                    id="persona-model"
+                    value={formData.model}
+                    onChange={(e) => setFormData(prev => ({ ...prev, model: e.target.value }))}
+                    placeholder={settings.ollamaModel}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="persona-temperature">Temperature</Label>
+                  <Input
+                    id="persona-temperature"
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={formData.temperature}
+                    onChange={(e) => setFormData(prev => ({ ...prev, temperature: e.target.value }))}
+                    placeholder={String(settings.temperature)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Retrieval</Label>
+                  <p className="text-sm text-muted-foreground">Search connected sources for every question</p>
+                </div>
+                <Switch
+                  checked={formData.retrievalEnabled}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, retrievalEnabled: checked }))}
+                />
+              </div>
+
+              {formData.retrievalEnabled && dataSources.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Preferred Sources</Label>
+                  <p className="text-sm text-muted-foreground">Only search these sources; none selected searches all.</p>
+                  <div className="space-y-2 max-h-32 overflow-y-auto">
+                    {dataSources.map(source => (
+                      <label key={source.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={formData.preferredSourceIds.includes(source.id)}
+                          onCheckedChange={(checked) => toggleSource(source.id, checked === true)}
+                        />
+                        {source.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingPersona ? 'Save' : 'Create'} Persona
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Version history */}
+      <Dialog open={!!historyPersona} onOpenChange={(open) => !open && setHistoryPersona(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>{historyPersona?.name} history</DialogTitle>
+            <DialogDescription>
+              Restoring an older version saves it as a new version; conversations keep the version they started with.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-96">
+            <div className="space-y-3">
+              {[...(historyPersona?.history || [])].reverse().map(entry => (
+                <Card key={entry.version}>
+                  <CardContent className="p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">v{entry.version}</Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(entry.updatedAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => {
+                          if (!historyPersona) return;
+                          restorePersonaVersion(historyPersona.id, entry.version);
+                          setHistoryPersona(null);
+                          toast({ title: "Version restored", description: `v${entry.version} is now the current version.` });
+                        }}
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                        Restore
+                      </Button>
+                    </div>
+                    <p className="text-xs font-mono bg-muted px-2 py-1 rounded whitespace-pre-wrap line-clamp-3">
+                      {entry.systemPrompt}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {entry.model || 'Default model'} • Temp {entry.temperature ?? 'default'} • Retrieval {entry.retrievalEnabled ? 'on' : 'off'}
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
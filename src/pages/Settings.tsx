@@ -14,20 +14,34 @@ import {
 } from '@/components/ui/select';
 import { useAppStore } from '@/stores/useAppStore';
 import { useToast } from '@/hooks/use-toast';
+import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
 import { useTheme } from 'next-themes';
+import { DEFAULT_MODEL_PRICES, ModelPrice } from '@/utils/usage';
+import { sortVoices } from '@/utils/speech';
 import {
   Settings as SettingsIcon,
   Database,
   Cpu,
   Palette,
   Save,
-  RotateCcw
+  RotateCcw,
+  DollarSign,
+  Plus,
+  Trash2,
+  AudioLines,
+  Volume2
 } from 'lucide-react';
 
 export default function Settings() {
   const { settings, updateSettings } = useAppStore();
   const { toast } = useToast();
   const { theme, setTheme } = useTheme();
+  const speech = useSpeechSynthesis({
+    language: settings.language,
+    voiceURI: settings.speechVoice,
+    rate: settings.speechRate,
+  });
+  const voices = sortVoices(speech.voices, settings.language);
 
   const handleSave = () => {
     toast({
@@ -36,6 +50,12 @@ export default function Settings() {
     });
   };
 
+  const updatePrice = (index: number, updates: Partial<ModelPrice>) => {
+    updateSettings({
+      modelPrices: settings.modelPrices.map((price, i) => (i === index ? { ...price, ...updates } : price)),
+    });
+  };
+
   const handleReset = () => {
     updateSettings({
       chunkSize: 512,
@@ -45,6 +65,18 @@ export default function Settings() {
       ollamaModel: 'llama3.2',
       temperature: 0.7,
       maxTokens: 2048,
+      contextWindow: 8192,
+      retrievalTopK: 5,
+      modelPrices: DEFAULT_MODEL_PRICES,
+      autoSummarize: true,
+      summaryThreshold: 3000,
+      groundingCheck: false,
+      historyRetrieval: false,
+      speechVoice: '',
+      speechRate: 1,
+      readAloud: false,
+      voiceAutoSend: true,
+      voicePauseMs: 1500,
       apiEndpoint: 'http://localhost:11434',
       theme: 'dark',
       fontSize: 14,
@@ -120,6 +152,21 @@ export default function Settings() {
               </p>
             </div>
 
+            <div className="space-y-3">
+              <Label>Retrieved Chunks: {settings.retrievalTopK}</Label>
+              <Slider
+                value={[settings.retrievalTopK]}
+                onValueChange={(value) => updateSettings({ retrievalTopK: value[0] })}
+                min={1}
+                max={20}
+                step={1}
+                className="w-full"
+              />
+              <p className="text-sm text-muted-foreground">
+                Number of top-scoring chunks considered for each answer
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label>Embedding Model</Label>
               <Select
@@ -263,6 +310,76 @@ export default function Settings() {
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label>Context Window</Label>
+              <Input
+                type="number"
+                value={settings.contextWindow}
+                onChange={(e) => updateSettings({ contextWindow: parseInt(e.target.value) })}
+                min={2048}
+                max={131072}
+                step={1024}
+              />
+              <p className="text-sm text-muted-foreground">
+                Total tokens the model accepts; retrieved context and history are trimmed to fit
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Auto-summarize Long Threads</Label>
+                <p className="text-sm text-muted-foreground">
+                  Replace older turns in the prompt with a model-written summary
+                </p>
+              </div>
+              <Switch
+                checked={settings.autoSummarize}
+                onCheckedChange={(checked) => updateSettings({ autoSummarize: checked })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Summarize After: {settings.summaryThreshold} tokens</Label>
+              <Slider
+                value={[settings.summaryThreshold]}
+                onValueChange={(value) => updateSettings({ summaryThreshold: value[0] })}
+                min={1000}
+                max={16000}
+                step={500}
+                disabled={!settings.autoSummarize}
+                className="w-full"
+              />
+              <p className="text-sm text-muted-foreground">
+                Unsummarized history size that triggers a new summary
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Check Answer Grounding</Label>
+                <p className="text-sm text-muted-foreground">
+                  Verify each sentence against the retrieved passages and highlight unsupported claims
+                </p>
+              </div>
+              <Switch
+                checked={settings.groundingCheck}
+                onCheckedChange={(checked) => updateSettings({ groundingCheck: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Use Past Conversations</Label>
+                <p className="text-sm text-muted-foreground">
+                  Add similar answers from earlier chats to the context, found with the embedding model
+                </p>
+              </div>
+              <Switch
+                checked={settings.historyRetrieval}
+                onCheckedChange={(checked) => updateSettings({ historyRetrieval: checked })}
+              />
+            </div>
+
             <Button 
               variant="outline" 
               className="w-full"
@@ -291,6 +408,71 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Model Pricing */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Model Pricing
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              USD per million tokens, used to estimate the cost of each response. Tags like
+              "mistral:7b" fall back to the base model's price.
+            </p>
+
+            <div className="grid grid-cols-[1fr_6rem_6rem_2rem] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Model</span>
+              <span>Input</span>
+              <span>Output</span>
+              <span />
+            </div>
+            {settings.modelPrices.map((price, index) => (
+              <div key={index} className="grid grid-cols-[1fr_6rem_6rem_2rem] gap-2 items-center">
+                <Input
+                  value={price.model}
+                  onChange={(e) => updatePrice(index, { model: e.target.value })}
+                  placeholder="model name"
+                />
+                <Input
+                  type="number"
+                  value={price.inputPerMillion}
+                  onChange={(e) => updatePrice(index, { inputPerMillion: parseFloat(e.target.value) || 0 })}
+                  min={0}
+                  step={0.01}
+                />
+                <Input
+                  type="number"
+                  value={price.outputPerMillion}
+                  onChange={(e) => updatePrice(index, { outputPerMillion: parseFloat(e.target.value) || 0 })}
+                  min={0}
+                  step={0.01}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => updateSettings({ modelPrices: settings.modelPrices.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              className="w-full gap-2"
+              onClick={() => updateSettings({
+                modelPrices: [...settings.modelPrices, { model: settings.ollamaModel, inputPerMillion: 0, outputPerMillion: 0 }],
+              })}
+            >
+              <Plus className="h-4 w-4" />
+              Add Model
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Appearance Settings */}
         <Card>
           <CardHeader>
@@ -349,6 +531,108 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Voice Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AudioLines className="h-5 w-5" />
+              Voice
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Send When I Pause</Label>
+                <p className="text-sm text-muted-foreground">
+                  Send dictated messages automatically after a moment of silence
+                </p>
+              </div>
+              <Switch
+                checked={settings.voiceAutoSend}
+                onCheckedChange={(checked) => updateSettings({ voiceAutoSend: checked })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Pause Before Sending: {(settings.voicePauseMs / 1000).toFixed(1)}s</Label>
+              <Slider
+                value={[settings.voicePauseMs]}
+                onValueChange={(value) => updateSettings({ voicePauseMs: value[0] })}
+                min={800}
+                max={4000}
+                step={100}
+                disabled={!settings.voiceAutoSend}
+                className="w-full"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Read Answers Aloud</Label>
+                <p className="text-sm text-muted-foreground">
+                  Speak each answer when it finishes. Hands-free mode always reads answers.
+                </p>
+              </div>
+              <Switch
+                checked={settings.readAloud}
+                onCheckedChange={(checked) => updateSettings({ readAloud: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Voice</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={settings.speechVoice || 'auto'}
+                  onValueChange={(value) => updateSettings({ speechVoice: value === 'auto' ? '' : value })}
+                  disabled={!speech.supported}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Match language</SelectItem>
+                    {voices.map(voice => (
+                      <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                        {voice.name} ({voice.lang})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  disabled={!speech.supported}
+                  onClick={() => speech.speak('preview', 'This is how answers will sound.')}
+                >
+                  <Volume2 className="h-4 w-4" />
+                  Test
+                </Button>
+              </div>
+              {!speech.supported && (
+                <p className="text-sm text-muted-foreground">This browser cannot read text aloud.</p>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Label>Speaking Rate: {settings.speechRate.toFixed(1)}x</Label>
+              <Slider
+                value={[settings.speechRate]}
+                onValueChange={(value) => updateSettings({ speechRate: value[0] })}
+                min={0.5}
+                max={2}
+                step={0.1}
+                className="w-full"
+              />
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Dictation and read-aloud use the language chosen under Appearance. Hold Ctrl+Space in the
+              chat to talk.
+            </p>
+          </CardContent>
+        </Card>
+
         {/* System Information */}
         <Card>
           <CardHeader>
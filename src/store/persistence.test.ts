@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  SCHEMA_VERSION,
+  fromSavedRecord,
+  migrateState,
+  packVectors,
+  toSavedRecord,
+  unpackVectors,
+} from './persistence';
+import appReducer, { hydrateApp, type AppState, type ChatMessage, type DataSource } from './slices/appSlice';
+
+const toast = vi.hoisted(() => vi.fn());
+vi.mock('@/hooks/use-toast', () => ({ toast }));
+
+const defaults = () => appReducer(undefined, { type: 'init' });
+
+const ratedMessage = (chunks: NonNullable<ChatMessage['feedback']>['chunks']): ChatMessage => ({
+  id: 'a1',
+  threadId: 't1',
+  role: 'assistant',
+  content: 'Refunds take 5 days.',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  feedback: {
+    rating: 'down',
+    reasons: ['wrong_source'],
+    question: 'How long do refunds take?',
+    chunks,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  },
+});
+
+const source: DataSource = {
+  id: 'ds-1',
+  name: 'policy.md',
+  type: 'file',
+  status: 'connected',
+  chunks: [{ id: 'c1', sourceId: 'ds-1', content: '  Refunds are issued within 10 days.  ', startIndex: 0, endIndex: 38 }],
+};
+
+describe('packVectors', () => {
+  it('round-trips vectors of different lengths', () => {
+    const vectors = [[0.5, -1.25, 3], [], [0.125]];
+    const packed = packVectors(vectors);
+    expect(packed.lengths).toEqual([3, 0, 1]);
+    expect(packed.buffer.byteLength).toBe(4 * 4);
+    expect(unpackVectors(packed)).toEqual(vectors);
+  });
+});
+
+describe('saved records', () => {
+  it('drops live connections and restores packed vectors', () => {
+    const app: AppState = {
+      ...defaults(),
+      documentEmbeddings: [{
+        id: 'e1',
+        sourceId: 'ds-1',
+        vector: [0.25, 0.5],
+        metadata: { chunkId: 'c1', content: 'text', position: { x: 0, y: 0 } },
+      }],
+    };
+    const record = toSavedRecord(app);
+    expect(record.version).toBe(SCHEMA_VERSION);
+    expect(record.state).not.toHaveProperty('mcpStatuses');
+    expect(record.state).not.toHaveProperty('connectionManager');
+    expect((record.state.documentEmbeddings as Array<{ vector?: number[] }>)[0].vector).toBeUndefined();
+
+    expect(fromSavedRecord(record).documentEmbeddings?.[0].vector).toEqual([0.25, 0.5]);
+  });
+
+  it('marks answers that were streaming as stopped', () => {
+    const app: AppState = {
+      ...defaults(),
+      chatMessages: [{ ...ratedMessage([]), feedback: undefined, status: 'streaming' }],
+    };
+    expect(fromSavedRecord(toSavedRecord(app)).chatMessages?.[0].status).toBe('stopped');
+  });
+});
+
+describe('migrateState', () => {
+  it('fills in excerpts and source names of ratings saved by version 1', () => {
+    const state = {
+      dataSources: [source],
+      chatAttachments: [],
+      chatMessages: [ratedMessage([
+        { chunkId: 'c1', sourceId: 'ds-1', score: 0.8 },
+        { chunkId: 'gone', sourceId: 'ds-9', sourceName: 'old.md', score: 0.4 },
+      ])],
+    };
+    const migrated = migrateState(state, 1) as Partial<AppState>;
+    expect(migrated.chatMessages?.[0].feedback?.chunks).toEqual([
+      { chunkId: 'c1', sourceId: 'ds-1', sourceName: 'policy.md', score: 0.8, excerpt: 'Refunds are issued within 10 days.' },
+      { chunkId: 'gone', sourceId: 'ds-9', sourceName: 'old.md', score: 0.4, excerpt: undefined },
+    ]);
+  });
+
+  it('keeps snapshots that already have an excerpt', () => {
+    const chunks = [{ chunkId: 'c1', sourceId: 'ds-1', sourceName: 'renamed.md', score: 0.8, excerpt: 'What the model saw' }];
+    const migrated = migrateState({ dataSources: [source], chatMessages: [ratedMessage(chunks)] }, 1) as Partial<AppState>;
+    expect(migrated.chatMessages?.[0].feedback?.chunks).toEqual(chunks);
+  });
+
+  it('leaves state saved by the current version alone', () => {
+    const state = { chatMessages: [ratedMessage([{ chunkId: 'c1', sourceId: 'ds-1', score: 0.8 }])] };
+    expect(migrateState(state, SCHEMA_VERSION)).toBe(state);
+  });
+
+  it('runs when a version 1 record is loaded', () => {
+    const record = toSavedRecord({
+      ...defaults(),
+      dataSources: [source],
+      chatMessages: [ratedMessage([{ chunkId: 'c1', sourceId: 'ds-1', score: 0.8 }])],
+    });
+    const restored = fromSavedRecord({ ...record, version: 1 });
+    expect(restored.chatMessages?.[0].feedback?.chunks[0].excerpt).toBe('Refunds are issued within 10 days.');
+  });
+});
+
+describe('hydrateApp', () => {
+  it('keeps defaults for settings and graph fields missing from the save', () => {
+    const { settings } = defaults();
+    const { retrievalTopK: _dropped, ...savedSettings } = settings;
+    const state = appReducer(defaults(), hydrateApp({
+      settings: { ...savedSettings, temperature: 0.2 } as AppState['settings'],
+      knowledgeGraph: { nodes: [] } as unknown as AppState['knowledgeGraph'],
+      chatThreads: [],
+    }));
+    expect(state.settings.temperature).toBe(0.2);
+    expect(state.settings.retrievalTopK).toBe(settings.retrievalTopK);
+    expect(state.knowledgeGraph.links).toEqual([]);
+  });
+
+  it('replaces lists and keeps defaults for keys that were not saved', () => {
+    const state = appReducer(defaults(), hydrateApp({ mcpServers: [], currentThreadId: 't1' }));
+    expect(state.mcpServers).toEqual([]);
+    expect(state.currentThreadId).toBe('t1');
+    expect(state.personas).toEqual(defaults().personas);
+  });
+});
+
+describe('initPersistence', () => {
+  interface FakeRequest {
+    result?: unknown;
+    onsuccess?: () => void;
+  }
+
+  // Answers open() and get() with `record`, like IndexedDB does, on a later tick
+  const respond = (result: unknown): FakeRequest => {
+    const request: FakeRequest = {};
+    queueMicrotask(() => {
+      request.result = result;
+      request.onsuccess?.();
+    });
+    return request;
+  };
+  const stubIndexedDB = (record: unknown) => {
+    const db = {
+      objectStoreNames: { contains: () => true },
+      transaction: () => ({ objectStore: () => ({ get: () => respond(record) }) }),
+    };
+    vi.stubGlobal('indexedDB', { open: () => respond(db) });
+  };
+
+  const start = async () => {
+    const { initPersistence } = await import('./persistence');
+    const store = { dispatch: vi.fn(), subscribe: vi.fn(), getState: () => ({ app: defaults() }) };
+    await initPersistence(store as unknown as Parameters<typeof initPersistence>[0]);
+    return store;
+  };
+
+  beforeEach(() => {
+    vi.resetModules();
+    toast.mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('warns that nothing is saved without IndexedDB', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    await start();
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Changes will not be saved' }));
+  });
+
+  it('tells the user that newer saved data is neither loaded nor saved', async () => {
+    stubIndexedDB({ ...toSavedRecord(defaults()), version: SCHEMA_VERSION + 1 });
+    const store = await start();
+    expect(store.dispatch).not.toHaveBeenCalled();
+    expect(store.subscribe).not.toHaveBeenCalled();
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Saved data is from a newer version',
+      description: expect.stringContaining('nothing from this session will be saved'),
+    }));
+  });
+
+  it('loads current saved data and starts saving without a toast', async () => {
+    stubIndexedDB(toSavedRecord(defaults()));
+    const store = await start();
+    expect(store.dispatch).toHaveBeenCalledWith(expect.objectContaining({ type: hydrateApp.type }));
+    expect(store.subscribe).toHaveBeenCalled();
+    expect(toast).not.toHaveBeenCalled();
+  });
+
+  it('reports a database that cannot be opened', async () => {
+    vi.stubGlobal('indexedDB', { open: () => { throw new Error('Access denied.'); } });
+    await start();
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Could not restore saved data',
+      description: 'Access denied. Changes in this session will not be saved.',
+    }));
+  });
+});
+
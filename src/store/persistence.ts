@@ -0,0 +1,260 @@
+import { hydrateApp, type AppState, type ChatMessage, type DataSource, type MCPServer } from './slices/appSlice';
+import type { store as appStore } from './index';
+import { toast } from '@/hooks/use-toast';
+import { snapshotFeedbackChunks } from '@/utils/feedback';
+
+type AppStore = typeof appStore;
+type SavedState = Record<string, unknown>;
+
+const DB_NAME = 'ragforge';
+const DB_VERSION = 1;
+const STORE_NAME = 'slices';
+const APP_KEY = 'app';
+
+// Bump when the saved shape of the app slice changes, and add a migration
+// that turns state saved by the previous version into the new shape.
+export const SCHEMA_VERSION = 2;
+const migrations: Record<number, (state: SavedState) => SavedState> = {
+  // Version 1 saved ratings without the excerpt and source name of their
+  // chunks; fill them in from sources that still hold those chunks.
+  2: state => {
+    const dataSources = (state.dataSources ?? []) as AppState['dataSources'];
+    const attachments = (state.chatAttachments ?? []) as AppState['chatAttachments'];
+    return {
+      ...state,
+      chatMessages: (state.chatMessages as ChatMessage[] | undefined)?.map(message => {
+        if (!message.feedback) return message;
+        const snapshots = snapshotFeedbackChunks(message.feedback.chunks, dataSources, attachments);
+        const chunks = message.feedback.chunks.map((chunk, i) => ({
+          ...chunk,
+          sourceName: chunk.sourceName ?? snapshots[i].sourceName,
+          excerpt: chunk.excerpt ?? snapshots[i].excerpt,
+        }));
+        return { ...message, feedback: { ...message.feedback, chunks } };
+      }),
+    };
+  },
+};
+
+// Wait this long after the last change before writing, but never longer
+// than the max so a long streaming answer still gets saved.
+const SAVE_DELAY_MS = 1000;
+const MAX_SAVE_DELAY_MS = 5000;
+
+// Live connections and their statuses are rebuilt on every boot
+const TRANSIENT_KEYS: Array<keyof AppState> = ['connectionManager', 'mcpStatuses'];
+
+// Vector arrays are stored as one Float32Array buffer per slice instead of
+// nested number arrays, which are several times larger in IndexedDB.
+const VECTOR_KEYS = ['documentEmbeddings', 'messageEmbeddings'] as const;
+
+interface PackedVectors {
+  lengths: number[];
+  buffer: ArrayBuffer;
+}
+
+interface SavedRecord {
+  version: number;
+  savedAt: string;
+  state: SavedState;
+  vectors: Partial<Record<(typeof VECTOR_KEYS)[number], PackedVectors>>;
+}
+
+export const packVectors = (vectors: number[][]): PackedVectors => {
+  const lengths = vectors.map(vector => vector.length);
+  const packed = new Float32Array(lengths.reduce((sum, length) => sum + length, 0));
+  let offset = 0;
+  vectors.forEach(vector => {
+    packed.set(vector, offset);
+    offset += vector.length;
+  });
+  return { lengths, buffer: packed.buffer };
+};
+
+export const unpackVectors = ({ lengths, buffer }: PackedVectors): number[][] => {
+  const packed = new Float32Array(buffer);
+  let offset = 0;
+  return lengths.map(length => {
+    const vector = Array.from(packed.subarray(offset, offset + length));
+    offset += length;
+    return vector;
+  });
+};
+
+export const toSavedRecord = (app: AppState): SavedRecord => {
+  const state: SavedState = { ...app };
+  TRANSIENT_KEYS.forEach(key => delete state[key]);
+
+  const vectors: SavedRecord['vectors'] = {};
+  VECTOR_KEYS.forEach(key => {
+    const items = app[key] as Array<{ vector: number[] }>;
+    vectors[key] = packVectors(items.map(item => item.vector));
+    state[key] = items.map(item => ({ ...item, vector: undefined }));
+  });
+
+  return { version: SCHEMA_VERSION, savedAt: new Date().toISOString(), state, vectors };
+};
+
+// Runs every migration between the saved version and the current one
+export const migrateState = (state: SavedState, fromVersion: number) => {
+  let migrated = state;
+  for (let version = fromVersion + 1; version <= SCHEMA_VERSION; version++) {
+    migrated = migrations[version]?.(migrated) ?? migrated;
+  }
+  return migrated;
+};
+
+// Work that was in flight when the page went away cannot resume, so it is
+// marked as stopped or failed rather than left spinning.
+const settleInterruptedWork = (state: Partial<AppState>): Partial<AppState> => ({
+  ...state,
+  chatMessages: state.chatMessages?.map((message): ChatMessage => ({
+    ...message,
+    status: message.status === 'streaming' ? 'stopped' : message.status,
+    toolCalls: message.toolCalls?.map(call =>
+      call.status === 'pending' || call.status === 'running'
+        ? { ...call, status: 'error', error: 'Interrupted by a page reload' }
+        : call
+    ),
+  })),
+  mcpServers: state.mcpServers?.map((server): MCPServer => ({ ...server, status: 'disconnected' })),
+  dataSources: state.dataSources?.map((source): DataSource => {
+    const stage = source.processingStatus?.stage;
+    if (!stage || stage === 'completed' || stage === 'error') return source;
+    return {
+      ...source,
+      processingStatus: { ...source.processingStatus, stage: 'error', message: 'Interrupted by a page reload' },
+    };
+  }),
+});
+
+export const fromSavedRecord = (record: SavedRecord): Partial<AppState> => {
+  const state: SavedState = { ...record.state };
+  VECTOR_KEYS.forEach(key => {
+    const items = state[key] as Array<Record<string, unknown>> | undefined;
+    const packed = record.vectors?.[key];
+    if (!items || !packed) return;
+    const vectors = unpackVectors(packed);
+    state[key] = items.map((item, i) => ({ ...item, vector: vectors[i] ?? [] }));
+  });
+  return settleInterruptedWork(migrateState(state, record.version ?? 0) as Partial<AppState>);
+};
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB is blocked by another tab'));
+  });
+
+const readRecord = (db: IDBDatabase) =>
+  new Promise<SavedRecord | undefined>((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(APP_KEY);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const writeRecord = (db: IDBDatabase, record: SavedRecord) =>
+  new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(record, APP_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Saves the app slice whenever it changes, debounced
+const subscribeToChanges = (db: IDBDatabase, store: AppStore) => {
+  let lastSaved = store.getState().app;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let firstChangeAt = 0;
+  let pending = Promise.resolve();
+  // Reported once until a save goes through again, not on every change
+  let failing = false;
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    firstChangeAt = 0;
+    const app = store.getState().app;
+    if (app === lastSaved) return;
+    lastSaved = app;
+    const record = toSavedRecord(app);
+    pending = pending
+      .then(() => writeRecord(db, record))
+      .then(() => {
+        failing = false;
+      })
+      .catch(error => {
+        if (failing) return;
+        failing = true;
+        toast({
+          title: 'Changes are not being saved',
+          description: error instanceof Error ? error.message : 'The browser refused to store app data.',
+          variant: 'destructive',
+        });
+      });
+  };
+
+  store.subscribe(() => {
+    if (store.getState().app === lastSaved) return;
+    const now = Date.now();
+    firstChangeAt ||= now;
+    clearTimeout(timer);
+    timer = setTimeout(flush, Math.max(0, Math.min(SAVE_DELAY_MS, firstChangeAt + MAX_SAVE_DELAY_MS - now)));
+  });
+
+  window.addEventListener('pagehide', flush);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush();
+  });
+};
+
+const restore = async (store: AppStore) => {
+  if (typeof indexedDB === 'undefined') {
+    toast({
+      title: 'Changes will not be saved',
+      description: 'This browser does not allow storing app data, so everything is lost when the page closes.',
+      variant: 'destructive',
+    });
+    return;
+  }
+
+  try {
+    const db = await openDatabase();
+    const record = await readRecord(db);
+    if (record && record.version > SCHEMA_VERSION) {
+      // Saved by a newer build; leave it alone rather than overwrite it
+      toast({
+        title: 'Saved data is from a newer version',
+        description: 'It was not loaded, and nothing from this session will be saved. Reload to get the latest version.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (record) store.dispatch(hydrateApp(fromSavedRecord(record)));
+    subscribeToChanges(db, store);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.replace(/\.?$/, '. ') : '';
+    toast({
+      title: 'Could not restore saved data',
+      description: `${reason}Changes in this session will not be saved.`,
+      variant: 'destructive',
+    });
+  }
+};
+
+let restoring: Promise<void> | null = null;
+
+// Loads the saved app state into the store, then keeps saving it. Safe to
+// call more than once; later calls wait on the first.
+export const initPersistence = (store: AppStore) => {
+  restoring ??= restore(store);
+  return restoring;
+};
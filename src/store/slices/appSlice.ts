@@ -1,5 +1,44 @@
 import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
 import { MCPConnectionPoolManager, MCPServerStatus } from '@/utils/mcpSimulation';
+import { streamOllamaChat, embedOllama, OllamaChatMessage, OllamaToolCall } from '@/utils/ollama';
+import { buildPrompt, PromptContext, PromptHistoryMessage } from '@/utils/promptBuilder';
+import { rankChunks } from '@/utils/retrieval';
+import { resolveCitations } from '@/utils/citations';
+import { countTokens } from '@/utils/tokenizer';
+import { chunkPages } from '@/utils/chunking';
+import type { DocumentPage } from '@/utils/documentText';
+import { getActiveSummary, selectMessagesToSummarize, buildSummaryPrompt, ThreadSummary } from '@/utils/summarizer';
+import { fallbackTitle, buildTitlePrompt, cleanTitle } from '@/utils/titles';
+import { resolvePersonaConfig } from '@/utils/personas';
+import { describeCompareConfig, findDuplicateConfigs } from '@/utils/comparison';
+import { snapshotFeedbackChunks } from '@/utils/feedback';
+import { calculateUsage, findModelPrice, DEFAULT_MODEL_PRICES, ModelPrice } from '@/utils/usage';
+import { getActivePath, getAncestry, getParentId, getParentKey } from '@/utils/branches';
+import { canMoveFolder } from '@/utils/folders';
+import {
+  getUnembeddedAnswers,
+  hashText,
+  rankConversations,
+  toHistoryChunk,
+  ConversationFilters,
+  HISTORY_SOURCE_PREFIX,
+} from '@/utils/conversationSearch';
+import {
+  extractClaims,
+  measureOverlap,
+  buildEntailmentPrompt,
+  parseEntailment,
+  describeOverlap,
+  groundednessScore,
+  SUPPORTED_OVERLAP,
+  FALLBACK_OVERLAP,
+  ClaimCheck,
+  GroundingResult,
+} from '@/utils/grounding';
+import { buildFollowUpPrompt, parseFollowUps } from '@/utils/followUps';
+import { getChatTools, buildToolDefinitions, parseToolArguments, formatToolResult, MAX_TOOL_ROUNDS } from '@/utils/toolCalling';
+import { trackStream, releaseStream, isAbortError } from './chatSlice';
+import { executeTool, type MCPState, type MCPTool } from './mcpSlice';
 
 export interface MCPServer {
   id: string;
@@ -32,6 +71,7 @@ export interface DocumentChunk {
   endIndex: number;
   embedding?: number[];
   score?: number;
+  pageNumber?: number;
 }
 
 export interface DocumentEmbedding {
@@ -45,6 +85,16 @@ export interface DocumentEmbedding {
   };
 }
 
+// Vector of an assistant message, for searching past conversations by meaning
+export interface MessageEmbedding {
+  messageId: string;
+  threadId: string;
+  model: string;
+  // hashText of the content that was embedded
+  hash: string;
+  vector: number[];
+}
+
 export interface ProcessingPipelineStatus {
   id: string;
   sourceId: string;
@@ -73,27 +123,160 @@ export interface KnowledgeGraphLink {
 export interface ChatThread {
   id: string;
   title: string;
+  titleSource?: 'generated' | 'user';
   createdAt: string;
   updatedAt: string;
   messageCount: number;
   lastMessage?: string;
+  systemPrompt?: string;
+  branchSelections?: Record<string, string>;
+  summary?: ThreadSummary;
+  personaId?: string;
+  personaVersion?: number;
+  importedFrom?: 'chatgpt' | 'claude';
+  tags?: string[];
+  folderId?: string | null;
+  archived?: boolean;
+}
+
+// Folders nest through parentId; a top-level folder works as a project
+export interface ChatFolder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: string;
+}
+
+export interface PersonaConfig {
+  systemPrompt: string;
+  model?: string;
+  temperature?: number;
+  retrievalEnabled: boolean;
+  // Restricts retrieval to these data sources; empty means all connected sources
+  preferredSourceIds: string[];
+}
+
+export interface PersonaVersion extends PersonaConfig {
+  version: number;
+  updatedAt: string;
+}
+
+export interface Persona extends PersonaConfig {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  history: PersonaVersion[];
 }
 
 export interface ChatMessage {
   id: string;
   threadId: string;
+  parentId?: string | null;
   content: string;
   role: 'user' | 'assistant';
   timestamp: string;
   sources?: string[];
   citations?: Array<{
     id: string;
+    index?: number;
     text: string;
     sourceId: string;
+    sourceName?: string;
     chunkId: string;
     score: number;
+    context?: string;
+    pageNumber?: number;
   }>;
+  invalidCitations?: number[];
   highlightedContent?: string;
+  status?: 'streaming' | 'complete' | 'stopped' | 'error';
+  error?: string;
+  metadata?: {
+    model?: string;
+    temperature?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    tokens?: number;
+    cost?: number;
+    tokensEstimated?: boolean;
+    // Milliseconds from request to first token and to the finished answer
+    firstTokenMs?: number;
+    latencyMs?: number;
+    // Share of the answer's claims supported by its prompt passages (0-1)
+    groundedness?: number;
+  };
+  promptContext?: PromptContext;
+  toolCalls?: ChatToolCall[];
+  grounding?: GroundingResult;
+  // Suggested next questions, generated once when the answer completes
+  followUps?: string[];
+  feedback?: MessageFeedback;
+}
+
+export interface ChatToolCall {
+  id: string;
+  toolId?: string;
+  serverId?: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: 'pending' | 'running' | 'complete' | 'error' | 'rejected';
+  result?: unknown;
+  error?: string;
+}
+
+export type FeedbackReason = 'wrong_source' | 'hallucinated' | 'incomplete';
+
+// A rating keeps a snapshot of the question and the chunks the answer was
+// given, so it stays meaningful after sources are re-indexed.
+export interface MessageFeedback {
+  rating: 'up' | 'down';
+  reasons: FeedbackReason[];
+  correction?: string;
+  question: string;
+  // What the model saw, kept so ratings stay readable after a source is
+  // re-indexed or deleted. Ratings saved before excerpts were kept lack them.
+  chunks: Array<{ chunkId: string; sourceId: string; sourceName?: string; score: number; excerpt?: string }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CompareConfig {
+  model: string;
+  retrievalEnabled: boolean;
+  retrievalTopK: number;
+}
+
+export interface ComparisonCandidate extends CompareConfig {
+  messageId: string;
+  label: string;
+}
+
+// One question answered by several models or retrieval setups side by side.
+// The chosen answer continues the thread; the rest stay as sibling branches.
+export interface ModelComparison {
+  id: string;
+  threadId: string;
+  questionId: string;
+  question: string;
+  candidates: ComparisonCandidate[];
+  winnerMessageId?: string;
+  createdAt: string;
+  decidedAt?: string;
+}
+
+// Files dropped into the chat input. They are chunked like a data source but
+// only searched for the thread they were attached to.
+export interface ChatAttachment {
+  id: string;
+  threadId: string;
+  name: string;
+  size: number;
+  type: string;
+  addedAt: string;
+  chunks: DocumentChunk[];
 }
 
 export interface UploadedFile {
@@ -113,6 +296,20 @@ export interface Settings {
   ollamaModel: string;
   temperature: number;
   maxTokens: number;
+  contextWindow: number;
+  retrievalTopK: number;
+  modelPrices: ModelPrice[];
+  autoSummarize: boolean;
+  summaryThreshold: number;
+  groundingCheck: boolean;
+  // Adds similar answers from other conversations to the retrieval context
+  historyRetrieval: boolean;
+  // voiceURI of the read-aloud voice; empty picks one matching the language
+  speechVoice: string;
+  speechRate: number;
+  readAloud: boolean;
+  voiceAutoSend: boolean;
+  voicePauseMs: number;
   apiEndpoint: string;
   theme: 'light' | 'dark';
   fontSize: number;
@@ -126,9 +323,14 @@ export interface AppState {
   dataSources: DataSource[];
   uploadedFiles: UploadedFile[];
   chatThreads: ChatThread[];
+  chatFolders: ChatFolder[];
   currentThreadId: string | null;
   chatMessages: ChatMessage[];
+  chatAttachments: ChatAttachment[];
+  personas: Persona[];
+  comparisons: ModelComparison[];
   documentEmbeddings: DocumentEmbedding[];
+  messageEmbeddings: MessageEmbedding[];
   knowledgeGraph: {
     nodes: KnowledgeGraphNode[];
     links: KnowledgeGraphLink[];
@@ -155,9 +357,14 @@ const initialState: AppState = {
   dataSources: [],
   uploadedFiles: [],
   chatThreads: [],
+  chatFolders: [],
   currentThreadId: null,
   chatMessages: [],
+  chatAttachments: [],
+  personas: [],
+  comparisons: [],
   documentEmbeddings: [],
+  messageEmbeddings: [],
   knowledgeGraph: {
     nodes: [],
     links: []
@@ -165,11 +372,23 @@ const initialState: AppState = {
   settings: {
     chunkSize: 1000,
     overlap: 100,
-    embeddingModel: 'text-embedding-ada-002',
+    embeddingModel: 'nomic-embed-text',
     vectorDatabase: 'pinecone',
     ollamaModel: 'llama3:8b',
     temperature: 0.7,
     maxTokens: 2048,
+    contextWindow: 8192,
+    retrievalTopK: 5,
+    modelPrices: DEFAULT_MODEL_PRICES,
+    autoSummarize: true,
+    summaryThreshold: 3000,
+    groundingCheck: false,
+    historyRetrieval: false,
+    speechVoice: '',
+    speechRate: 1,
+    readAloud: false,
+    voiceAutoSend: true,
+    voicePauseMs: 1500,
     apiEndpoint: 'http://localhost:11434',
     theme: 'light',
     fontSize: 14,
@@ -178,6 +397,31 @@ const initialState: AppState = {
   isRightPanelOpen: false,
 };
 
+export const DEFAULT_SYSTEM_PROMPT = 'You are a helpful AI assistant with access to a knowledge base.';
+
+// Unique even for records created in the same millisecond, as in imports
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createMessageId = () => createId('msg');
+
+type ThreadData = Pick<
+  AppState,
+  'chatThreads' | 'chatMessages' | 'chatAttachments' | 'messageEmbeddings' | 'comparisons' | 'currentThreadId'
+>;
+
+const removeThreads = (state: ThreadData, threadIds: string[]) => {
+  const ids = new Set(threadIds);
+  state.chatThreads = state.chatThreads.filter(thread => !ids.has(thread.id));
+  state.chatMessages = state.chatMessages.filter(message => !ids.has(message.threadId));
+  state.chatAttachments = state.chatAttachments.filter(attachment => !ids.has(attachment.threadId));
+  state.messageEmbeddings = state.messageEmbeddings.filter(embedding => !ids.has(embedding.threadId));
+  // Decided comparisons are kept as preference data
+  state.comparisons = state.comparisons.filter(c => !ids.has(c.threadId) || c.winnerMessageId);
+  if (state.currentThreadId && ids.has(state.currentThreadId)) {
+    state.currentThreadId = null;
+  }
+};
+
 // Async thunks
 export const processDocument = createAsyncThunk(
   'app/processDocument',
@@ -226,32 +470,684 @@ export const processDocument = createAsyncThunk(
 
 export const semanticSearch = createAsyncThunk(
   'app/semanticSearch',
-  async (query: string, { getState }): Promise<DocumentChunk[]> => {
+  async (
+    { query, threadId, sourceIds, topK }: { query: string; threadId?: string; sourceIds?: string[]; topK?: number },
+    { getState }
+  ): Promise<DocumentChunk[]> => {
     const state = getState() as { app: AppState };
-    
-    // Simulate semantic search
-    const mockChunks: DocumentChunk[] = [
+    const chunks = [
+      ...state.app.dataSources
+        .filter(source => source.status === 'connected')
+        .filter(source => !sourceIds?.length || sourceIds.includes(source.id))
+        .flatMap(source => source.chunks || []),
+      ...state.app.chatAttachments
+        .filter(attachment => attachment.threadId === threadId)
+        .flatMap(attachment => attachment.chunks),
+    ];
+
+    return rankChunks(query, chunks, topK ?? state.app.settings.retrievalTopK);
+  }
+);
+
+const EMBED_BATCH_SIZE = 16;
+// Past answers added to the prompt when historyRetrieval is on
+const HISTORY_CONTEXT_LIMIT = 2;
+const HISTORY_MIN_SIMILARITY = 0.5;
+
+const embeddingAnswers = new Set<string>();
+
+// Embeds assistant answers without an up-to-date vector from the configured
+// embedding model: the given ones, or every answer when no ids are passed.
+// Resolves with the number embedded.
+export const embedAnswers = createAsyncThunk(
+  'app/embedAnswers',
+  async (messageIds: string[] | undefined, { getState, dispatch }) => {
+    const state = getState() as { app: AppState };
+    const { apiEndpoint, embeddingModel } = state.app.settings;
+    const candidates = messageIds
+      ? state.app.chatMessages.filter(m => messageIds.includes(m.id))
+      : state.app.chatMessages;
+    const pending = getUnembeddedAnswers(candidates, state.app.messageEmbeddings, embeddingModel)
+      .filter(m => !embeddingAnswers.has(m.id));
+    if (pending.length === 0) return 0;
+
+    pending.forEach(m => embeddingAnswers.add(m.id));
+    let embedded = 0;
+    try {
+      for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+        const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await embedOllama({
+          endpoint: apiEndpoint,
+          model: embeddingModel,
+          input: batch.map(m => m.content),
+        });
+        dispatch(setMessageEmbeddings(batch.map((message, j) => ({
+          messageId: message.id,
+          threadId: message.threadId,
+          model: embeddingModel,
+          hash: hashText(message.content),
+          vector: vectors[j],
+        }))));
+        embedded += batch.length;
+      }
+    } finally {
+      pending.forEach(m => embeddingAnswers.delete(m.id));
+    }
+    return embedded;
+  }
+);
+
+// Finds past answers by meaning. Only answers embedded with the current
+// embedding model are searched.
+export const searchConversations = createAsyncThunk(
+  'app/searchConversations',
+  async (
+    { query, filters = {}, limit = 20, excludeThreadId, minSimilarity }: {
+      query: string;
+      filters?: ConversationFilters;
+      limit?: number;
+      excludeThreadId?: string;
+      minSimilarity?: number;
+    },
+    { getState, signal }
+  ) => {
+    const { apiEndpoint, embeddingModel } = (getState() as { app: AppState }).app.settings;
+    const [queryVector] = await embedOllama({ endpoint: apiEndpoint, model: embeddingModel, input: [query], signal });
+
+    const { app } = getState() as { app: AppState };
+    return rankConversations(
+      queryVector,
+      app.messageEmbeddings,
+      app.chatMessages,
+      app.chatThreads.filter(thread => thread.id !== excludeThreadId),
+      filters,
+      { model: embeddingModel, limit, minSimilarity }
+    );
+  }
+);
+
+// All chunks of a source in document order. Earlier chunks score higher so
+// the prompt builder trims from the end when the source does not fit.
+const getSourceChunks = (state: AppState, sourceId: string): DocumentChunk[] => {
+  const chunks = state.dataSources.find(s => s.id === sourceId)?.chunks
+    ?? state.chatAttachments.find(a => a.id === sourceId)?.chunks
+    ?? [];
+  return chunks.map((chunk, i) => ({ ...chunk, score: 1 - i / chunks.length }));
+};
+
+// Resolvers for tool calls waiting on the user. Like stream controllers they
+// are not serializable and live beside the store.
+const toolApprovals = new Map<string, (approved: boolean) => void>();
+
+const waitForToolApproval = (callId: string, signal: AbortSignal) =>
+  new Promise<boolean>((resolve, reject) => {
+    const onAbort = () => {
+      toolApprovals.delete(callId);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    toolApprovals.set(callId, (approved) => {
+      signal.removeEventListener('abort', onAbort);
+      toolApprovals.delete(callId);
+      resolve(approved);
+    });
+  });
+
+export const resolveToolApproval = (callId: string, approved: boolean) => {
+  toolApprovals.get(callId)?.(approved);
+};
+
+export const generateChatResponse = createAsyncThunk(
+  'app/generateChatResponse',
+  async (
+    params: {
+      threadId?: string;
+      retryMessageId?: string;
+      regenerateMessageId?: string;
+      // Answer from this whole source (data source or attachment) instead of search results
+      contextSourceId?: string;
+      // Comparison candidates: answer a fixed question with their own model
+      // and retrieval setup, streaming alongside each other
+      parentId?: string;
+      messageId?: string;
+      compare?: CompareConfig;
+    } | undefined,
+    { getState, dispatch, signal }
+  ) => {
+    const state = getState() as { app: AppState };
+    const retryMessage = params?.retryMessageId
+      ? state.app.chatMessages.find(m => m.id === params.retryMessageId)
+      : undefined;
+    const regenerateMessage = params?.regenerateMessageId
+      ? state.app.chatMessages.find(m => m.id === params.regenerateMessageId)
+      : undefined;
+    const threadId = retryMessage?.threadId ?? regenerateMessage?.threadId ?? params?.threadId ?? state.app.currentThreadId;
+    if (!threadId) {
+      throw new Error('No active conversation');
+    }
+
+    const thread = state.app.chatThreads.find(t => t.id === threadId);
+    const persona = thread?.personaId ? state.app.personas.find(p => p.id === thread.personaId) : undefined;
+    const personaConfig = persona && resolvePersonaConfig(persona, thread?.personaVersion);
+    const { apiEndpoint, maxTokens, contextWindow, modelPrices } = state.app.settings;
+    const ollamaModel = params?.compare?.model || personaConfig?.model || state.app.settings.ollamaModel;
+    const temperature = personaConfig?.temperature ?? state.app.settings.temperature;
+    const threadMessages = state.app.chatMessages.filter(m => m.threadId === threadId);
+
+    // Retries reuse the failed message; regenerations become a sibling of
+    // the old answer; new replies continue the visible branch.
+    const branchPoint = retryMessage ?? regenerateMessage;
+    const parentId = branchPoint
+      ? getParentId(threadMessages, branchPoint.id)
+      : params?.parentId ?? getActivePath(threadMessages, thread?.branchSelections).pop()?.id ?? null;
+    const history = getAncestry(threadMessages, parentId).filter(m => m.status !== 'error' && m.content);
+
+    const questionIndex = history.map(m => m.role).lastIndexOf('user');
+    if (questionIndex === -1) {
+      throw new Error('No question to answer');
+    }
+    const question = history[questionIndex].content;
+    // Turns covered by the thread summary stay visible but are replaced by
+    // the summary in the prompt.
+    const summary = getActiveSummary(thread?.summary, history);
+    const summarizedIds = new Set(summary?.messageIds);
+    const priorTurns: PromptHistoryMessage[] = history
+      .slice(0, questionIndex)
+      .filter(m => !summarizedIds.has(m.id))
+      .map(m => ({ id: m.id, role: m.role, content: m.content }));
+
+    const messageId = retryMessage?.id ?? params?.messageId ?? createMessageId();
+    const metadata = { model: ollamaModel, temperature };
+
+    if (retryMessage) {
+      dispatch(updateChatMessage({
+        id: messageId,
+        updates: {
+          content: '',
+          status: 'streaming',
+          error: undefined,
+          metadata,
+          sources: undefined,
+          citations: undefined,
+          invalidCitations: undefined,
+          promptContext: undefined,
+          toolCalls: undefined,
+          grounding: undefined,
+          followUps: undefined,
+          feedback: undefined,
+          timestamp: new Date().toISOString(),
+        },
+      }));
+    } else {
+      dispatch(addChatMessage({
+        id: messageId,
+        threadId,
+        parentId,
+        content: '',
+        role: 'assistant',
+        status: 'streaming',
+        metadata,
+        timestamp: new Date().toISOString(),
+      }));
+    }
+
+    const controller = trackStream(threadId, signal, { parallel: Boolean(params?.compare) });
+    const startedAt = Date.now();
+    let firstTokenMs: number | undefined;
+    let promptContext: PromptContext | undefined;
+    let chunks: DocumentChunk[] = [];
+    try {
+      const retrievalEnabled = params?.compare?.retrievalEnabled ?? personaConfig?.retrievalEnabled !== false;
+      if (params?.contextSourceId) {
+        chunks = getSourceChunks(state.app, params.contextSourceId);
+      } else if (retrievalEnabled) {
+        chunks = await dispatch(semanticSearch({
+          query: question,
+          threadId,
+          sourceIds: personaConfig?.preferredSourceIds,
+          topK: params?.compare?.retrievalTopK,
+        })).unwrap();
+        if (state.app.settings.historyRetrieval) {
+          // Earlier conversations are extra context; the answer goes ahead without them
+          const hits = await dispatch(searchConversations({
+            query: question,
+            limit: HISTORY_CONTEXT_LIMIT,
+            excludeThreadId: threadId,
+            minSimilarity: HISTORY_MIN_SIMILARITY,
+          })).unwrap().catch(() => []);
+          chunks = [
+            ...chunks,
+            ...hits.map(hit => toHistoryChunk(hit, state.app.chatMessages, state.app.chatThreads.find(t => t.id === hit.threadId))),
+          ];
+        }
+      }
+      const sourceNames = Object.fromEntries([
+        ...state.app.dataSources.map(source => [source.id, source.name]),
+        ...state.app.chatAttachments.map(attachment => [attachment.id, attachment.name]),
+        ...state.app.chatThreads.map(thread => [`${HISTORY_SOURCE_PREFIX}${thread.id}`, `Earlier chat: ${thread.title}`]),
+      ]);
+
+      const { messages, context } = buildPrompt({
+        systemPrompt: personaConfig?.systemPrompt || thread?.systemPrompt || DEFAULT_SYSTEM_PROMPT,
+        summary: summary?.content,
+        history: priorTurns,
+        question,
+        chunks,
+        sourceNames,
+        contextWindow,
+        reservedTokens: maxTokens,
+      });
+      promptContext = context;
+
+      const usedSources = Array.from(new Set(context.chunks.map(chunk => chunk.sourceName || chunk.sourceId)));
+      dispatch(updateChatMessage({
+        id: messageId,
+        updates: { promptContext: context, sources: usedSources.length > 0 ? usedSources : undefined },
+      }));
+
+      // Runs one tool call, asking the user first unless the tool is
+      // auto-approved, and returns the text the model sees as the result.
+      const runToolCall = async (toolCall: OllamaToolCall, tool: MCPTool | undefined) => {
+        const call: ChatToolCall = {
+          id: createId('call'),
+          toolId: tool?.id,
+          serverId: tool?.serverId,
+          name: tool?.name ?? toolCall.function.name,
+          arguments: parseToolArguments(toolCall),
+          status: tool?.autoApprove ? 'running' : 'pending',
+        };
+        const update = (updates: Partial<ChatToolCall>) => {
+          Object.assign(call, updates);
+          dispatch(upsertToolCall({ messageId, call: { ...call } }));
+        };
+
+        if (!tool) {
+          update({ status: 'error', error: 'Unknown tool' });
+          return `Error: there is no tool named "${call.name}".`;
+        }
+        update({});
+        if (!tool.autoApprove && !(await waitForToolApproval(call.id, controller.signal))) {
+          update({ status: 'rejected' });
+          return 'The user declined to run this tool call.';
+        }
+
+        update({ status: 'running' });
+        try {
+          const output = await dispatch(executeTool({
+            serverId: tool.serverId,
+            toolId: tool.id,
+            parameters: call.arguments,
+          })).unwrap();
+          update({ status: 'complete', result: output });
+          return formatToolResult(output);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Tool execution failed';
+          update({ status: 'error', error: message });
+          return `Error: ${message}`;
+        }
+      };
+
+      // The model may call tools several times; each round feeds the results
+      // back until it answers without calling any.
+      const { definitions, byName } = buildToolDefinitions(getChatTools(getState() as { app: AppState; mcp: MCPState }));
+      let conversation: OllamaChatMessage[] = messages;
+      let content = '';
+      let model = ollamaModel;
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let tokensEstimated = false;
+      for (let round = 0; ; round++) {
+        const result = await streamOllamaChat(
+          {
+            endpoint: apiEndpoint,
+            model: ollamaModel,
+            messages: conversation,
+            temperature,
+            maxTokens,
+            tools: round < MAX_TOOL_ROUNDS ? definitions : undefined,
+            signal: controller.signal,
+          },
+          (token) => {
+            firstTokenMs ??= Date.now() - startedAt;
+            dispatch(appendChatMessageContent({ id: messageId, content: token }));
+          }
+        );
+
+        // Ollama reports exact counts on its final line; fall back to the
+        // local estimate when a server omits them.
+        content += result.content;
+        model = result.model || model;
+        promptTokens += result.promptTokens
+          ?? (round === 0 ? context.tokens.total : conversation.reduce((sum, m) => sum + countTokens(m.content), 0));
+        completionTokens += result.completionTokens ?? countTokens(result.content);
+        tokensEstimated ||= result.promptTokens === undefined || result.completionTokens === undefined;
+
+        if (!result.toolCalls?.length) break;
+        const toolMessages: OllamaChatMessage[] = [];
+        for (const toolCall of result.toolCalls) {
+          toolMessages.push({ role: 'tool', content: await runToolCall(toolCall, byName.get(toolCall.function.name)) });
+        }
+        conversation = [
+          ...conversation,
+          { role: 'assistant', content: result.content, tool_calls: result.toolCalls },
+          ...toolMessages,
+        ];
+      }
+
+      const usage = calculateUsage(promptTokens, completionTokens, findModelPrice(modelPrices, model), tokensEstimated);
+      const { citations, invalidCitations } = resolveCitations(content, context, chunks);
+      dispatch(updateChatMessage({
+        id: messageId,
+        updates: {
+          content,
+          status: 'complete',
+          metadata: { ...metadata, ...usage, model, firstTokenMs, latencyMs: Date.now() - startedAt },
+          citations,
+          invalidCitations,
+        },
+      }));
+      if (state.app.settings.groundingCheck && context.chunks.length > 0) {
+        dispatch(checkGrounding(messageId));
+      }
+      // Comparisons run these once a winner is picked
+      if (!params?.compare) {
+        dispatch(generateFollowUps(messageId));
+        dispatch(embedAnswers([messageId]));
+        dispatch(summarizeThread({ threadId }));
+        if (priorTurns.length === 0 && !summary && !thread?.titleSource) {
+          dispatch(generateThreadTitle({ threadId }));
+        }
+      }
+      return { messageId, stopped: false };
+    } catch (error) {
+      if (isAbortError(error)) {
+        const partial = (getState() as { app: AppState }).app.chatMessages.find(m => m.id === messageId);
+        const usage = promptContext && calculateUsage(
+          promptContext.tokens.total,
+          countTokens(partial?.content || ''),
+          findModelPrice(modelPrices, ollamaModel),
+          true
+        );
+        dispatch(updateChatMessage({
+          id: messageId,
+          updates: {
+            status: 'stopped',
+            ...(usage && { metadata: { ...metadata, ...usage, firstTokenMs, latencyMs: Date.now() - startedAt } }),
+            ...resolveCitations(partial?.content || '', promptContext, chunks),
+          },
+        }));
+        return { messageId, stopped: true };
+      }
+      dispatch(updateChatMessage({
+        id: messageId,
+        updates: { status: 'error', error: error instanceof Error ? error.message : 'Failed to generate a response' },
+      }));
+      throw error;
+    } finally {
+      releaseStream(threadId, controller);
+    }
+  }
+);
+
+// Answers the latest question on the active branch once per config. Each
+// answer becomes a sibling of the others so the winner can be selected as the
+// branch to continue from.
+export const compareResponses = createAsyncThunk(
+  'app/compareResponses',
+  async (configs: CompareConfig[], { getState, dispatch }) => {
+    const state = getState() as { app: AppState };
+    const threadId = state.app.currentThreadId;
+    const thread = state.app.chatThreads.find(t => t.id === threadId);
+    if (!thread) {
+      throw new Error('No active conversation');
+    }
+
+    if (findDuplicateConfigs(configs).size > 0) {
+      throw new Error('Each column needs a different model or retrieval setting');
+    }
+
+    const question = getActivePath(
+      state.app.chatMessages.filter(m => m.threadId === thread.id),
+      thread.branchSelections
+    ).pop();
+    if (question?.role !== 'user') {
+      throw new Error('No question to answer');
+    }
+
+    const comparison: ModelComparison = {
+      id: `cmp-${Date.now()}`,
+      threadId: thread.id,
+      questionId: question.id,
+      question: question.content,
+      candidates: configs.map(config => ({
+        ...config,
+        messageId: createMessageId(),
+        label: describeCompareConfig(config),
+      })),
+      createdAt: new Date().toISOString(),
+    };
+    dispatch(addComparison(comparison));
+
+    await Promise.allSettled(comparison.candidates.map(({ messageId, label, ...compare }) =>
+      dispatch(generateChatResponse({ threadId: thread.id, parentId: question.id, messageId, compare })).unwrap()
+    ));
+    return comparison.id;
+  }
+);
+
+// The chunks that were in an answer's prompt, for checks run after the fact.
+const getPromptPassages = (state: AppState, message: ChatMessage) => {
+  const allChunks = [
+    ...state.dataSources.flatMap(source => source.chunks || []),
+    ...state.chatAttachments.flatMap(attachment => attachment.chunks),
+  ];
+  return (message.promptContext?.chunks || [])
+    .map(({ chunkId }) => allChunks.find(chunk => chunk.id === chunkId))
+    .filter((chunk): chunk is DocumentChunk => Boolean(chunk))
+    .map(chunk => ({ chunkId: chunk.id, content: chunk.content }));
+};
+
+const generatingFollowUps = new Set<string>();
+
+export const generateFollowUps = createAsyncThunk(
+  'app/generateFollowUps',
+  async (messageId: string, { getState, dispatch }) => {
+    const state = getState() as { app: AppState };
+    const message = state.app.chatMessages.find(m => m.id === messageId);
+    if (!message?.content || message.followUps || generatingFollowUps.has(messageId)) return null;
+
+    const threadMessages = state.app.chatMessages.filter(m => m.threadId === message.threadId);
+    const question = getAncestry(threadMessages, message.id).reverse().find(m => m.role === 'user');
+    const { apiEndpoint, ollamaModel } = state.app.settings;
+
+    generatingFollowUps.add(messageId);
+    try {
+      const result = await streamOllamaChat(
+        {
+          endpoint: apiEndpoint,
+          model: message.metadata?.model || ollamaModel,
+          messages: buildFollowUpPrompt(
+            question?.content ?? '',
+            message.content,
+            getPromptPassages(state.app, message).map(passage => passage.content)
+          ),
+          temperature: 0.5,
+        },
+        () => {}
+      );
+      const followUps = parseFollowUps(result.content, question?.content ?? '');
+      dispatch(updateChatMessage({ id: messageId, updates: { followUps } }));
+      return followUps;
+    } finally {
+      generatingFollowUps.delete(messageId);
+    }
+  }
+);
+
+// Checks each sentence of an answer against the passages that were in its
+// prompt. Clearly overlapping sentences pass on lexical evidence alone; the
+// rest go to the model in one entailment call.
+export const checkGrounding = createAsyncThunk(
+  'app/checkGrounding',
+  async (messageId: string, { getState, dispatch }) => {
+    const state = getState() as { app: AppState };
+    const message = state.app.chatMessages.find(m => m.id === messageId);
+    if (!message?.content || !message.promptContext) return null;
+
+    const passages = getPromptPassages(state.app, message);
+
+    const claims: ClaimCheck[] = extractClaims(message.content).map(text => {
+      const { overlap, chunkId } = measureOverlap(text, passages);
+      return { text, overlap, chunkId, supported: overlap >= SUPPORTED_OVERLAP };
+    });
+
+    const uncertain = claims.filter(claim => !claim.supported);
+    let method: GroundingResult['method'] = 'lexical';
+    if (uncertain.length > 0 && passages.length > 0) {
+      const { apiEndpoint, ollamaModel } = state.app.settings;
+      let verdicts = new Map<number, { supported: boolean; reason?: string }>();
+      try {
+        const result = await streamOllamaChat(
+          {
+            endpoint: apiEndpoint,
+            model: message.metadata?.model || ollamaModel,
+            messages: buildEntailmentPrompt(uncertain.map(claim => claim.text), passages),
+            temperature: 0,
+          },
+          () => {}
+        );
+        verdicts = parseEntailment(result.content);
+      } catch {
+        // Fall back to the lexical verdict below
+      }
+
+      if (verdicts.size > 0) method = 'entailment';
+      uncertain.forEach((claim, i) => {
+        const verdict = verdicts.get(i + 1);
+        claim.supported = verdict ? verdict.supported : claim.overlap >= FALLBACK_OVERLAP;
+        if (!claim.supported) {
+          claim.reason = verdict?.reason || describeOverlap(claim.overlap);
+        }
+      });
+    } else {
+      uncertain.forEach(claim => (claim.reason = 'No retrieved passage to check it against'));
+    }
+
+    const grounding: GroundingResult = {
+      claims,
+      score: groundednessScore(claims),
+      method,
+      checkedAt: new Date().toISOString(),
+    };
+    const current = (getState() as { app: AppState }).app.chatMessages.find(m => m.id === messageId);
+    if (!current || current.content !== message.content) return null;
+    dispatch(updateChatMessage({
+      id: messageId,
+      updates: { grounding, metadata: { ...current.metadata, groundedness: grounding.score } },
+    }));
+    return grounding;
+  }
+);
+
+const summarizingThreads = new Set<string>();
+
+export const summarizeThread = createAsyncThunk(
+  'app/summarizeThread',
+  async ({ threadId, force = false }: { threadId: string; force?: boolean }, { getState, dispatch }) => {
+    const state = getState() as { app: AppState };
+    const thread = state.app.chatThreads.find(t => t.id === threadId);
+    const { apiEndpoint, ollamaModel, autoSummarize, summaryThreshold } = state.app.settings;
+    if (!thread || (!force && !autoSummarize) || summarizingThreads.has(threadId)) return null;
+
+    const path = getActivePath(state.app.chatMessages.filter(m => m.threadId === threadId), thread.branchSelections)
+      .filter(m => m.content && m.status !== 'error' && m.status !== 'streaming');
+    const summary = getActiveSummary(thread.summary, path);
+    const messages = selectMessagesToSummarize(path, summary, summaryThreshold, force);
+    if (messages.length === 0) return null;
+
+    summarizingThreads.add(threadId);
+    try {
+      const result = await streamOllamaChat(
+        {
+          endpoint: apiEndpoint,
+          model: ollamaModel,
+          messages: buildSummaryPrompt(summary?.content, messages),
+          temperature: 0.2,
+        },
+        () => {}
+      );
+      const content = result.content.trim();
+      if (!content) {
+        throw new Error('The model returned an empty summary');
+      }
+
+      const updated: ThreadSummary = {
+        content,
+        messageIds: [...(summary?.messageIds || []), ...messages.map(m => m.id)],
+        updatedAt: new Date().toISOString(),
+      };
+      dispatch(setThreadSummary({ threadId, summary: updated }));
+      return updated;
+    } finally {
+      summarizingThreads.delete(threadId);
+    }
+  }
+);
+
+export const generateThreadTitle = createAsyncThunk(
+  'app/generateThreadTitle',
+  async ({ threadId, force = false }: { threadId: string; force?: boolean }, { getState, dispatch }) => {
+    const state = getState() as { app: AppState };
+    const thread = state.app.chatThreads.find(t => t.id === threadId);
+    if (!thread || (!force && thread.titleSource === 'user')) return null;
+
+    const path = getActivePath(state.app.chatMessages.filter(m => m.threadId === threadId), thread.branchSelections);
+    const question = path.find(m => m.role === 'user' && m.content);
+    const answer = path.find(m => m.role === 'assistant' && m.content && m.status !== 'error');
+    if (!question || !answer) return null;
+
+    const { apiEndpoint, ollamaModel } = state.app.settings;
+    const result = await streamOllamaChat(
       {
-        id: 'chunk-1',
-        sourceId: 'ds-1',
-        content: `Sample content related to: ${query}`,
-        startIndex: 0,
-        endIndex: 100,
-        score: 0.95
+        endpoint: apiEndpoint,
+        model: ollamaModel,
+        messages: buildTitlePrompt(question.content, answer.content),
+        temperature: 0.3,
+        maxTokens: 24,
       },
-      {
-        id: 'chunk-2',
-        sourceId: 'ds-2',
-        content: `Another relevant chunk for: ${query}`,
-        startIndex: 100,
-        endIndex: 200,
-        score: 0.87
-      }
-    ];
+      () => {}
+    );
+    const title = cleanTitle(result.content);
+    if (!title) {
+      throw new Error('The model returned an empty title');
+    }
+
+    // The user may have renamed the thread while the model was answering
+    const current = (getState() as { app: AppState }).app.chatThreads.find(t => t.id === threadId);
+    if (!current || (!force && current.titleSource === 'user')) return null;
 
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    return mockChunks;
+    dispatch(updateThreadTitle({ threadId, title, source: 'generated' }));
+    return title;
+  }
+);
+
+export const retitleThreads = createAsyncThunk(
+  'app/retitleThreads',
+  async (threadIds: string[], { dispatch }) => {
+    const counts = { updated: 0, skipped: 0, failed: 0 };
+    // One at a time so a local model is not flooded with requests
+    for (const threadId of threadIds) {
+      const result = await dispatch(generateThreadTitle({ threadId }));
+      if (generateThreadTitle.rejected.match(result)) {
+        counts.failed++;
+      } else if (result.payload) {
+        counts.updated++;
+      } else {
+        counts.skipped++;
+      }
+    }
+    return counts;
   }
 );
 
@@ -259,6 +1155,19 @@ const appSlice = createSlice({
   name: 'app',
   initialState,
   reducers: {
+    // Loads state saved by the persistence layer. Saved values replace the
+    // defaults key by key; objects such as settings are merged instead, so
+    // fields added since the save keep their defaults.
+    hydrateApp: (state, action: PayloadAction<Partial<AppState>>) => {
+      const target = state as Record<string, unknown>;
+      const isObject = (item: unknown): item is object =>
+        typeof item === 'object' && item !== null && !Array.isArray(item);
+      Object.entries(action.payload).forEach(([key, value]) => {
+        if (value === undefined) return;
+        const current = target[key];
+        target[key] = isObject(current) && isObject(value) ? { ...current, ...value } : value;
+      });
+    },
     setConnectionManager: (state, action: PayloadAction<MCPConnectionPoolManager>) => {
       state.connectionManager = action.payload;
     },
@@ -309,13 +1218,16 @@ const appSlice = createSlice({
     deleteUploadedFile: (state, action: PayloadAction<string>) => {
       state.uploadedFiles = state.uploadedFiles.filter(file => file.id !== action.payload);
     },
-    createNewThread: (state) => {
+    createNewThread: (state, action: PayloadAction<{ personaId?: string }>) => {
+      const persona = state.personas.find(p => p.id === action.payload?.personaId);
       const newThread: ChatThread = {
-        id: `thread-${Date.now()}`,
+        id: createId('thread'),
         title: 'New Conversation',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         messageCount: 0,
+        personaId: persona?.id,
+        personaVersion: persona?.version,
       };
       state.chatThreads.push(newThread);
       state.currentThreadId = newThread.id;
@@ -323,13 +1235,14 @@ const appSlice = createSlice({
     switchToThread: (state, action: PayloadAction<string>) => {
       state.currentThreadId = action.payload;
     },
-    addChatMessage: (state, action: PayloadAction<Omit<ChatMessage, 'id' | 'threadId'>>) => {
-      let threadId = state.currentThreadId;
+    addChatMessage: (state, action: PayloadAction<Omit<ChatMessage, 'id' | 'threadId'> & { id?: string; threadId?: string }>) => {
+      const { id, threadId: targetThreadId, ...payload } = action.payload;
+      let threadId = targetThreadId ?? state.currentThreadId;
       
       // Create new thread if none exists
       if (!threadId) {
         const newThread: ChatThread = {
-          id: `thread-${Date.now()}`,
+          id: createId('thread'),
           title: 'New Conversation',
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -340,47 +1253,381 @@ const appSlice = createSlice({
         threadId = newThread.id;
       }
       
+      const threadIndex = state.chatThreads.findIndex(t => t.id === threadId);
+      const parentId = payload.parentId !== undefined
+        ? payload.parentId
+        : getActivePath(
+            state.chatMessages.filter(m => m.threadId === threadId),
+            state.chatThreads[threadIndex]?.branchSelections
+          ).pop()?.id ?? null;
+
       const message: ChatMessage = {
-        ...action.payload,
-        id: `msg-${Date.now()}`,
+        ...payload,
+        id: id ?? createMessageId(),
         threadId,
+        parentId,
       };
       
       state.chatMessages.push(message);
       
       // Update thread
-      const threadIndex = state.chatThreads.findIndex(t => t.id === threadId);
       if (threadIndex !== -1) {
+        state.chatThreads[threadIndex].branchSelections = {
+          ...state.chatThreads[threadIndex].branchSelections,
+          [getParentKey(parentId)]: message.id,
+        };
+
         const threadMessages = state.chatMessages.filter(m => m.threadId === threadId);
-        const isFirstMessage = threadMessages.length === 1 && action.payload.role === 'user';
+        const isFirstMessage = threadMessages.length === 1 && payload.role === 'user';
         
         state.chatThreads[threadIndex] = {
           ...state.chatThreads[threadIndex],
-          title: isFirstMessage ? action.payload.content.slice(0, 50) + '...' : state.chatThreads[threadIndex].title,
+          title: isFirstMessage && !state.chatThreads[threadIndex].titleSource
+            ? fallbackTitle(payload.content)
+            : state.chatThreads[threadIndex].title,
           updatedAt: new Date().toISOString(),
           messageCount: threadMessages.length,
-          lastMessage: action.payload.content.slice(0, 100)
+          lastMessage: payload.content ? payload.content.slice(0, 100) : state.chatThreads[threadIndex].lastMessage
         };
       }
     },
-    updateThreadTitle: (state, action: PayloadAction<{ threadId: string; title: string }>) => {
+    updateChatMessage: (state, action: PayloadAction<{ id: string; updates: Partial<ChatMessage> }>) => {
+      const index = state.chatMessages.findIndex(message => message.id === action.payload.id);
+      if (index !== -1) {
+        const message = { ...state.chatMessages[index], ...action.payload.updates };
+        state.chatMessages[index] = message;
+
+        const thread = state.chatThreads.find(t => t.id === message.threadId);
+        if (thread && action.payload.updates.content) {
+          thread.lastMessage = action.payload.updates.content.slice(0, 100);
+        }
+      }
+    },
+    appendChatMessageContent: (state, action: PayloadAction<{ id: string; content: string }>) => {
+      const message = state.chatMessages.find(m => m.id === action.payload.id);
+      if (message) {
+        message.content += action.payload.content;
+      }
+    },
+    selectBranch: (state, action: PayloadAction<{ messageId: string }>) => {
+      const message = state.chatMessages.find(m => m.id === action.payload.messageId);
+      const thread = message && state.chatThreads.find(t => t.id === message.threadId);
+      if (message && thread) {
+        const parentId = getParentId(state.chatMessages.filter(m => m.threadId === thread.id), message.id);
+        thread.branchSelections = { ...thread.branchSelections, [getParentKey(parentId)]: message.id };
+      }
+    },
+    // Opens a message's thread with the branches leading to it selected
+    revealMessage: (state, action: PayloadAction<{ messageId: string }>) => {
+      const message = state.chatMessages.find(m => m.id === action.payload.messageId);
+      const thread = message && state.chatThreads.find(t => t.id === message.threadId);
+      if (!message || !thread) return;
+      const threadMessages = state.chatMessages.filter(m => m.threadId === thread.id);
+      const selections = { ...thread.branchSelections };
+      getAncestry(threadMessages, message.id).forEach(ancestor => {
+        selections[getParentKey(getParentId(threadMessages, ancestor.id))] = ancestor.id;
+      });
+      thread.branchSelections = selections;
+      state.currentThreadId = thread.id;
+    },
+    updateThreadTitle: (
+      state,
+      action: PayloadAction<{ threadId: string; title: string; source?: 'generated' | 'user' }>
+    ) => {
       const index = state.chatThreads.findIndex(thread => thread.id === action.payload.threadId);
       if (index !== -1) {
         state.chatThreads[index].title = action.payload.title;
+        state.chatThreads[index].titleSource = action.payload.source ?? 'user';
+      }
+    },
+    addChatAttachment: (
+      state,
+      action: PayloadAction<{ threadId?: string; name: string; size: number; type: string; pages: DocumentPage[] }>
+    ) => {
+      const { threadId: targetThreadId, pages, ...file } = action.payload;
+      let threadId = targetThreadId ?? state.currentThreadId;
+
+      if (!threadId) {
+        const newThread: ChatThread = {
+          id: createId('thread'),
+          title: 'New Conversation',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          messageCount: 0,
+        };
+        state.chatThreads.push(newThread);
+        state.currentThreadId = newThread.id;
+        threadId = newThread.id;
+      }
+
+      const id = createId('att');
+      state.chatAttachments.push({
+        ...file,
+        id,
+        threadId,
+        addedAt: new Date().toISOString(),
+        chunks: chunkPages(pages, id, { chunkSize: state.settings.chunkSize, overlap: state.settings.overlap }),
+      });
+    },
+    removeChatAttachment: (state, action: PayloadAction<string>) => {
+      state.chatAttachments = state.chatAttachments.filter(attachment => attachment.id !== action.payload);
+    },
+    // Moves an attachment into the global knowledge base as a file source.
+    promoteChatAttachment: (state, action: PayloadAction<string>) => {
+      const attachment = state.chatAttachments.find(a => a.id === action.payload);
+      if (!attachment) return;
+
+      const sourceId = `ds-${Date.now()}`;
+      state.dataSources.push({
+        id: sourceId,
+        name: attachment.name,
+        type: 'file',
+        status: 'connected',
+        fileCount: 1,
+        lastSync: new Date().toISOString(),
+        chunks: attachment.chunks.map(chunk => ({
+          ...chunk,
+          id: chunk.id.replace(attachment.id, sourceId),
+          sourceId,
+        })),
+      });
+      state.chatAttachments = state.chatAttachments.filter(a => a.id !== attachment.id);
+    },
+    setThreadSummary: (state, action: PayloadAction<{ threadId: string; summary?: ThreadSummary }>) => {
+      const thread = state.chatThreads.find(t => t.id === action.payload.threadId);
+      if (thread) {
+        thread.summary = action.payload.summary;
+      }
+    },
+    editThreadSummary: (state, action: PayloadAction<{ threadId: string; content: string }>) => {
+      const thread = state.chatThreads.find(t => t.id === action.payload.threadId);
+      if (thread?.summary) {
+        thread.summary = {
+          ...thread.summary,
+          content: action.payload.content,
+          updatedAt: new Date().toISOString(),
+          edited: true,
+        };
+      }
+    },
+    setThreadPersona: (state, action: PayloadAction<{ threadId: string; personaId: string | null }>) => {
+      const thread = state.chatThreads.find(t => t.id === action.payload.threadId);
+      const persona = state.personas.find(p => p.id === action.payload.personaId);
+      if (thread) {
+        thread.personaId = persona?.id;
+        thread.personaVersion = persona?.version;
+      }
+    },
+    addPersona: (state, action: PayloadAction<{ name: string; description?: string } & PersonaConfig>) => {
+      const now = new Date().toISOString();
+      state.personas.push({
+        ...action.payload,
+        id: createId('persona'),
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+        history: [],
+      });
+    },
+    // Any change to the prompt or model settings snapshots the previous
+    // configuration and bumps the version; renames do not.
+    updatePersona: (
+      state,
+      action: PayloadAction<{ id: string; updates: Partial<{ name: string; description?: string } & PersonaConfig> }>
+    ) => {
+      const persona = state.personas.find(p => p.id === action.payload.id);
+      if (!persona) return;
+
+      const { name, description, ...config } = action.payload.updates;
+      const current = resolvePersonaConfig(persona);
+      const changed = (Object.keys(config) as (keyof PersonaConfig)[])
+        .some(key => JSON.stringify(config[key]) !== JSON.stringify(current[key]));
+
+      if (changed) {
+        persona.history.push({ ...current, version: persona.version, updatedAt: persona.updatedAt });
+        Object.assign(persona, config);
+        persona.version += 1;
+      }
+      if (name !== undefined) persona.name = name;
+      if (description !== undefined) persona.description = description;
+      persona.updatedAt = new Date().toISOString();
+    },
+    restorePersonaVersion: (state, action: PayloadAction<{ id: string; version: number }>) => {
+      const persona = state.personas.find(p => p.id === action.payload.id);
+      const snapshot = persona?.history.find(entry => entry.version === action.payload.version);
+      if (!persona || !snapshot) return;
+
+      persona.history.push({ ...resolvePersonaConfig(persona), version: persona.version, updatedAt: persona.updatedAt });
+      const { version: _version, updatedAt: _updatedAt, ...config } = snapshot;
+      Object.assign(persona, config);
+      persona.version += 1;
+      persona.updatedAt = new Date().toISOString();
+    },
+    // Threads using a deleted persona keep its system prompt.
+    deletePersona: (state, action: PayloadAction<string>) => {
+      const persona = state.personas.find(p => p.id === action.payload);
+      if (!persona) return;
+      state.chatThreads.forEach(thread => {
+        if (thread.personaId === persona.id) {
+          thread.systemPrompt = resolvePersonaConfig(persona, thread.personaVersion).systemPrompt;
+          thread.personaId = undefined;
+          thread.personaVersion = undefined;
+        }
+      });
+      state.personas = state.personas.filter(p => p.id !== persona.id);
+    },
+    upsertToolCall: (state, action: PayloadAction<{ messageId: string; call: ChatToolCall }>) => {
+      const message = state.chatMessages.find(m => m.id === action.payload.messageId);
+      if (!message) return;
+      const calls = message.toolCalls || [];
+      const index = calls.findIndex(call => call.id === action.payload.call.id);
+      message.toolCalls = index === -1
+        ? [...calls, action.payload.call]
+        : calls.map((call, i) => (i === index ? action.payload.call : call));
+    },
+    setMessageFeedback: (
+      state,
+      action: PayloadAction<{ messageId: string; feedback: Pick<MessageFeedback, 'rating' | 'reasons' | 'correction'> | null }>
+    ) => {
+      const message = state.chatMessages.find(m => m.id === action.payload.messageId);
+      if (!message || message.role !== 'assistant') return;
+      if (!action.payload.feedback) {
+        message.feedback = undefined;
+        return;
+      }
+
+      const threadMessages = state.chatMessages.filter(m => m.threadId === message.threadId);
+      const question = getAncestry(threadMessages, message.id).reverse().find(m => m.role === 'user');
+      const now = new Date().toISOString();
+      message.feedback = {
+        ...action.payload.feedback,
+        correction: action.payload.feedback.correction?.trim() || undefined,
+        question: question?.content ?? '',
+        chunks: snapshotFeedbackChunks(message.promptContext?.chunks || [], state.dataSources, state.chatAttachments),
+        createdAt: message.feedback?.createdAt ?? now,
+        updatedAt: now,
+      };
+    },
+    addComparison: (state, action: PayloadAction<ModelComparison>) => {
+      state.comparisons.push(action.payload);
+    },
+    chooseComparisonWinner: (state, action: PayloadAction<{ comparisonId: string; messageId: string }>) => {
+      const comparison = state.comparisons.find(c => c.id === action.payload.comparisonId);
+      const thread = comparison && state.chatThreads.find(t => t.id === comparison.threadId);
+      if (!comparison || !comparison.candidates.some(c => c.messageId === action.payload.messageId)) return;
+      comparison.winnerMessageId = action.payload.messageId;
+      comparison.decidedAt = new Date().toISOString();
+      if (thread) {
+        thread.branchSelections = { ...thread.branchSelections, [getParentKey(comparison.questionId)]: action.payload.messageId };
       }
     },
+    clearThreadMessages: (state, action: PayloadAction<string>) => {
+      const thread = state.chatThreads.find(t => t.id === action.payload);
+      if (!thread) return;
+      state.chatMessages = state.chatMessages.filter(message => message.threadId !== thread.id);
+      thread.branchSelections = undefined;
+      thread.summary = undefined;
+      thread.messageCount = 0;
+      thread.lastMessage = undefined;
+      thread.updatedAt = new Date().toISOString();
+      state.comparisons = state.comparisons.filter(c => c.threadId !== thread.id || c.winnerMessageId);
+    },
+    importConversations: (state, action: PayloadAction<Array<{ thread: ChatThread; messages: ChatMessage[] }>>) => {
+      action.payload.forEach(({ thread, messages }) => {
+        state.chatMessages.push(...messages);
+        const existing = state.chatThreads.find(t => t.id === thread.id);
+        if (!existing) {
+          state.chatThreads.push(thread);
+          return;
+        }
+        // Re-import of a conversation that continued in the other tool
+        existing.branchSelections = { ...existing.branchSelections, ...thread.branchSelections };
+        existing.messageCount = state.chatMessages.filter(m => m.threadId === thread.id).length;
+        existing.lastMessage = thread.lastMessage;
+        if (thread.updatedAt > existing.updatedAt) existing.updatedAt = thread.updatedAt;
+      });
+    },
     deleteThread: (state, action: PayloadAction<string>) => {
-      state.chatThreads = state.chatThreads.filter(thread => thread.id !== action.payload);
-      state.chatMessages = state.chatMessages.filter(message => message.threadId !== action.payload);
-      if (state.currentThreadId === action.payload) {
-        state.currentThreadId = null;
+      removeThreads(state, [action.payload]);
+    },
+    deleteThreads: (state, action: PayloadAction<string[]>) => {
+      removeThreads(state, action.payload);
+    },
+    setThreadsArchived: (state, action: PayloadAction<{ threadIds: string[]; archived: boolean }>) => {
+      state.chatThreads
+        .filter(thread => action.payload.threadIds.includes(thread.id))
+        .forEach(thread => {
+          thread.archived = action.payload.archived;
+        });
+    },
+    moveThreads: (state, action: PayloadAction<{ threadIds: string[]; folderId: string | null }>) => {
+      state.chatThreads
+        .filter(thread => action.payload.threadIds.includes(thread.id))
+        .forEach(thread => {
+          thread.folderId = action.payload.folderId;
+        });
+    },
+    addThreadTag: (state, action: PayloadAction<{ threadIds: string[]; tag: string }>) => {
+      state.chatThreads
+        .filter(thread => action.payload.threadIds.includes(thread.id) && !thread.tags?.includes(action.payload.tag))
+        .forEach(thread => {
+          thread.tags = [...(thread.tags || []), action.payload.tag];
+        });
+    },
+    removeThreadTag: (state, action: PayloadAction<{ threadIds: string[]; tag: string }>) => {
+      state.chatThreads
+        .filter(thread => action.payload.threadIds.includes(thread.id))
+        .forEach(thread => {
+          thread.tags = thread.tags?.filter(tag => tag !== action.payload.tag);
+        });
+    },
+    createFolder: (state, action: PayloadAction<{ name: string; parentId?: string | null }>) => {
+      state.chatFolders.push({
+        id: createId('folder'),
+        name: action.payload.name,
+        parentId: action.payload.parentId ?? null,
+        createdAt: new Date().toISOString(),
+      });
+    },
+    renameFolder: (state, action: PayloadAction<{ folderId: string; name: string }>) => {
+      const folder = state.chatFolders.find(f => f.id === action.payload.folderId);
+      if (folder) {
+        folder.name = action.payload.name;
+      }
+    },
+    moveFolder: (state, action: PayloadAction<{ folderId: string; parentId: string | null }>) => {
+      const folder = state.chatFolders.find(f => f.id === action.payload.folderId);
+      if (folder && canMoveFolder(state.chatFolders, folder.id, action.payload.parentId)) {
+        folder.parentId = action.payload.parentId;
       }
     },
+    // Conversations and subfolders move up to the parent; nothing is deleted with the folder
+    deleteFolder: (state, action: PayloadAction<string>) => {
+      const folder = state.chatFolders.find(f => f.id === action.payload);
+      if (!folder) return;
+      state.chatFolders.forEach(f => {
+        if (f.parentId === folder.id) f.parentId = folder.parentId;
+      });
+      state.chatThreads.forEach(thread => {
+        if (thread.folderId === folder.id) thread.folderId = folder.parentId;
+      });
+      state.chatFolders = state.chatFolders.filter(f => f.id !== folder.id);
+    },
     clearChatHistory: (state) => {
       state.chatMessages = [];
+      state.chatAttachments = [];
+      state.messageEmbeddings = [];
+      state.comparisons = state.comparisons.filter(c => c.winnerMessageId);
       state.chatThreads = [];
       state.currentThreadId = null;
     },
+    setMessageEmbeddings: (state, action: PayloadAction<MessageEmbedding[]>) => {
+      const ids = new Set(action.payload.map(embedding => embedding.messageId));
+      state.messageEmbeddings = [
+        ...state.messageEmbeddings.filter(embedding => !ids.has(embedding.messageId)),
+        ...action.payload,
+      ];
+    },
     updateEmbeddings: (state, action: PayloadAction<{ sourceId: string; embeddings: DocumentEmbedding[] }>) => {
       // Remove old embeddings for this source
       state.documentEmbeddings = state.documentEmbeddings.filter(
@@ -402,6 +1649,7 @@ const appSlice = createSlice({
 });
 
 export const {
+  hydrateApp,
   setConnectionManager,
   setMCPStatuses,
   addMCPServer,
@@ -415,9 +1663,39 @@ export const {
   createNewThread,
   switchToThread,
   addChatMessage,
+  updateChatMessage,
+  appendChatMessageContent,
+  selectBranch,
+  revealMessage,
   updateThreadTitle,
+  importConversations,
   deleteThread,
+  deleteThreads,
+  setThreadsArchived,
+  moveThreads,
+  addThreadTag,
+  removeThreadTag,
+  createFolder,
+  renameFolder,
+  moveFolder,
+  deleteFolder,
+  addChatAttachment,
+  removeChatAttachment,
+  promoteChatAttachment,
+  setThreadSummary,
+  editThreadSummary,
+  setThreadPersona,
+  clearThreadMessages,
+  upsertToolCall,
+  setMessageFeedback,
+  addComparison,
+  chooseComparisonWinner,
+  addPersona,
+  updatePersona,
+  restorePersonaVersion,
+  deletePersona,
   clearChatHistory,
+  setMessageEmbeddings,
   updateEmbeddings,
   updateKnowledgeGraph,
   updateSettings,
@@ -1,4 +1,10 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { readEventStream, detectStreamFormat, StreamEventError } from '@/utils/streamParser';
+import { getParentId, getParentKey } from '@/utils/branches';
+import { countTokens } from '@/utils/tokenizer';
+import { calculateUsage, findModelPrice, MessageUsage } from '@/utils/usage';
+import { chatSearchIndex, SearchHit } from '@/utils/searchIndex';
+import type { AppState } from './appSlice';
 
 export interface ChatMessage {
   id: string;
@@ -6,6 +12,8 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   timestamp: string;
   threadId: string;
+  parentId?: string | null;
+  status?: 'streaming' | 'complete' | 'stopped' | 'error';
   sources?: {
     id: string;
     title: string;
@@ -15,8 +23,11 @@ export interface ChatMessage {
   metadata?: {
     model?: string;
     temperature?: number;
+    promptTokens?: number;
+    completionTokens?: number;
     tokens?: number;
     cost?: number;
+    tokensEstimated?: boolean;
   };
 }
 
@@ -31,6 +42,7 @@ export interface ChatThread {
   isFavorite?: boolean;
   tags?: string[];
   messageCount?: number;
+  branchSelections?: Record<string, string>;
 }
 
 export interface ChatState {
@@ -50,6 +62,7 @@ export interface ChatState {
   historySearch: {
     query: string;
     results: ChatMessage[];
+    hits: SearchHit[];
     loading: boolean;
   };
   historyFilters: {
@@ -82,6 +95,7 @@ const initialState: ChatState = {
   historySearch: {
     query: '',
     results: [],
+    hits: [],
     loading: false,
   },
   historyFilters: {
@@ -97,6 +111,36 @@ const initialState: ChatState = {
   },
 };
 
+// AbortControllers for in-flight generations, keyed by thread id. They are not
+// serializable, so they live beside the store rather than in it. A thread
+// normally has one generation at a time; comparisons stream several in
+// parallel.
+const streamControllers = new Map<string, Set<AbortController>>();
+
+export const trackStream = (threadId: string, signal?: AbortSignal, { parallel = false } = {}) => {
+  const controllers = streamControllers.get(threadId) ?? new Set<AbortController>();
+  if (!parallel) {
+    controllers.forEach(controller => controller.abort());
+    controllers.clear();
+  }
+  const controller = new AbortController();
+  signal?.addEventListener('abort', () => controller.abort());
+  controllers.add(controller);
+  streamControllers.set(threadId, controllers);
+  return controller;
+};
+
+export const releaseStream = (threadId: string, controller: AbortController) => {
+  const controllers = streamControllers.get(threadId);
+  controllers?.delete(controller);
+  if (controllers?.size === 0) {
+    streamControllers.delete(threadId);
+  }
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
 // Async thunks for chat API calls
 export const sendMessage = createAsyncThunk(
   'chat/sendMessage',
@@ -129,57 +173,94 @@ export const streamMessage = createAsyncThunk(
     message: string;
     model?: string;
     settings?: Partial<ChatState['settings']>;
-  }, { dispatch }) => {
-    const response = await fetch('/api/chat/stream', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(params),
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to stream message');
-    }
-    
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    
-    if (!reader) {
-      throw new Error('No response body');
-    }
-    
+  }, { dispatch, getState, signal }) => {
+    const controller = trackStream(params.threadId, signal);
     let fullResponse = '';
-    
-    while (true) {
-      const { done, value } = await reader.read();
+    let promptTokens: number | undefined;
+    let completionTokens: number | undefined;
+
+    // Providers report usage in the final event (OpenAI-style `usage` or
+    // Ollama's eval counts); anything missing is estimated locally.
+    const measureUsage = (): MessageUsage => {
+      const state = getState() as { chat: ChatState; app: AppState };
+      const model = params.model || state.chat.selectedModel;
+      return calculateUsage(
+        promptTokens ?? countTokens(params.message) + countTokens(params.settings?.systemPrompt ?? state.chat.settings.systemPrompt),
+        completionTokens ?? countTokens(fullResponse),
+        findModelPrice(state.app.settings.modelPrices, model),
+        promptTokens === undefined || completionTokens === undefined
+      );
+    };
+
+    try {
+      const response = await fetch('/api/chat/stream', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(params),
+        signal: controller.signal,
+      });
       
-      if (done) break;
+      if (!response.ok) {
+        throw new Error('Failed to stream message');
+      }
       
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n');
+      if (!response.body) {
+        throw new Error('No response body');
+      }
       
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') {
-            return fullResponse;
-          }
-          
-          try {
-            const parsed = JSON.parse(data);
-            if (parsed.content) {
-              fullResponse += parsed.content;
-              dispatch(updateStreamingMessage({ content: parsed.content }));
-            }
-          } catch (e) {
-            // Skip invalid JSON
-          }
+      for await (const event of readEventStream(response.body, detectStreamFormat(response))) {
+        if (event.data === '[DONE]') {
+          return { threadId: params.threadId, content: fullResponse, stopped: false, usage: measureUsage() };
+        }
+        
+        let parsed;
+        try {
+          parsed = JSON.parse(event.data);
+        } catch (e) {
+          // Skip invalid JSON
+          continue;
+        }
+        
+        if (parsed.error) {
+          throw new StreamEventError(
+            typeof parsed.error === 'string' ? parsed.error : parsed.error.message || 'Stream error',
+            event
+          );
+        }
+        
+        promptTokens = parsed.usage?.prompt_tokens ?? parsed.prompt_eval_count ?? promptTokens;
+        completionTokens = parsed.usage?.completion_tokens ?? parsed.eval_count ?? completionTokens;
+
+        const content = parsed.content ?? parsed.message?.content;
+        if (content) {
+          fullResponse += content;
+          dispatch(updateStreamingMessage({ threadId: params.threadId, content }));
         }
       }
+      
+      return { threadId: params.threadId, content: fullResponse, stopped: false, usage: measureUsage() };
+    } catch (error) {
+      if (isAbortError(error)) {
+        return { threadId: params.threadId, content: fullResponse, stopped: true, usage: measureUsage() };
+      }
+      throw error;
+    } finally {
+      releaseStream(params.threadId, controller);
     }
-    
-    return fullResponse;
+  }
+);
+
+export const cancelStream = createAsyncThunk(
+  'chat/cancelStream',
+  async (threadId: string | undefined) => {
+    if (threadId) {
+      streamControllers.get(threadId)?.forEach(controller => controller.abort());
+    } else {
+      streamControllers.forEach(controllers => controllers.forEach(controller => controller.abort()));
+    }
+    return threadId;
   }
 );
 
@@ -218,6 +299,8 @@ export const fetchThreads = createAsyncThunk(
 export const deleteThread = createAsyncThunk(
   'chat/deleteThread',
   async (threadId: string) => {
+    streamControllers.get(threadId)?.forEach(controller => controller.abort());
+
     const response = await fetch(`/api/chat/threads/${threadId}`, {
       method: 'DELETE',
     });
@@ -279,6 +362,8 @@ export const fetchChatHistory = createAsyncThunk(
   }
 );
 
+// Searches the local full-text index, bringing it up to date with the
+// messages in the store first
 export const searchChatHistory = createAsyncThunk(
   'chat/searchChatHistory',
   async (params: {
@@ -289,20 +374,18 @@ export const searchChatHistory = createAsyncThunk(
       threadIds?: string[];
     };
     limit?: number;
-  }) => {
-    const response = await fetch('/api/chat/history/search', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(params),
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to search chat history');
-    }
-    
-    return response.json();
+  }, { getState }) => {
+    const { app } = getState() as { app: AppState };
+    chatSearchIndex.sync(app.chatMessages);
+    const hits = chatSearchIndex.search(params.query, params.filters, params.limit);
+    const messages = new Map(app.chatMessages.map(message => [message.id, message]));
+    return {
+      hits,
+      results: hits.map((hit): ChatMessage => {
+        const { id, content, role, timestamp, threadId, parentId, status, metadata } = messages.get(hit.messageId);
+        return { id, content, role, timestamp, threadId, parentId, status, metadata };
+      }),
+    };
   }
 );
 
@@ -437,12 +520,20 @@ const chatSlice = createSlice({
         }
       }
     },
-    updateStreamingMessage: (state, action: PayloadAction<{ content: string }>) => {
-      const activeThread = state.threads.find(t => t.id === state.activeThreadId);
-      if (activeThread && activeThread.messages.length > 0) {
-        const lastMessage = activeThread.messages[activeThread.messages.length - 1];
+    selectBranch: (state, action: PayloadAction<{ threadId: string; messageId: string }>) => {
+      const thread = state.threads.find(t => t.id === action.payload.threadId);
+      if (thread && thread.messages.some(m => m.id === action.payload.messageId)) {
+        const parentId = getParentId(thread.messages, action.payload.messageId);
+        thread.branchSelections = { ...thread.branchSelections, [getParentKey(parentId)]: action.payload.messageId };
+      }
+    },
+    updateStreamingMessage: (state, action: PayloadAction<{ threadId?: string; content: string }>) => {
+      const thread = state.threads.find(t => t.id === (action.payload.threadId ?? state.activeThreadId));
+      if (thread && thread.messages.length > 0) {
+        const lastMessage = thread.messages[thread.messages.length - 1];
         if (lastMessage.role === 'assistant') {
           lastMessage.content += action.payload.content;
+          lastMessage.status = 'streaming';
         }
       }
     },
@@ -462,6 +553,7 @@ const chatSlice = createSlice({
     clearHistorySearch: (state) => {
       state.historySearch.query = '';
       state.historySearch.results = [];
+      state.historySearch.hits = [];
     },
     toggleThreadFavorite: (state, action: PayloadAction<string>) => {
       const thread = state.threads.find(t => t.id === action.payload);
@@ -511,12 +603,30 @@ const chatSlice = createSlice({
         state.streaming = true;
         state.error = null;
       })
-      .addCase(streamMessage.fulfilled, (state) => {
+      .addCase(streamMessage.fulfilled, (state, action) => {
         state.streaming = false;
+        const thread = state.threads.find(t => t.id === action.payload.threadId);
+        const lastMessage = thread?.messages[thread.messages.length - 1];
+        if (lastMessage?.role === 'assistant') {
+          lastMessage.status = action.payload.stopped ? 'stopped' : 'complete';
+          lastMessage.metadata = { ...lastMessage.metadata, ...action.payload.usage };
+        }
       })
       .addCase(streamMessage.rejected, (state, action) => {
         state.streaming = false;
         state.error = action.error.message || 'Failed to stream message';
+        const thread = state.threads.find(t => t.id === action.meta.arg.threadId);
+        const lastMessage = thread?.messages[thread.messages.length - 1];
+        if (lastMessage?.role === 'assistant') {
+          lastMessage.status = 'error';
+        }
+      })
+      
+      // Cancel stream
+      .addCase(cancelStream.fulfilled, (state, action) => {
+        if (!action.payload || action.payload === state.activeThreadId) {
+          state.streaming = false;
+        }
       })
       
       // Create thread
@@ -546,14 +656,17 @@ const chatSlice = createSlice({
         }
       })
       
-      // Regenerate response
+      // Regenerate response: the new answer becomes a sibling branch of the old one
       .addCase(regenerateResponse.fulfilled, (state, action) => {
         const thread = state.threads.find(t => t.id === action.payload.threadId);
-        if (thread) {
-          const messageIndex = thread.messages.findIndex(m => m.id === action.payload.oldMessageId);
-          if (messageIndex !== -1) {
-            thread.messages[messageIndex] = action.payload.newMessage;
-          }
+        if (thread && thread.messages.some(m => m.id === action.payload.oldMessageId)) {
+          const parentId = getParentId(thread.messages, action.payload.oldMessageId);
+          thread.messages.push({ ...action.payload.newMessage, parentId });
+          thread.branchSelections = {
+            ...thread.branchSelections,
+            [getParentKey(parentId)]: action.payload.newMessage.id,
+          };
+          thread.updatedAt = new Date().toISOString();
         }
       })
       
@@ -584,6 +697,7 @@ const chatSlice = createSlice({
       .addCase(searchChatHistory.fulfilled, (state, action) => {
         state.historySearch.loading = false;
         state.historySearch.results = action.payload.results;
+        state.historySearch.hits = action.payload.hits;
       })
       .addCase(searchChatHistory.rejected, (state, action) => {
         state.historySearch.loading = false;
@@ -626,6 +740,7 @@ export const {
   updateSettings,
   addMessage,
   updateMessage,
+  selectBranch,
   updateStreamingMessage,
   clearError,
   setHistorySearchQuery,
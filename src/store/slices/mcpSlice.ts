@@ -24,6 +24,8 @@ export interface MCPTool {
   description: string;
   parameters: Record<string, any>;
   enabled: boolean;
+  // Chat runs the tool without asking first
+  autoApprove?: boolean;
 }
 
 export interface MCPResource {
@@ -118,7 +120,10 @@ export const fetchServerTools = createAsyncThunk(
       throw new Error('Failed to fetch server tools');
     }
     
-    return response.json();
+    // Tools belong to the server they were listed by and start out enabled
+    const data = await response.json();
+    const tools: MCPTool[] = (data.tools || []).map((tool: MCPTool) => ({ enabled: true, ...tool, serverId }));
+    return { serverId, tools };
   }
 );
 
@@ -254,6 +259,12 @@ const mcpSlice = createSlice({
         tool.enabled = action.payload.enabled;
       }
     },
+    setToolAutoApprove: (state, action: PayloadAction<{ toolId: string; autoApprove: boolean }>) => {
+      const tool = state.tools.find(t => t.id === action.payload.toolId);
+      if (tool) {
+        tool.autoApprove = action.payload.autoApprove;
+      }
+    },
     clearError: (state) => {
       state.error = null;
     },
@@ -304,9 +315,13 @@ const mcpSlice = createSlice({
       
       // Fetch server tools
       .addCase(fetchServerTools.fulfilled, (state, action) => {
-        // Replace tools for the specific server
+        // Replace tools for the specific server, keeping approval choices
+        const autoApproved = new Set(state.tools.filter(t => t.autoApprove).map(t => t.id));
         state.tools = state.tools.filter(t => t.serverId !== action.payload.serverId);
-        state.tools.push(...action.payload.tools);
+        state.tools.push(...action.payload.tools.map((tool: MCPTool) => ({
+          ...tool,
+          autoApprove: tool.autoApprove ?? autoApproved.has(tool.id),
+        })));
       })
       
       // Execute tool
@@ -352,6 +367,7 @@ export const {
   addConnectionLog,
   updateServerMetrics,
   toggleTool,
+  setToolAutoApprove,
   clearError,
   clearLogs,
 } = mcpSlice.actions;
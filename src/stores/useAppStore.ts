@@ -12,9 +12,44 @@ import {
   createNewThread,
   switchToThread,
   addChatMessage,
+  generateChatResponse,
+  selectBranch,
+  revealMessage,
   updateThreadTitle,
   deleteThread,
+  deleteThreads,
+  setThreadsArchived,
+  moveThreads,
+  addThreadTag,
+  removeThreadTag,
+  createFolder,
+  renameFolder,
+  moveFolder,
+  deleteFolder,
   clearChatHistory,
+  addChatAttachment,
+  removeChatAttachment,
+  promoteChatAttachment,
+  summarizeThread,
+  generateThreadTitle,
+  retitleThreads,
+  checkGrounding,
+  generateFollowUps,
+  embedAnswers,
+  searchConversations,
+  setThreadSummary,
+  editThreadSummary,
+  setThreadPersona,
+  clearThreadMessages,
+  importConversations,
+  compareResponses,
+  chooseComparisonWinner,
+  setMessageFeedback,
+  resolveToolApproval,
+  addPersona,
+  updatePersona,
+  restorePersonaVersion,
+  deletePersona,
   updateEmbeddings,
   updateKnowledgeGraph,
   updateSettings,
@@ -31,10 +66,27 @@ import {
   type KnowledgeGraphLink,
   type ChatThread,
   type ChatMessage,
+  type ChatAttachment,
+  type Persona,
+  type PersonaConfig,
+  type CompareConfig,
+  type ModelComparison,
+  type MessageFeedback,
+  type FeedbackReason,
+  type ChatToolCall,
   type UploadedFile,
   type Settings,
 } from '@/store/slices/appSlice';
+import { cancelStream } from '@/store/slices/chatSlice';
+import { trackEvent } from '@/store/slices/analyticsSlice';
+import { setToolAutoApprove } from '@/store/slices/mcpSlice';
+import { getActivePath, getParentId, getSiblings } from '@/utils/branches';
+import type { ConversationFilters } from '@/utils/conversationSearch';
+import { getActiveSummary } from '@/utils/summarizer';
 import { MCPConnectionPoolManager } from '@/utils/mcpSimulation';
+import type { PdfExportOptions } from '@/utils/pdfExport';
+import { parseChatExport, planChatImport, readChatExportFile } from '@/utils/chatImport';
+import type { DocumentPage } from '@/utils/documentText';
 
 // Re-export types from the slice
 export type {
@@ -47,6 +99,14 @@ export type {
   KnowledgeGraphLink,
   ChatThread,
   ChatMessage,
+  ChatAttachment,
+  Persona,
+  PersonaConfig,
+  CompareConfig,
+  ModelComparison,
+  MessageFeedback,
+  FeedbackReason,
+  ChatToolCall,
   UploadedFile,
   Settings,
 };
@@ -61,9 +121,14 @@ export const useAppStore = () => {
     dataSources,
     uploadedFiles,
     chatThreads,
+    chatFolders,
     currentThreadId,
     chatMessages,
+    chatAttachments,
+    personas,
+    comparisons,
     documentEmbeddings,
+    messageEmbeddings,
     knowledgeGraph,
     settings,
     isRightPanelOpen,
@@ -85,9 +150,14 @@ export const useAppStore = () => {
     dataSources,
     uploadedFiles,
     chatThreads,
+    chatFolders,
     currentThreadId,
     chatMessages,
+    chatAttachments,
+    personas,
+    comparisons,
     documentEmbeddings,
+    messageEmbeddings,
     knowledgeGraph,
     settings,
     isRightPanelOpen,
@@ -204,33 +274,282 @@ export const useAppStore = () => {
     },
 
     // Chat actions
-    createNewThread: () => {
-      dispatch(createNewThread());
+    createNewThread: (personaId?: string) => {
+      if (currentThreadId) {
+        dispatch(cancelStream(currentThreadId));
+      }
+      dispatch(createNewThread({ personaId }));
       return currentThreadId || `thread-${Date.now()}`;
     },
     switchToThread: (threadId: string) => {
+      if (currentThreadId && currentThreadId !== threadId) {
+        dispatch(cancelStream(currentThreadId));
+      }
       dispatch(switchToThread(threadId));
     },
     addChatMessage: (message: Omit<ChatMessage, 'id' | 'threadId'>) => {
       dispatch(addChatMessage(message));
     },
+    generateChatResponse: (threadId?: string) => {
+      return dispatch(generateChatResponse({ threadId }));
+    },
+    retryChatResponse: (messageId: string) => {
+      return dispatch(generateChatResponse({ retryMessageId: messageId }));
+    },
+    regenerateChatResponse: (messageId: string) => {
+      return dispatch(generateChatResponse({ regenerateMessageId: messageId }));
+    },
+    editChatMessage: (messageId: string, content: string) => {
+      const original = chatMessages.find(m => m.id === messageId);
+      if (!original) return;
+      const threadMessages = chatMessages.filter(m => m.threadId === original.threadId);
+      dispatch(addChatMessage({
+        content,
+        role: 'user',
+        threadId: original.threadId,
+        parentId: getParentId(threadMessages, messageId),
+        timestamp: new Date().toISOString(),
+      }));
+      return dispatch(generateChatResponse({ threadId: original.threadId }));
+    },
+    // Asks for a summary of one data source or attachment, using its full
+    // content as context rather than search results.
+    summarizeSource: (sourceId: string) => {
+      const name = dataSources.find(s => s.id === sourceId)?.name
+        ?? chatAttachments.find(a => a.id === sourceId)?.name
+        ?? sourceId;
+      dispatch(addChatMessage({
+        content: `Summarize "${name}"`,
+        role: 'user',
+        timestamp: new Date().toISOString(),
+      }));
+      return dispatch(generateChatResponse({ contextSourceId: sourceId }));
+    },
+    selectBranch: (messageId: string) => {
+      dispatch(selectBranch({ messageId }));
+    },
+    revealMessage: (messageId: string) => {
+      const threadId = chatMessages.find(m => m.id === messageId)?.threadId;
+      if (currentThreadId && threadId && currentThreadId !== threadId) {
+        dispatch(cancelStream(currentThreadId));
+      }
+      dispatch(revealMessage({ messageId }));
+    },
+    getMessageSiblings: (messageId: string) => {
+      const message = chatMessages.find(m => m.id === messageId);
+      if (!message) return [];
+      return getSiblings(chatMessages.filter(m => m.threadId === message.threadId), messageId);
+    },
+    stopChatResponse: (threadId?: string) => {
+      dispatch(cancelStream(threadId ?? currentThreadId ?? undefined));
+    },
     updateThreadTitle: (threadId: string, title: string) => {
-      dispatch(updateThreadTitle({ threadId, title }));
+      dispatch(updateThreadTitle({ threadId, title, source: 'user' }));
+    },
+    generateThreadTitle: (threadId: string) => {
+      return dispatch(generateThreadTitle({ threadId, force: true }));
+    },
+    // Threads the user renamed by hand are skipped
+    retitleThreads: (threadIds?: string[]) => {
+      return dispatch(retitleThreads(threadIds ?? chatThreads.map(thread => thread.id)));
+    },
+    // Every answer without an up-to-date vector when no ids are given
+    embedAnswers: (messageIds?: string[]) => {
+      return dispatch(embedAnswers(messageIds));
+    },
+    searchConversations: (query: string, filters?: ConversationFilters) => {
+      return dispatch(searchConversations({ query, filters }));
     },
     deleteThread: (threadId: string) => {
+      dispatch(cancelStream(threadId));
       dispatch(deleteThread(threadId));
     },
+    deleteThreads: (threadIds: string[]) => {
+      threadIds.forEach(threadId => dispatch(cancelStream(threadId)));
+      dispatch(deleteThreads(threadIds));
+    },
+    archiveThreads: (threadIds: string[], archived = true) => {
+      dispatch(setThreadsArchived({ threadIds, archived }));
+    },
+    // null moves the conversations out of any folder
+    moveThreads: (threadIds: string[], folderId: string | null) => {
+      dispatch(moveThreads({ threadIds, folderId }));
+    },
+    tagThreads: (threadIds: string[], tag: string) => {
+      dispatch(addThreadTag({ threadIds, tag }));
+    },
+    untagThreads: (threadIds: string[], tag: string) => {
+      dispatch(removeThreadTag({ threadIds, tag }));
+    },
+    createFolder: (name: string, parentId: string | null = null) => {
+      dispatch(createFolder({ name, parentId }));
+    },
+    renameFolder: (folderId: string, name: string) => {
+      dispatch(renameFolder({ folderId, name }));
+    },
+    moveFolder: (folderId: string, parentId: string | null) => {
+      dispatch(moveFolder({ folderId, parentId }));
+    },
+    deleteFolder: (folderId: string) => {
+      dispatch(deleteFolder(folderId));
+    },
+    clearThreadMessages: (threadId: string) => {
+      dispatch(cancelStream(threadId));
+      dispatch(clearThreadMessages(threadId));
+    },
     clearChatHistory: () => {
+      dispatch(cancelStream(undefined));
       dispatch(clearChatHistory());
     },
-    getCurrentThreadMessages: () => {
+    // Imports a ChatGPT or Claude export; re-importing only adds new messages.
+    importChatHistory: async (file: File) => {
+      const parsed = parseChatExport(await readChatExportFile(file));
+      const { conversations, report } = planChatImport(parsed, chatThreads, chatMessages);
+      if (conversations.length > 0) {
+        dispatch(importConversations(conversations));
+      }
+      dispatch(trackEvent({
+        event: 'chats_imported',
+        properties: {
+          source: report.source,
+          imported: report.imported,
+          updated: report.updated,
+          messages: report.messages,
+          skipped: report.skipped.length,
+        },
+      }));
+      return report;
+    },
+    attachFileToThread: (file: { name: string; size: number; type: string; pages: DocumentPage[] }, threadId?: string) => {
+      dispatch(addChatAttachment({ ...file, threadId }));
+    },
+    removeChatAttachment: (attachmentId: string) => {
+      dispatch(removeChatAttachment(attachmentId));
+    },
+    promoteChatAttachment: (attachmentId: string) => {
+      dispatch(promoteChatAttachment(attachmentId));
+    },
+    getCurrentThreadAttachments: () => {
       if (!currentThreadId) return [];
-      return chatMessages.filter(message => message.threadId === currentThreadId);
+      return chatAttachments.filter(attachment => attachment.threadId === currentThreadId);
     },
-    exportChatAsMarkdown: () => {
+    summarizeThread: (threadId?: string) => {
+      const targetId = threadId ?? currentThreadId;
+      if (!targetId) return;
+      return dispatch(summarizeThread({ threadId: targetId, force: true }));
+    },
+    editThreadSummary: (threadId: string, content: string) => {
+      dispatch(editThreadSummary({ threadId, content }));
+    },
+    clearThreadSummary: (threadId: string) => {
+      dispatch(setThreadSummary({ threadId, summary: undefined }));
+    },
+    // The summary the model will see on the next reply, if any
+    getCurrentThreadSummary: () => {
+      if (!currentThreadId) return undefined;
+      const thread = chatThreads.find(t => t.id === currentThreadId);
+      const path = getActivePath(
+        chatMessages.filter(message => message.threadId === currentThreadId),
+        thread?.branchSelections
+      );
+      return getActiveSummary(thread?.summary, path);
+    },
+    // Persona actions
+    addPersona: (persona: { name: string; description?: string } & PersonaConfig) => {
+      dispatch(addPersona(persona));
+    },
+    updatePersona: (id: string, updates: Partial<{ name: string; description?: string } & PersonaConfig>) => {
+      dispatch(updatePersona({ id, updates }));
+    },
+    restorePersonaVersion: (id: string, version: number) => {
+      dispatch(restorePersonaVersion({ id, version }));
+    },
+    deletePersona: (id: string) => {
+      dispatch(deletePersona(id));
+    },
+    setThreadPersona: (threadId: string, personaId: string | null) => {
+      dispatch(setThreadPersona({ threadId, personaId }));
+    },
+    getCurrentPersona: () => {
+      const thread = chatThreads.find(t => t.id === currentThreadId);
+      return thread?.personaId ? personas.find(p => p.id === thread.personaId) : undefined;
+    },
+    checkGrounding: (messageId: string) => {
+      return dispatch(checkGrounding(messageId));
+    },
+    // Tool call actions
+    approveToolCall: (callId: string, approved: boolean) => {
+      resolveToolApproval(callId, approved);
+    },
+    // Approves this call and every later call of the same tool
+    alwaysApproveTool: (callId: string, toolId: string) => {
+      dispatch(setToolAutoApprove({ toolId, autoApprove: true }));
+      resolveToolApproval(callId, true);
+    },
+    // Pass null to remove the rating
+    rateMessage: (messageId: string, feedback: Pick<MessageFeedback, 'rating' | 'reasons' | 'correction'> | null) => {
+      const message = chatMessages.find(m => m.id === messageId);
+      if (!message) return;
+
+      dispatch(setMessageFeedback({ messageId, feedback }));
+      const chunks = message.promptContext?.chunks || [];
+      dispatch(trackEvent({
+        event: feedback ? 'answer_feedback' : 'answer_feedback_removed',
+        properties: {
+          messageId,
+          threadId: message.threadId,
+          model: message.metadata?.model,
+          ...feedback,
+          chunkIds: chunks.map(chunk => chunk.chunkId),
+          sourceIds: Array.from(new Set(chunks.map(chunk => chunk.sourceId))),
+        },
+      }));
+    },
+    // Comparison actions
+    compareResponses: (configs: CompareConfig[]) => {
+      return dispatch(compareResponses(configs));
+    },
+    chooseComparisonWinner: (comparisonId: string, messageId: string) => {
+      const comparison = comparisons.find(c => c.id === comparisonId);
+      const winner = comparison?.candidates.find(c => c.messageId === messageId);
+      if (!comparison || !winner) return;
+
+      dispatch(chooseComparisonWinner({ comparisonId, messageId }));
+      dispatch(trackEvent({
+        event: 'comparison_winner_selected',
+        properties: {
+          comparisonId,
+          winner: winner.label,
+          candidates: comparison.candidates.map(c => c.label),
+        },
+      }));
+      dispatch(generateFollowUps(messageId));
+      dispatch(embedAnswers([messageId]));
+      dispatch(summarizeThread({ threadId: comparison.threadId }));
+      if (!chatThreads.find(t => t.id === comparison.threadId)?.titleSource) {
+        dispatch(generateThreadTitle({ threadId: comparison.threadId }));
+      }
+    },
+    getCurrentThreadComparisons: () => {
+      return comparisons.filter(comparison => comparison.threadId === currentThreadId);
+    },
+    getCurrentThreadMessages: () => {
+      if (!currentThreadId) return [];
+      const thread = chatThreads.find(t => t.id === currentThreadId);
+      return getActivePath(
+        chatMessages.filter(message => message.threadId === currentThreadId),
+        thread?.branchSelections
+      );
+    },
+    // Exports the active branch of a thread, or of every thread when none is given
+    exportChatAsMarkdown: (threadId?: string) => {
       let markdown = '# Chat Export\n\n';
+      const threads = threadId ? chatThreads.filter(t => t.id === threadId) : chatThreads;
+      const messages = threads.flatMap(thread =>
+        getActivePath(chatMessages.filter(m => m.threadId === thread.id), thread.branchSelections)
+      );
       
-      chatMessages.forEach(msg => {
+      messages.forEach(msg => {
         const timestamp = new Date(msg.timestamp).toLocaleString();
         markdown += `## ${msg.role === 'user' ? 'User' : 'Assistant'} - ${timestamp}\n\n`;
         markdown += `${msg.content}\n\n`;
@@ -248,20 +567,22 @@ export const useAppStore = () => {
       
       return markdown;
     },
-    exportChatAsPDF: () => {
-      const markdown = chatMessages.length > 0 ? 'Export functionality' : 'No chat to export';
-      const blob = new Blob([markdown], { type: 'text/markdown' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `chat-export-${Date.now()}.md`;
-      a.click();
-      URL.revokeObjectURL(url);
+    // Exports the active branch of each thread; all threads when none are given.
+    exportChatAsPDF: async (threadIds?: string[], options: PdfExportOptions = { includeChunks: false }) => {
+      const threads = threadIds ? chatThreads.filter(t => threadIds.includes(t.id)) : chatThreads;
+      const { buildPdfConversation, exportConversationsToPdf } = await import('@/utils/pdfExport');
+      const conversations = threads
+        .map(thread => buildPdfConversation(thread, chatMessages.filter(m => m.threadId === thread.id)))
+        .filter(conversation => conversation.messages.length > 0);
+      if (conversations.length === 0) {
+        throw new Error('There are no messages to export.');
+      }
+      return exportConversationsToPdf(conversations, options);
     },
 
     // RAG actions
-    semanticSearch: (query: string) => {
-      return dispatch(semanticSearch(query));
+    semanticSearch: (query: string, threadId?: string) => {
+      return dispatch(semanticSearch({ query, threadId }));
     },
     updateEmbeddings: (sourceId: string, embeddings: DocumentEmbedding[]) => {
       dispatch(updateEmbeddings({ sourceId, embeddings }));
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { getActivePath, getAncestry, getParentId, getSiblings, ROOT_BRANCH } from './branches';
+
+// q1 ─ a1 ─ q2 ─ a2
+//    └ a1b    └ q2b ─ a2b
+const messages = [
+  { id: 'q1', parentId: null },
+  { id: 'a1', parentId: 'q1' },
+  { id: 'q2', parentId: 'a1' },
+  { id: 'a2', parentId: 'q2' },
+  { id: 'a1b', parentId: 'q1' },
+  { id: 'q2b', parentId: 'a1' },
+  { id: 'a2b', parentId: 'q2b' },
+];
+
+const ids = (list: { id: string }[]) => list.map(m => m.id);
+
+describe('getActivePath', () => {
+  it('follows the most recently added child at each fork by default', () => {
+    expect(ids(getActivePath(messages))).toEqual(['q1', 'a1b']);
+  });
+
+  it('follows the selected child at each fork', () => {
+    expect(ids(getActivePath(messages, { q1: 'a1' }))).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+    expect(ids(getActivePath(messages, { q1: 'a1', a1: 'q2' }))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('falls back to the latest child when a selection no longer exists', () => {
+    expect(ids(getActivePath(messages, { q1: 'deleted' }))).toEqual(['q1', 'a1b']);
+  });
+
+  it('chains legacy messages without parentId in order', () => {
+    const legacy = [{ id: 'm1' }, { id: 'm2' }, { id: 'm3' }];
+    expect(ids(getActivePath(legacy))).toEqual(['m1', 'm2', 'm3']);
+    expect(getParentId(legacy, 'm3')).toBe('m2');
+    expect(getParentId(legacy, 'm1')).toBeNull();
+  });
+
+  it('handles root-level forks and empty threads', () => {
+    const forked = [{ id: 'q1', parentId: null }, { id: 'q1b', parentId: null }];
+    expect(ids(getActivePath(forked, { [ROOT_BRANCH]: 'q1' }))).toEqual(['q1']);
+    expect(getActivePath([])).toEqual([]);
+  });
+});
+
+describe('getAncestry', () => {
+  it('returns the chain from the root down to the message', () => {
+    expect(ids(getAncestry(messages, 'a2b'))).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+    expect(ids(getAncestry(messages, 'q1'))).toEqual(['q1']);
+  });
+
+  it('returns nothing for unknown or missing ids', () => {
+    expect(getAncestry(messages, 'missing')).toEqual([]);
+    expect(getAncestry(messages, null)).toEqual([]);
+  });
+});
+
+describe('getSiblings', () => {
+  it('lists messages sharing a parent', () => {
+    expect(ids(getSiblings(messages, 'q2'))).toEqual(['q2', 'q2b']);
+    expect(ids(getSiblings(messages, 'a2'))).toEqual(['a2']);
+  });
+});
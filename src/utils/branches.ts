@@ -0,0 +1,65 @@
+// Messages form a tree through parentId; a thread remembers which child is
+// selected under each parent. Messages created before branching existed have
+// no parentId and are chained to the message before them.
+
+export const ROOT_BRANCH = 'root';
+
+interface BranchNode {
+  id: string;
+  parentId?: string | null;
+}
+
+export const getParentKey = (parentId: string | null | undefined) => parentId ?? ROOT_BRANCH;
+
+const resolveParents = <T extends BranchNode>(messages: T[]) =>
+  messages.map((message, i) => ({
+    message,
+    parentId: message.parentId !== undefined ? message.parentId : (i > 0 ? messages[i - 1].id : null),
+  }));
+
+export const getParentId = <T extends BranchNode>(messages: T[], messageId: string): string | null => {
+  const entry = resolveParents(messages).find(e => e.message.id === messageId);
+  return entry ? entry.parentId : null;
+};
+
+export const getSiblings = <T extends BranchNode>(messages: T[], messageId: string): T[] => {
+  const resolved = resolveParents(messages);
+  const parentId = resolved.find(e => e.message.id === messageId)?.parentId ?? null;
+  return resolved.filter(e => e.parentId === parentId).map(e => e.message);
+};
+
+// The visible conversation: walks from the root following the selected
+// child at each fork, defaulting to the most recently added child.
+export const getActivePath = <T extends BranchNode>(
+  messages: T[],
+  selections: Record<string, string> = {}
+): T[] => {
+  const children = new Map<string, T[]>();
+  resolveParents(messages).forEach(({ message, parentId }) => {
+    const key = getParentKey(parentId);
+    children.set(key, [...(children.get(key) || []), message]);
+  });
+
+  const path: T[] = [];
+  let key = ROOT_BRANCH;
+  while (children.has(key)) {
+    const options = children.get(key)!;
+    const next = options.find(m => m.id === selections[key]) ?? options[options.length - 1];
+    path.push(next);
+    key = next.id;
+  }
+  return path;
+};
+
+// Ancestors of a message from the root down, including the message itself.
+export const getAncestry = <T extends BranchNode>(messages: T[], messageId: string | null): T[] => {
+  const resolved = resolveParents(messages);
+  const byId = new Map(resolved.map(e => [e.message.id, e]));
+  const chain: T[] = [];
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current) {
+    chain.unshift(current.message);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+};
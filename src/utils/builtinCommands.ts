@@ -0,0 +1,169 @@
+import { executeTool } from '@/store/slices/mcpSlice';
+import { registerSlashCommand, SlashCommandContext } from '@/utils/slashCommands';
+import { truncateToTokens } from '@/utils/tokenizer';
+
+const matches = (text: string, query: string) => text.toLowerCase().includes(query.toLowerCase());
+
+const contextSources = ({ app }: SlashCommandContext) => [
+  ...app.dataSources.map(source => ({ id: source.id, name: source.name, chunks: source.chunks?.length ?? 0 })),
+  ...app.chatAttachments
+    .filter(attachment => attachment.threadId === app.currentThreadId)
+    .map(attachment => ({ id: attachment.id, name: attachment.name, chunks: attachment.chunks.length })),
+];
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+registerSlashCommand({
+  name: 'search',
+  description: 'Search your sources and paste the results into the message',
+  usage: '/search <query>',
+  requiresArgs: true,
+  run: async (query, context) => {
+    const { app } = context;
+    const results = await app.semanticSearch(query, app.currentThreadId ?? undefined).unwrap();
+    if (results.length === 0) {
+      context.notify({ title: 'No results', description: `Nothing in your sources matches "${query}".` });
+      return;
+    }
+
+    const names = Object.fromEntries(contextSources(context).map(source => [source.id, source.name]));
+    const excerpts = results.map((chunk, i) =>
+      `[${i + 1}] ${names[chunk.sourceId] ?? chunk.sourceId}: ${truncateToTokens(chunk.content.replace(/\s+/g, ' '), 80)}`
+    );
+    context.setInput(`Search results for "${query}":\n\n${excerpts.join('\n\n')}\n\n`);
+  },
+});
+
+registerSlashCommand({
+  name: 'summarize',
+  description: 'Summarize a data source or attached file',
+  usage: '/summarize <source>',
+  requiresArgs: true,
+  suggest: (query, context) =>
+    contextSources(context)
+      .filter(source => matches(source.name, query))
+      .map(source => ({ value: source.name, label: source.name, description: `${source.chunks} chunks` })),
+  run: (name, context) => {
+    const source = contextSources(context).find(s => s.name.toLowerCase() === name.toLowerCase() || s.id === name);
+    if (!source) {
+      context.notify({ title: 'Unknown source', description: `No data source named "${name}".`, variant: 'destructive' });
+      return;
+    }
+    if (source.chunks === 0) {
+      context.notify({ title: 'Nothing to summarize', description: `${source.name} has no indexed content yet.`, variant: 'destructive' });
+      return;
+    }
+    context.app.summarizeSource(source.id);
+  },
+});
+
+registerSlashCommand({
+  name: 'tool',
+  description: 'Run an MCP tool and post its result',
+  usage: '/tool <name> {"arg": "value"}',
+  requiresArgs: true,
+  suggest: (query, context) =>
+    context.getState().mcp.tools
+      .filter(tool => tool.enabled && matches(tool.name, query.split(/\s/)[0]))
+      .map(tool => ({ value: `${tool.name} `, label: tool.name, description: tool.description })),
+  run: async (args, context) => {
+    const [, name, rawParameters] = args.match(/^(\S+)\s*([\s\S]*)$/) || [];
+    const tool = context.getState().mcp.tools.find(t => t.name === name && t.enabled);
+    if (!tool) {
+      context.notify({ title: 'Unknown tool', description: `No enabled MCP tool named "${name}".`, variant: 'destructive' });
+      return;
+    }
+
+    let parameters: Record<string, unknown> = {};
+    try {
+      parameters = rawParameters.trim() ? JSON.parse(rawParameters) : {};
+    } catch {
+      context.notify({ title: 'Invalid arguments', description: 'Tool arguments must be a JSON object.', variant: 'destructive' });
+      return;
+    }
+
+    const result = await context.dispatch(executeTool({ serverId: tool.serverId, toolId: tool.id, parameters })).unwrap();
+    context.app.addChatMessage({
+      content: `/tool ${args}`,
+      role: 'user',
+      timestamp: new Date().toISOString(),
+    });
+    context.app.addChatMessage({
+      content: `**${tool.name}** returned:\n\n\`\`\`json\n${JSON.stringify(result, null, 2)}\n\`\`\``,
+      role: 'assistant',
+      status: 'complete',
+      timestamp: new Date().toISOString(),
+    });
+  },
+});
+
+registerSlashCommand({
+  name: 'persona',
+  description: 'Switch the persona of this conversation',
+  usage: '/persona <name>',
+  suggest: (query, { app }) => [
+    { value: 'default', label: 'Default assistant' },
+    ...app.personas.map(persona => ({ value: persona.name, label: persona.name, description: persona.description })),
+  ].filter(option => matches(option.label, query)),
+  run: (name, context) => {
+    const { app } = context;
+    if (!name) {
+      context.navigate('/personas');
+      return;
+    }
+
+    const persona = app.personas.find(p => p.name.toLowerCase() === name.toLowerCase());
+    if (!persona && name.toLowerCase() !== 'default') {
+      context.notify({ title: 'Unknown persona', description: `No persona named "${name}".`, variant: 'destructive' });
+      return;
+    }
+    if (app.currentThreadId) {
+      app.setThreadPersona(app.currentThreadId, persona?.id ?? null);
+    } else {
+      app.createNewThread(persona?.id);
+    }
+    context.notify({ title: 'Persona changed', description: `Now chatting as ${persona?.name ?? 'the default assistant'}.` });
+  },
+});
+
+registerSlashCommand({
+  name: 'clear',
+  description: 'Remove all messages from this conversation',
+  run: (_args, context) => {
+    const { app } = context;
+    if (!app.currentThreadId) return;
+    app.clearThreadMessages(app.currentThreadId);
+    context.notify({ title: 'Conversation cleared' });
+  },
+});
+
+registerSlashCommand({
+  name: 'export',
+  description: 'Download this conversation as Markdown or PDF',
+  usage: '/export [pdf]',
+  suggest: (query) => [
+    { value: 'md', label: 'Markdown' },
+    { value: 'pdf', label: 'PDF', description: 'With numbered references' },
+  ].filter(option => matches(option.value, query)),
+  run: async (format, context) => {
+    const { app } = context;
+    if (!app.currentThreadId) {
+      context.notify({ title: 'Nothing to export', variant: 'destructive' });
+      return;
+    }
+    if (format.trim().toLowerCase() === 'pdf') {
+      const filename = await app.exportChatAsPDF([app.currentThreadId]);
+      context.notify({ title: 'PDF exported', description: filename });
+      return;
+    }
+    downloadFile(app.exportChatAsMarkdown(app.currentThreadId), `chat-export-${Date.now()}.md`, 'text/markdown');
+  },
+});
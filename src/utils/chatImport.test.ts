@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { parseChatExport, planChatImport, readChatExportFile } from './chatImport';
+import { getActivePath } from './branches';
+import { createZip } from '@/test/files';
+
+interface NodeFixture {
+  id: string;
+  parent: string | null;
+  message?: object;
+}
+
+const chatGPTNode = (id: string, parent: string | null, role: string, text: string, time: number, extra = {}): NodeFixture => ({
+  id,
+  parent,
+  message: {
+    id,
+    author: { role },
+    create_time: time,
+    content: { content_type: 'text', parts: [text] },
+    ...extra,
+  },
+});
+
+const chatGPTExport = (nodes: NodeFixture[], currentNode: string) => [{
+  conversation_id: 'conv-1',
+  title: 'Trip planning',
+  create_time: 1700000000,
+  update_time: 1700000100,
+  default_model_slug: 'gpt-4o',
+  current_node: currentNode,
+  mapping: Object.fromEntries(nodes.map(node => [node.id, node])),
+}];
+
+const baseNodes: NodeFixture[] = [
+  { id: 'root', parent: null },
+  chatGPTNode('sys', 'root', 'system', 'You are helpful', 1700000000),
+  chatGPTNode('q1', 'sys', 'user', 'Where should I go?', 1700000010),
+  chatGPTNode('a1', 'q1', 'assistant', 'Try Lisbon.', 1700000020),
+  chatGPTNode('a1b', 'q1', 'assistant', 'Try Porto.', 1700000030),
+  chatGPTNode('tool', 'a1b', 'assistant', 'search("porto")', 1700000040, { recipient: 'browser' }),
+  chatGPTNode('q2', 'tool', 'user', 'And for food?', 1700000050),
+];
+
+const claudeExport = (messages: object[]) => [{
+  uuid: 'c1',
+  name: 'Recipes',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:10:00.000Z',
+  chat_messages: messages,
+}];
+
+describe('parseChatExport', () => {
+  it('rebuilds a ChatGPT tree, skipping system and tool nodes', () => {
+    const { source, conversations } = parseChatExport(chatGPTExport(baseNodes, 'q2'));
+    expect(source).toBe('chatgpt');
+
+    const [{ thread, messages, droppedMessages }] = conversations;
+    expect(thread).toMatchObject({ id: 'chatgpt-conv-1', title: 'Trip planning', importedFrom: 'chatgpt', messageCount: 4 });
+    expect(droppedMessages).toBe(1);
+    expect(messages.map(m => [m.id, m.parentId])).toEqual([
+      ['chatgpt-q1', null],
+      ['chatgpt-a1', 'chatgpt-q1'],
+      ['chatgpt-a1b', 'chatgpt-q1'],
+      ['chatgpt-q2', 'chatgpt-a1b'],
+    ]);
+    expect(messages[1].metadata?.model).toBe('gpt-4o');
+  });
+
+  it('selects the branch that leads to the current node', () => {
+    const [{ thread, messages }] = parseChatExport(chatGPTExport(baseNodes, 'q2')).conversations;
+    expect(getActivePath(messages, thread.branchSelections).map(m => m.id)).toEqual([
+      'chatgpt-q1',
+      'chatgpt-a1b',
+      'chatgpt-q2',
+    ]);
+  });
+
+  it('links Claude messages by parent uuid and falls back to list order', () => {
+    const { source, conversations } = parseChatExport(claudeExport([
+      { uuid: 'm1', sender: 'human', text: 'Soup ideas?', created_at: '2026-01-01T00:01:00.000Z' },
+      { uuid: 'm2', sender: 'assistant', content: [{ type: 'text', text: 'Minestrone.' }], created_at: '2026-01-01T00:02:00.000Z' },
+      { uuid: 'm3', sender: 'human', text: '', created_at: '2026-01-01T00:03:00.000Z' },
+      { uuid: 'm4', sender: 'human', text: 'Something cold?', created_at: '2026-01-01T00:04:00.000Z' },
+    ]));
+    expect(source).toBe('claude');
+    expect(conversations[0].droppedMessages).toBe(1);
+    expect(conversations[0].messages.map(m => [m.id, m.role, m.parentId])).toEqual([
+      ['claude-m1', 'user', null],
+      ['claude-m2', 'assistant', 'claude-m1'],
+      ['claude-m4', 'user', 'claude-m2'],
+    ]);
+  });
+
+  it('skips conversations without text and rejects unknown files', () => {
+    const { conversations, skipped } = parseChatExport([
+      ...claudeExport([{ uuid: 'm1', sender: 'human', text: 'Hi' }]),
+      { uuid: 'c2', name: 'Empty', chat_messages: [] },
+    ]);
+    expect(conversations).toHaveLength(1);
+    expect(skipped).toEqual([{ title: 'Empty', reason: 'No text messages' }]);
+    expect(() => parseChatExport({ messages: [] })).toThrow('not a ChatGPT or Claude conversation export');
+  });
+});
+
+describe('planChatImport', () => {
+  it('imports everything the first time', () => {
+    const { conversations, report } = planChatImport(parseChatExport(chatGPTExport(baseNodes, 'q2')), [], []);
+    expect(conversations[0].messages).toHaveLength(4);
+    expect(report).toMatchObject({ source: 'chatgpt', imported: 1, updated: 0, messages: 4, skipped: [] });
+  });
+
+  it('skips a conversation that was already imported', () => {
+    const first = planChatImport(parseChatExport(chatGPTExport(baseNodes, 'q2')), [], []).conversations[0];
+    const { conversations, report } = planChatImport(
+      parseChatExport(chatGPTExport(baseNodes, 'q2')),
+      [first.thread],
+      first.messages
+    );
+    expect(conversations).toEqual([]);
+    expect(report).toMatchObject({ imported: 0, updated: 0, messages: 0 });
+    expect(report.skipped).toEqual([{ title: 'Trip planning', reason: 'Already imported' }]);
+  });
+
+  it('adds only new messages when a conversation continued since', () => {
+    const first = planChatImport(parseChatExport(chatGPTExport(baseNodes, 'q2')), [], []).conversations[0];
+    const continued = [...baseNodes, chatGPTNode('a2', 'q2', 'assistant', 'Francesinha.', 1700000060)];
+    const { conversations, report } = planChatImport(
+      parseChatExport(chatGPTExport(continued, 'a2')),
+      [first.thread],
+      first.messages
+    );
+    expect(conversations[0].messages.map(m => m.id)).toEqual(['chatgpt-a2']);
+    expect(report).toMatchObject({ imported: 0, updated: 1, messages: 1 });
+  });
+});
+
+describe('readChatExportFile', () => {
+  it('reads conversations.json from an export archive', async () => {
+    const json = chatGPTExport(baseNodes, 'q2');
+    const archive = createZip({ 'user.json': '{}', 'export/conversations.json': JSON.stringify(json) });
+    const file = new File([archive], 'export.zip');
+    expect(await readChatExportFile(file)).toEqual(json);
+  });
+
+  it('reports archives without conversations and invalid JSON', async () => {
+    await expect(readChatExportFile(new File([createZip({ 'user.json': '{}' })], 'export.zip')))
+      .rejects.toThrow('does not contain a conversations.json');
+    await expect(readChatExportFile(new File(['{oops'], 'conversations.json')))
+      .rejects.toThrow('conversations.json is not valid JSON.');
+  });
+});
@@ -0,0 +1,334 @@
+import type { ChatMessage, ChatThread } from '@/store/slices/appSlice';
+import { getParentKey } from '@/utils/branches';
+import { fallbackTitle } from '@/utils/titles';
+import { isZipFile, listZipEntries, readZipEntryText } from '@/utils/zip';
+
+export type ImportSource = 'chatgpt' | 'claude';
+
+export interface ImportedConversation {
+  thread: ChatThread;
+  messages: ChatMessage[];
+  // Messages without text (images, tool calls, hidden system turns)
+  droppedMessages: number;
+}
+
+export interface ImportSkip {
+  title: string;
+  reason: string;
+}
+
+export interface ChatImportReport {
+  source: ImportSource;
+  imported: number;
+  updated: number;
+  messages: number;
+  droppedMessages: number;
+  skipped: ImportSkip[];
+}
+
+interface ParsedExport {
+  source: ImportSource;
+  conversations: ImportedConversation[];
+  skipped: ImportSkip[];
+}
+
+// ChatGPT conversations.json: each conversation is a tree of nodes keyed by id
+interface ChatGPTNode {
+  id: string;
+  parent?: string | null;
+  message?: {
+    id: string;
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[] };
+    metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+    recipient?: string;
+  } | null;
+}
+
+interface ChatGPTConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  mapping: Record<string, ChatGPTNode>;
+  current_node?: string;
+  default_model_slug?: string;
+}
+
+// Claude export: messages are listed in order, newer exports add parent links
+interface ClaudeMessage {
+  uuid: string;
+  text?: string;
+  content?: Array<{ type?: string; text?: string }>;
+  sender?: string;
+  created_at?: string;
+  parent_message_uuid?: string;
+}
+
+interface ClaudeConversation {
+  uuid: string;
+  name?: string;
+  created_at?: string;
+  updated_at?: string;
+  model?: string;
+  chat_messages: ClaudeMessage[];
+}
+
+const CLAUDE_ROOT_UUID = '00000000-0000-4000-8000-000000000000';
+
+const fromUnixSeconds = (seconds?: number | null) =>
+  seconds ? new Date(seconds * 1000).toISOString() : undefined;
+
+const byTimestamp = (a: ChatMessage, b: ChatMessage) => a.timestamp.localeCompare(b.timestamp);
+
+const buildThread = (
+  id: string,
+  title: string | undefined,
+  messages: ChatMessage[],
+  createdAt: string | undefined,
+  updatedAt: string | undefined,
+  branchSelections?: Record<string, string>
+): ChatThread => {
+  const firstQuestion = messages.find(m => m.role === 'user')?.content ?? '';
+  return {
+    id,
+    title: title?.trim() || fallbackTitle(firstQuestion),
+    // Keeps the other tool's title from being replaced by "Retitle"
+    titleSource: 'user',
+    createdAt: createdAt ?? messages[0]?.timestamp ?? new Date().toISOString(),
+    updatedAt: updatedAt ?? messages[messages.length - 1]?.timestamp ?? new Date().toISOString(),
+    messageCount: messages.length,
+    lastMessage: messages[messages.length - 1]?.content.slice(0, 100),
+    branchSelections,
+  };
+};
+
+const chatGPTText = (node: ChatGPTNode) => {
+  const content = node.message?.content;
+  if (content?.content_type !== 'text' && content?.content_type !== 'multimodal_text') return '';
+  return (content.parts || []).filter((part): part is string => typeof part === 'string').join('\n').trim();
+};
+
+const parseChatGPTConversation = (conversation: ChatGPTConversation): ImportedConversation => {
+  const sourceId = conversation.conversation_id || conversation.id || String(conversation.create_time);
+  const threadId = `chatgpt-${sourceId}`;
+  const nodes = conversation.mapping;
+  const createdAt = fromUnixSeconds(conversation.create_time);
+  const included = new Map<string, ChatMessage>();
+  let droppedMessages = 0;
+
+  Object.values(nodes).forEach(node => {
+    const message = node.message;
+    const role = message?.author?.role;
+    if (!message || role === 'system' || message.metadata?.is_visually_hidden_from_conversation) return;
+    const text = chatGPTText(node);
+    const isChat = (role === 'user' || role === 'assistant') && (!message.recipient || message.recipient === 'all');
+    if (!isChat || !text) {
+      droppedMessages++;
+      return;
+    }
+    included.set(node.id, {
+      id: `chatgpt-${node.id}`,
+      threadId,
+      content: text,
+      role: role as 'user' | 'assistant',
+      timestamp: fromUnixSeconds(message.create_time) ?? createdAt ?? new Date().toISOString(),
+      status: 'complete',
+      metadata: role === 'assistant'
+        ? { model: message.metadata?.model_slug || conversation.default_model_slug }
+        : undefined,
+    });
+  });
+
+  // Dropped nodes are skipped over, linking each message to its nearest kept ancestor
+  // (step limits guard against malformed exports with cyclic parents)
+  const maxDepth = Object.keys(nodes).length;
+  const nearestIncluded = (nodeId?: string | null): string | null => {
+    let current = nodeId ? nodes[nodeId] : undefined;
+    for (let step = 0; current && step < maxDepth; step++) {
+      if (included.has(current.id)) return included.get(current.id).id;
+      current = current.parent ? nodes[current.parent] : undefined;
+    }
+    return null;
+  };
+  included.forEach((message, nodeId) => {
+    message.parentId = nearestIncluded(nodes[nodeId].parent);
+  });
+
+  // The branch the user last viewed becomes the active one
+  const branchSelections: Record<string, string> = {};
+  let current = conversation.current_node ? nodes[conversation.current_node] : undefined;
+  for (let step = 0; current && step < maxDepth; step++) {
+    const message = included.get(current.id);
+    if (message) branchSelections[getParentKey(message.parentId)] = message.id;
+    current = current.parent ? nodes[current.parent] : undefined;
+  }
+
+  const messages = Array.from(included.values()).sort(byTimestamp);
+  return {
+    thread: {
+      ...buildThread(threadId, conversation.title, messages, createdAt, fromUnixSeconds(conversation.update_time), branchSelections),
+      importedFrom: 'chatgpt',
+    },
+    messages,
+    droppedMessages,
+  };
+};
+
+const claudeText = (message: ClaudeMessage) => {
+  const blocks = (message.content || []).filter(block => block.type === 'text' && block.text);
+  return (blocks.length ? blocks.map(block => block.text).join('\n\n') : message.text || '').trim();
+};
+
+const parseClaudeConversation = (conversation: ClaudeConversation): ImportedConversation => {
+  const threadId = `claude-${conversation.uuid}`;
+  const ids = new Map<string, string>();
+  const parents = new Map(conversation.chat_messages.map(m => [m.uuid, m.parent_message_uuid]));
+  const messages: ChatMessage[] = [];
+  let droppedMessages = 0;
+  let previousId: string | null = null;
+
+  conversation.chat_messages.forEach(source => {
+    const text = claudeText(source);
+    if (!text || (source.sender !== 'human' && source.sender !== 'assistant')) {
+      droppedMessages++;
+      return;
+    }
+
+    let parentId = previousId;
+    if (source.parent_message_uuid !== undefined) {
+      // Walk past parents that were dropped
+      let parent = source.parent_message_uuid;
+      for (let step = 0; parent && parent !== CLAUDE_ROOT_UUID && !ids.has(parent); step++) {
+        parent = step < parents.size ? parents.get(parent) : undefined;
+      }
+      parentId = parent && parent !== CLAUDE_ROOT_UUID ? ids.get(parent) ?? null : null;
+    }
+
+    const message: ChatMessage = {
+      id: `claude-${source.uuid}`,
+      threadId,
+      parentId,
+      content: text,
+      role: source.sender === 'human' ? 'user' : 'assistant',
+      timestamp: source.created_at ?? conversation.created_at ?? new Date().toISOString(),
+      status: 'complete',
+      metadata: source.sender === 'assistant' && conversation.model ? { model: conversation.model } : undefined,
+    };
+    ids.set(source.uuid, message.id);
+    messages.push(message);
+    previousId = message.id;
+  });
+
+  // Without a record of the viewed branch, the newest reply at each fork is shown
+  messages.sort(byTimestamp);
+  return {
+    thread: {
+      ...buildThread(threadId, conversation.name, messages, conversation.created_at, conversation.updated_at),
+      importedFrom: 'claude',
+    },
+    messages,
+    droppedMessages,
+  };
+};
+
+const isChatGPTConversation = (value: unknown): value is ChatGPTConversation =>
+  typeof value === 'object' && value !== null && typeof (value as ChatGPTConversation).mapping === 'object';
+
+const isClaudeConversation = (value: unknown): value is ClaudeConversation =>
+  typeof value === 'object' && value !== null && Array.isArray((value as ClaudeConversation).chat_messages);
+
+const describeConversation = (value: unknown, index: number) => {
+  const record = (value ?? {}) as Record<string, unknown>;
+  const title = record.title ?? record.name;
+  return typeof title === 'string' && title.trim() ? title : `Conversation ${index + 1}`;
+};
+
+// Reads the conversations JSON from a .json file or from a ChatGPT/Claude
+// export archive, which both keep it in conversations.json.
+export const readChatExportFile = async (file: File): Promise<unknown> => {
+  let text: string;
+  if (await isZipFile(file)) {
+    const entry = (await listZipEntries(file)).find(e => /(^|\/)conversations\.json$/.test(e.name));
+    if (!entry) throw new Error('The archive does not contain a conversations.json file.');
+    text = await readZipEntryText(file, entry);
+  } else {
+    text = await file.text();
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${file.name} is not valid JSON.`);
+  }
+};
+
+// Parses a ChatGPT conversations.json or a Claude export. Throws when the
+// file is neither.
+export const parseChatExport = (json: unknown): ParsedExport => {
+  const items = Array.isArray(json) ? json : [json];
+  const source: ImportSource | undefined = items.some(isChatGPTConversation)
+    ? 'chatgpt'
+    : items.some(isClaudeConversation) ? 'claude' : undefined;
+  if (!source) {
+    throw new Error('This file is not a ChatGPT or Claude conversation export.');
+  }
+
+  const conversations: ImportedConversation[] = [];
+  const skipped: ImportSkip[] = [];
+  items.forEach((item, index) => {
+    const title = describeConversation(item, index);
+    try {
+      const conversation = source === 'chatgpt'
+        ? isChatGPTConversation(item) && parseChatGPTConversation(item)
+        : isClaudeConversation(item) && parseClaudeConversation(item);
+      if (!conversation) {
+        skipped.push({ title, reason: 'Unrecognized format' });
+      } else if (conversation.messages.length === 0) {
+        skipped.push({ title, reason: 'No text messages' });
+      } else {
+        conversations.push(conversation);
+      }
+    } catch (error) {
+      skipped.push({ title, reason: error instanceof Error ? error.message : 'Could not be read' });
+    }
+  });
+  return { source, conversations, skipped };
+};
+
+// Drops conversations and messages that an earlier import already added.
+// Ids are derived from the source ids, so a re-import only brings in
+// messages added since.
+export const planChatImport = (
+  parsed: ParsedExport,
+  existingThreads: ChatThread[],
+  existingMessages: ChatMessage[]
+) => {
+  const threadIds = new Set(existingThreads.map(thread => thread.id));
+  const messageIds = new Set(existingMessages.map(message => message.id));
+  const report: ChatImportReport = {
+    source: parsed.source,
+    imported: 0,
+    updated: 0,
+    messages: 0,
+    droppedMessages: 0,
+    skipped: [...parsed.skipped],
+  };
+  const conversations: ImportedConversation[] = [];
+
+  parsed.conversations.forEach(conversation => {
+    const messages = conversation.messages.filter(message => !messageIds.has(message.id));
+    if (messages.length === 0) {
+      report.skipped.push({ title: conversation.thread.title, reason: 'Already imported' });
+      return;
+    }
+    if (threadIds.has(conversation.thread.id)) report.updated++;
+    else report.imported++;
+    report.messages += messages.length;
+    report.droppedMessages += conversation.droppedMessages;
+    conversations.push({ ...conversation, messages });
+  });
+
+  return { conversations, report };
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { chunkPages, chunkText, isTextFile, readFilePages } from './chunking';
+import { createZip } from '@/test/files';
+
+describe('chunkText', () => {
+  it('returns a single chunk for short text', () => {
+    expect(chunkText('  Short note.  ', 'att-1', { chunkSize: 100, overlap: 10 })).toEqual([
+      { id: 'att-1-chunk-1', sourceId: 'att-1', content: 'Short note.', startIndex: 0, endIndex: 15 },
+    ]);
+  });
+
+  it('ends chunks on word boundaries and records offsets into the original text', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkText(text, 's', { chunkSize: 20, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.content.length).toBeLessThanOrEqual(80);
+      expect(text.slice(chunk.startIndex, chunk.endIndex).trim()).toBe(chunk.content);
+      expect(chunk.content).toMatch(/^word\d+( word\d+)*$/);
+    });
+    expect(chunks[chunks.length - 1].endIndex).toBe(text.length);
+  });
+
+  it('prefers paragraph breaks in the second half of a chunk', () => {
+    const text = `${'a'.repeat(60)}\n\n${'b'.repeat(60)}`;
+    const [first, second] = chunkText(text, 's', { chunkSize: 20, overlap: 0 });
+    expect(first.content).toBe('a'.repeat(60));
+    expect(second.content.startsWith('b')).toBe(true);
+  });
+
+  it('overlaps consecutive chunks, capped at half the chunk size', () => {
+    const text = Array.from({ length: 100 }, (_, i) => `w${i}`).join(' ');
+    const chunks = chunkText(text, 's', { chunkSize: 25, overlap: 5 });
+    expect(chunks[1].startIndex).toBeLessThan(chunks[0].endIndex);
+    expect(chunks[0].endIndex - chunks[1].startIndex).toBeLessThanOrEqual(20);
+
+    const capped = chunkText(text, 's', { chunkSize: 10, overlap: 50 });
+    expect(capped[0].endIndex - capped[1].startIndex).toBeLessThanOrEqual(20);
+  });
+
+  it('always makes progress and numbers chunks sequentially', () => {
+    const text = 'x'.repeat(500);
+    const chunks = chunkText(text, 's', { chunkSize: 0, overlap: 0 });
+    expect(chunks).toHaveLength(125);
+    expect(chunks.map(c => c.id).slice(0, 2)).toEqual(['s-chunk-1', 's-chunk-2']);
+  });
+});
+
+describe('chunkPages', () => {
+  it('keeps chunks within a page and records its number', () => {
+    const pages = [{ text: 'a'.repeat(60), pageNumber: 1 }, { text: 'b'.repeat(30), pageNumber: 2 }];
+    const chunks = chunkPages(pages, 's', { chunkSize: 20, overlap: 0 });
+
+    expect(chunks.map(c => [c.id, c.pageNumber, c.content[0]])).toEqual([
+      ['s-chunk-1', 1, 'a'],
+      ['s-chunk-2', 2, 'b'],
+    ]);
+    expect(chunks[1]).toMatchObject({ startIndex: 62, endIndex: 92 });
+  });
+
+  it('leaves the page number unset for text without pages', () => {
+    expect(chunkPages([{ text: 'Notes' }], 's', { chunkSize: 10, overlap: 0 })[0].pageNumber).toBeUndefined();
+  });
+});
+
+describe('readFilePages', () => {
+  it('reads plain-text files by type or extension', async () => {
+    const notes = new File(['# Notes'], 'notes.md');
+    expect(isTextFile(notes)).toBe(true);
+    await expect(readFilePages(notes)).resolves.toEqual([{ text: '# Notes' }]);
+    await expect(readFilePages(new File(['{}'], 'data', { type: 'application/json' }))).resolves.toEqual([{ text: '{}' }]);
+  });
+
+  it('rejects empty and unsupported files', async () => {
+    await expect(readFilePages(new File(['  '], 'blank.txt'))).rejects.toThrow('blank.txt is empty');
+    await expect(readFilePages(new File([new Uint8Array([0, 1])], 'image.png'))).rejects.toThrow(
+      'image.png is not a supported text format'
+    );
+  });
+
+  it('extracts paragraphs, tabs and breaks from .docx files', async () => {
+    const xml = `<?xml version="1.0"?>
+      <w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+        <w:body>
+          <w:p><w:r><w:t>Quarterly</w:t></w:r><w:r><w:t xml:space="preserve"> report</w:t></w:r></w:p>
+          <w:p><w:r><w:t>Revenue</w:t><w:tab/><w:t>42</w:t><w:br/><w:t>Costs</w:t></w:r></w:p>
+        </w:body>
+      </w:document>`;
+    const docx = new File([createZip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': xml }, { store: true })], 'report.docx');
+
+    await expect(readFilePages(docx)).resolves.toEqual([{ text: 'Quarterly report\nRevenue\t42\nCosts' }]);
+  });
+
+  it('reports documents that cannot be parsed', async () => {
+    await expect(readFilePages(new File(['not a zip'], 'broken.docx'))).rejects.toThrow('broken.docx could not be read');
+    await expect(readFilePages(new File(['plain text'], 'legacy.doc'))).rejects.toThrow(
+      'legacy.doc is not a supported text format'
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import type { DocumentChunk } from '@/store/slices/appSlice';
+import { isDocumentFile, readDocumentPages, type DocumentPage } from '@/utils/documentText';
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'xml', 'html', 'htm', 'yaml', 'yml', 'log',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'java', 'go', 'rs', 'rb', 'php', 'c', 'cpp', 'h', 'cs', 'sql', 'sh',
+];
+
+export const isTextFile = (file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.includes(extension);
+};
+
+// Plain-text formats are read directly and PDF and Word documents through
+// their parsers; other binary files are rejected rather than indexed as garbage.
+export const readFilePages = async (file: File): Promise<DocumentPage[]> => {
+  if (isDocumentFile(file)) {
+    let pages: DocumentPage[];
+    try {
+      pages = await readDocumentPages(file);
+    } catch (error) {
+      throw new Error(`${file.name} could not be read: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+    if (!pages.some(page => page.text.trim())) {
+      throw new Error(`${file.name} has no extractable text. Scanned documents need OCR first.`);
+    }
+    return pages;
+  }
+  if (!isTextFile(file)) {
+    throw new Error(`${file.name} is not a supported text format`);
+  }
+  const text = await file.text();
+  if (!text.trim()) {
+    throw new Error(`${file.name} is empty`);
+  }
+  return [{ text }];
+};
+
+// Splits text into overlapping chunks of roughly `chunkSize` tokens
+// (~4 characters each), ending chunks on paragraph or word boundaries
+// where possible. Offsets are character positions in the original text.
+export const chunkText = (
+  text: string,
+  sourceId: string,
+  options: { chunkSize: number; overlap: number }
+): DocumentChunk[] => {
+  const size = Math.max(1, options.chunkSize) * 4;
+  const overlap = Math.min(Math.max(0, options.overlap) * 4, size / 2);
+  const chunks: DocumentChunk[] = [];
+
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const paragraph = window.lastIndexOf('\n\n');
+      const space = window.lastIndexOf(' ');
+      const boundary = paragraph > size * 0.5 ? paragraph : space > size * 0.8 ? space : -1;
+      if (boundary !== -1) end = start + boundary;
+    }
+
+    const content = text.slice(start, end).trim();
+    if (content) {
+      chunks.push({
+        id: `${sourceId}-chunk-${chunks.length + 1}`,
+        sourceId,
+        content,
+        startIndex: start,
+        endIndex: end,
+      });
+    }
+
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+};
+
+// Chunks each page on its own so every chunk can cite its page. Offsets are
+// positions in the pages joined by blank lines.
+export const chunkPages = (
+  pages: DocumentPage[],
+  sourceId: string,
+  options: { chunkSize: number; overlap: number }
+): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let offset = 0;
+  pages.forEach(page => {
+    chunkText(page.text, sourceId, options).forEach(chunk => {
+      chunks.push({
+        ...chunk,
+        id: `${sourceId}-chunk-${chunks.length + 1}`,
+        startIndex: chunk.startIndex + offset,
+        endIndex: chunk.endIndex + offset,
+        pageNumber: page.pageNumber,
+      });
+    });
+    offset += page.text.length + 2;
+  });
+  return chunks;
+};
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { splitCitations, extractCitationIndexes, resolveCitations } from './citations';
+import type { PromptContext } from './promptBuilder';
+import type { DocumentChunk } from '@/store/slices/appSlice';
+
+const chunk = (id: string, content: string, pageNumber?: number): DocumentChunk => ({
+  id,
+  sourceId: 'src-1',
+  content,
+  startIndex: 0,
+  endIndex: content.length,
+  pageNumber,
+});
+
+const chunks = [chunk('c1', 'Refunds take ten days.', 4), chunk('c2', 'Invoices are monthly.'), chunk('c3', 'x'.repeat(300))];
+
+const promptContext = (chunkIds: string[]): PromptContext => ({
+  systemPrompt: '',
+  chunks: chunkIds.map((chunkId, i) => ({
+    index: i + 1,
+    chunkId,
+    sourceId: 'src-1',
+    sourceName: 'policy.pdf',
+    score: 0.8 - i * 0.1,
+    tokens: 10,
+  })),
+  historyMessageIds: [],
+  droppedHistoryCount: 0,
+  droppedChunkIds: [],
+  tokens: { system: 0, context: 0, history: 0, question: 0, total: 0, budget: 0 },
+});
+
+describe('splitCitations', () => {
+  it('splits text around single, list and range markers', () => {
+    expect(splitCitations('A [1], B [2, 3] and C [1-3].', 3)).toEqual([
+      { type: 'text', text: 'A ' },
+      { type: 'citation', index: 1 },
+      { type: 'text', text: ', B ' },
+      { type: 'citation', index: 2 },
+      { type: 'citation', index: 3 },
+      { type: 'text', text: ' and C ' },
+      { type: 'citation', index: 1 },
+      { type: 'citation', index: 2 },
+      { type: 'citation', index: 3 },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('returns markers beyond the chunk count so they can be flagged', () => {
+    expect(splitCitations('In [2024] we saw a [404] and [2][9].', 3)).toEqual([
+      { type: 'text', text: 'In [2024] we saw a [404] and ' },
+      { type: 'citation', index: 2 },
+      { type: 'citation', index: 9 },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('leaves indexing expressions as text', () => {
+    expect(splitCitations('Read items[1] and arr_2[2], then see [1].', 3)).toEqual([
+      { type: 'text', text: 'Read items[1] and arr_2[2], then see ' },
+      { type: 'citation', index: 1 },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('finds no markers when the prompt had no chunks', () => {
+    expect(splitCitations('See [1].', 0)).toEqual([{ type: 'text', text: 'See [1].' }]);
+  });
+});
+
+describe('extractCitationIndexes', () => {
+  it('dedupes indexes in order of appearance', () => {
+    expect(extractCitationIndexes('[2] then [1] and [2] again [1-2]', 2)).toEqual([2, 1]);
+  });
+
+  it('skips markers inside inline code and fenced code blocks', () => {
+    const content = 'Use `items[1]` here [2].\n\n```js\nconst first = list[1];\n```\n\nDone [3].';
+    expect(extractCitationIndexes(content, 3)).toEqual([2, 3]);
+  });
+});
+
+describe('resolveCitations', () => {
+  it('resolves markers to the chunks numbered in the prompt', () => {
+    const { citations, invalidCitations } = resolveCitations(
+      'Invoices [2] and refunds [1].',
+      promptContext(['c1', 'c2']),
+      chunks
+    );
+
+    expect(invalidCitations).toEqual([]);
+    expect(citations.map(c => [c.index, c.chunkId])).toEqual([[1, 'c1'], [2, 'c2']]);
+    expect(citations[0]).toMatchObject({
+      text: 'Refunds take ten days.',
+      sourceName: 'policy.pdf',
+      score: 0.8,
+      pageNumber: 4,
+    });
+  });
+
+  it('truncates long passage previews but keeps the full context', () => {
+    const { citations } = resolveCitations('See [1].', promptContext(['c3']), chunks);
+    expect(citations[0].text).toHaveLength(241);
+    expect(citations[0].context).toHaveLength(300);
+  });
+
+  it('reports markers whose chunk is no longer available as invalid', () => {
+    const { citations, invalidCitations } = resolveCitations(
+      'Kept [1], deleted [2].',
+      promptContext(['c1', 'gone']),
+      chunks
+    );
+    expect(citations.map(c => c.index)).toEqual([1]);
+    expect(invalidCitations).toEqual([2]);
+  });
+
+  it('reports markers beyond the prompt as invalid and ignores years', () => {
+    expect(resolveCitations('Since [2024], see [1] and [6].', promptContext(['c1']), chunks)).toMatchObject({
+      citations: [{ index: 1 }],
+      invalidCitations: [6],
+    });
+    expect(resolveCitations('See [1].', undefined, chunks)).toEqual({ citations: [], invalidCitations: [] });
+  });
+});
@@ -0,0 +1,97 @@
+import type { ChatMessage, DocumentChunk } from '@/store/slices/appSlice';
+import type { PromptContext } from '@/utils/promptBuilder';
+
+// Matches [1], [2, 3] and [4-6] style markers that follow a space or
+// punctuation, so indexing like items[1] is not read as a citation
+const CITATION_PATTERN = /(?<![\p{L}\p{N}_])\[(\d+(?:\s*[,-]\s*\d+)*)\]/gu;
+// Larger bracketed numbers, like [2024] or [404], are not citations
+const MAX_MARKER_INDEX = 99;
+
+export type CitationSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; index: number };
+
+const expandMarker = (marker: string): number[] =>
+  marker.split(',').flatMap(part => {
+    const [start, end] = part.split('-').map(value => parseInt(value.trim(), 10));
+    if (end === undefined || end < start || end - start > 20) return [start];
+    return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+  });
+
+const isCitable = (indexes: number[]) =>
+  indexes.every(index => index >= 1 && index <= MAX_MARKER_INDEX);
+
+// Splits text into plain runs and citation markers. Markers are only read
+// when the prompt numbered some chunks (`maxIndex` of them); a marker beyond
+// that is still returned so it can be flagged as invalid.
+export const splitCitations = (content: string, maxIndex: number): CitationSegment[] => {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    const indexes = expandMarker(match[1]);
+    if (maxIndex < 1 || !isCitable(indexes)) continue;
+
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, match.index) });
+    }
+    indexes.forEach(index => segments.push({ type: 'citation', index }));
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+  return segments;
+};
+
+// Blanks out fenced code blocks and inline code spans so bracketed numbers
+// inside them are not read as markers, matching remarkCitations
+const stripCode = (content: string) =>
+  content
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?(?:^\1[^\n]*$|(?![\s\S]))/gm, ' ')
+    .replace(/(`+)[^`]*?\1/g, ' ');
+
+export const extractCitationIndexes = (content: string, maxIndex: number): number[] =>
+  Array.from(new Set(
+    splitCitations(stripCode(content), maxIndex)
+      .filter((segment): segment is { type: 'citation'; index: number } => segment.type === 'citation')
+      .map(segment => segment.index)
+  ));
+
+// Resolves the markers in an answer against the chunks that were numbered in
+// its prompt. Markers beyond the prompt's chunks, or whose chunk is no longer
+// in the store, are reported as invalid.
+export const resolveCitations = (
+  content: string,
+  promptContext: PromptContext | undefined,
+  chunks: DocumentChunk[]
+): { citations: NonNullable<ChatMessage['citations']>; invalidCitations: number[] } => {
+  const citations: NonNullable<ChatMessage['citations']> = [];
+  const invalidCitations: number[] = [];
+
+  extractCitationIndexes(content, promptContext?.chunks.length ?? 0).forEach(index => {
+    const promptChunk = promptContext?.chunks.find(chunk => chunk.index === index);
+    const chunk = promptChunk && chunks.find(c => c.id === promptChunk.chunkId);
+    if (!promptChunk || !chunk) {
+      invalidCitations.push(index);
+      return;
+    }
+
+    const text = chunk.content.trim();
+    citations.push({
+      id: `cite-${index}-${chunk.id}`,
+      index,
+      text: text.length > 240 ? `${text.slice(0, 240)}…` : text,
+      sourceId: chunk.sourceId,
+      sourceName: promptChunk.sourceName,
+      chunkId: chunk.id,
+      score: promptChunk.score,
+      context: text,
+      pageNumber: chunk.pageNumber,
+    });
+  });
+
+  citations.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  return { citations, invalidCitations };
+};
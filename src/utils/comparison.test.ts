@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeCompareConfig,
+  findDuplicateConfigs,
+  suggestCompareConfig,
+  summarizePreferences,
+} from './comparison';
+import type { CompareConfig, ModelComparison } from '@/store/slices/appSlice';
+
+const llamaTop5: CompareConfig = { model: 'llama3', retrievalEnabled: true, retrievalTopK: 5 };
+const llamaOff: CompareConfig = { model: 'llama3', retrievalEnabled: false, retrievalTopK: 5 };
+const mistralTop5: CompareConfig = { model: 'mistral', retrievalEnabled: true, retrievalTopK: 5 };
+
+const comparison = (
+  id: string,
+  candidates: { config: CompareConfig; messageId: string }[],
+  winnerMessageId?: string
+): ModelComparison => ({
+  id,
+  threadId: 't1',
+  questionId: 'q1',
+  question: 'Why?',
+  candidates: candidates.map(({ config, messageId }) => ({ ...config, messageId, label: describeCompareConfig(config) })),
+  winnerMessageId,
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('describeCompareConfig', () => {
+  it('labels the model and retrieval setting', () => {
+    expect(describeCompareConfig(llamaTop5)).toBe('llama3 • top 5');
+    expect(describeCompareConfig(llamaOff)).toBe('llama3 • no retrieval');
+  });
+});
+
+describe('findDuplicateConfigs', () => {
+  it('maps repeated setups to the first column using them', () => {
+    expect(findDuplicateConfigs([llamaTop5, mistralTop5, { ...llamaTop5 }])).toEqual(new Map([[2, 0]]));
+  });
+
+  it('treats disabled retrieval as one setup regardless of top-k', () => {
+    expect(findDuplicateConfigs([llamaOff, { ...llamaOff, retrievalTopK: 10 }]).size).toBe(1);
+    expect(findDuplicateConfigs([llamaTop5, llamaOff, mistralTop5]).size).toBe(0);
+  });
+});
+
+describe('suggestCompareConfig', () => {
+  it('prefers the last model with an unused retrieval setting', () => {
+    expect(suggestCompareConfig([llamaTop5, llamaOff], ['llama3', 'mistral'], [3, 5, 10])).toEqual({
+      model: 'llama3',
+      retrievalEnabled: true,
+      retrievalTopK: 3,
+    });
+  });
+
+  it('moves on to other models and gives up when every setup is used', () => {
+    const all = [llamaOff, { ...llamaTop5, retrievalTopK: 3 }, llamaTop5];
+    expect(suggestCompareConfig(all, ['llama3', 'mistral'], [3, 5])).toMatchObject({ model: 'mistral' });
+    expect(suggestCompareConfig(all, ['llama3'], [3, 5])).toBeUndefined();
+  });
+});
+
+describe('summarizePreferences', () => {
+  it('counts wins and decided comparisons per setup, best first', () => {
+    const stats = summarizePreferences([
+      comparison('c1', [{ config: llamaTop5, messageId: 'a' }, { config: llamaOff, messageId: 'b' }], 'a'),
+      comparison('c2', [{ config: llamaTop5, messageId: 'c' }, { config: mistralTop5, messageId: 'd' }], 'c'),
+      comparison('c3', [{ config: llamaOff, messageId: 'e' }, { config: mistralTop5, messageId: 'f' }], 'f'),
+      comparison('c4', [{ config: llamaOff, messageId: 'g' }, { config: mistralTop5, messageId: 'h' }]),
+    ]);
+
+    expect(stats).toEqual([
+      { label: 'llama3 • top 5', wins: 2, comparisons: 2, winRate: 1 },
+      { label: 'mistral • top 5', wins: 1, comparisons: 2, winRate: 0.5 },
+      { label: 'llama3 • no retrieval', wins: 0, comparisons: 2, winRate: 0 },
+    ]);
+  });
+
+  it('counts a setup once per comparison when two columns shared it', () => {
+    const stats = summarizePreferences([
+      comparison('c1', [
+        { config: llamaTop5, messageId: 'a' },
+        { config: { ...llamaTop5 }, messageId: 'b' },
+        { config: mistralTop5, messageId: 'c' },
+      ], 'b'),
+    ]);
+
+    expect(stats).toEqual([
+      { label: 'llama3 • top 5', wins: 1, comparisons: 1, winRate: 1 },
+      { label: 'mistral • top 5', wins: 0, comparisons: 1, winRate: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import type { CompareConfig, ModelComparison } from '@/store/slices/appSlice';
+
+export const MAX_COMPARE_CANDIDATES = 3;
+
+export const describeCompareConfig = ({ model, retrievalEnabled, retrievalTopK }: CompareConfig) =>
+  `${model} • ${retrievalEnabled ? `top ${retrievalTopK}` : 'no retrieval'}`;
+
+const getCompareConfigKey = ({ model, retrievalEnabled, retrievalTopK }: CompareConfig) =>
+  `${model}|${retrievalEnabled ? retrievalTopK : 'off'}`;
+
+// Columns whose setup repeats an earlier column, mapped to that column's index.
+// Comparing a setup against itself says nothing about which one is better.
+export const findDuplicateConfigs = (configs: CompareConfig[]): Map<number, number> => {
+  const firstSeen = new Map<string, number>();
+  const duplicates = new Map<number, number>();
+  configs.forEach((config, index) => {
+    const key = getCompareConfigKey(config);
+    if (firstSeen.has(key)) duplicates.set(index, firstSeen.get(key)!);
+    else firstSeen.set(key, index);
+  });
+  return duplicates;
+};
+
+// A setup for a new column that no existing column uses, preferring the last
+// column's model with a different retrieval setting.
+export const suggestCompareConfig = (
+  configs: CompareConfig[],
+  models: string[],
+  topKOptions: number[]
+): CompareConfig | undefined => {
+  const used = new Set(configs.map(getCompareConfigKey));
+  const last = configs[configs.length - 1];
+  const orderedModels = Array.from(new Set([last?.model, ...models].filter((model): model is string => !!model)));
+  const retrievalOptions = [
+    { retrievalEnabled: false, retrievalTopK: last?.retrievalTopK ?? topKOptions[0] },
+    ...topKOptions.map(retrievalTopK => ({ retrievalEnabled: true, retrievalTopK })),
+  ];
+
+  for (const model of orderedModels) {
+    for (const retrieval of retrievalOptions) {
+      const config = { model, ...retrieval };
+      if (!used.has(getCompareConfigKey(config))) return config;
+    }
+  }
+  return undefined;
+};
+
+export interface PreferenceStats {
+  label: string;
+  wins: number;
+  comparisons: number;
+  winRate: number;
+}
+
+// Win counts per model/retrieval setup over decided comparisons.
+export const summarizePreferences = (comparisons: ModelComparison[]): PreferenceStats[] => {
+  const stats = new Map<string, { wins: number; comparisons: number }>();
+  comparisons
+    .filter(comparison => comparison.winnerMessageId)
+    .forEach(comparison => {
+      // Comparisons recorded before duplicate columns were prevented can hold
+      // the same setup twice; it is counted once, as winning if either did.
+      const outcomes = new Map<string, boolean>();
+      comparison.candidates.forEach(candidate => {
+        const won = candidate.messageId === comparison.winnerMessageId;
+        outcomes.set(candidate.label, (outcomes.get(candidate.label) ?? false) || won);
+      });
+      outcomes.forEach((won, label) => {
+        const entry = stats.get(label) ?? { wins: 0, comparisons: 0 };
+        entry.comparisons += 1;
+        if (won) entry.wins += 1;
+        stats.set(label, entry);
+      });
+    });
+
+  return Array.from(stats, ([label, { wins, comparisons: total }]) => ({
+    label,
+    wins,
+    comparisons: total,
+    winRate: total > 0 ? wins / total : 0,
+  })).sort((a, b) => b.winRate - a.winRate || b.wins - a.wins);
+};
@@ -0,0 +1,136 @@
+import type { ChatMessage, ChatThread, DocumentChunk, MessageEmbedding } from '@/store/slices/appSlice';
+import { getAncestry } from '@/utils/branches';
+
+export interface ConversationFilters {
+  dateRange?: { start: string; end: string };
+  role?: 'user' | 'assistant' | 'all';
+  threadIds?: string[];
+  tags?: string[];
+}
+
+export interface ConversationHit {
+  // The answer that matched, and the question it replied to
+  answerId: string;
+  questionId?: string;
+  threadId: string;
+  timestamp: string;
+  similarity: number;
+}
+
+// Chunks taken from past conversations use this prefix plus the thread id
+// as their source id.
+export const HISTORY_SOURCE_PREFIX = 'chat-history:';
+
+// FNV-1a, used to notice when an embedded message has been rewritten
+export const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Answers that still need a vector from `model`: never embedded, embedded
+// by another model, or edited since.
+export const getUnembeddedAnswers = (
+  messages: ChatMessage[],
+  embeddings: MessageEmbedding[],
+  model: string
+) => {
+  const byId = new Map(embeddings.map(embedding => [embedding.messageId, embedding]));
+  return messages.filter(message => {
+    if (message.role !== 'assistant' || message.status !== 'complete' || !message.content.trim()) return false;
+    const embedding = byId.get(message.id);
+    return !embedding || embedding.model !== model || embedding.hash !== hashText(message.content);
+  });
+};
+
+// Ranks embedded answers by similarity to the query vector. Filters apply
+// to the conversation and date; with the role set to "user" each hit
+// points at the question that prompted the answer.
+export const rankConversations = (
+  queryVector: number[],
+  embeddings: MessageEmbedding[],
+  messages: ChatMessage[],
+  threads: ChatThread[],
+  filters: ConversationFilters,
+  { model, limit, minSimilarity = 0 }: { model: string; limit: number; minSimilarity?: number }
+): ConversationHit[] => {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const threadsById = new Map(threads.map(thread => [thread.id, thread]));
+  const start = filters.dateRange && new Date(filters.dateRange.start).getTime();
+  const end = filters.dateRange && new Date(filters.dateRange.end).getTime();
+
+  return embeddings
+    .filter(embedding => {
+      const message = byId.get(embedding.messageId);
+      const thread = threadsById.get(embedding.threadId);
+      if (!message || !thread || embedding.model !== model || embedding.hash !== hashText(message.content)) {
+        return false;
+      }
+      if (filters.threadIds?.length && !filters.threadIds.includes(thread.id)) return false;
+      if (filters.tags?.length && !filters.tags.some(tag => thread.tags?.includes(tag))) return false;
+      const time = new Date(message.timestamp).getTime();
+      return !filters.dateRange || (time >= start && time <= end);
+    })
+    .map(embedding => ({ embedding, similarity: cosineSimilarity(queryVector, embedding.vector) }))
+    .filter(({ similarity }) => similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ embedding, similarity }) => {
+      const answer = byId.get(embedding.messageId);
+      const threadMessages = messages.filter(message => message.threadId === answer.threadId);
+      const question = getAncestry(threadMessages, answer.id).reverse().find(message => message.role === 'user');
+      return {
+        answerId: answer.id,
+        questionId: question?.id,
+        threadId: answer.threadId,
+        timestamp: filters.role === 'user' && question ? question.timestamp : answer.timestamp,
+        similarity,
+      };
+    })
+    .filter(hit => filters.role !== 'user' || hit.questionId);
+};
+
+// A past question and answer as a retrieval chunk. The date lets the
+// assistant say when the topic came up before.
+export const toHistoryChunk = (
+  hit: ConversationHit,
+  messages: ChatMessage[],
+  thread: ChatThread | undefined
+): DocumentChunk => {
+  const answer = messages.find(message => message.id === hit.answerId);
+  const question = messages.find(message => message.id === hit.questionId);
+  const date = new Date(question?.timestamp ?? answer.timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  const content = [
+    `Earlier conversation "${thread?.title ?? 'Untitled'}" on ${date}.`,
+    question && `The user asked: ${question.content.trim()}`,
+    `The answer was: ${answer.content.trim()}`,
+  ].filter(Boolean).join('\n');
+
+  return {
+    id: `history-${answer.id}`,
+    sourceId: `${HISTORY_SOURCE_PREFIX}${hit.threadId}`,
+    content,
+    startIndex: 0,
+    endIndex: content.length,
+    score: hit.similarity,
+  };
+};
@@ -0,0 +1,40 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { readPdfPages } from './documentText';
+import { readFilePages } from './chunking';
+import { createPdf } from '@/test/files';
+
+// The browser build of pdf.js needs Promise.withResolvers, which Node 20
+// lacks, and its worker is loaded from a URL; tests run the legacy build
+// with its worker as a module instead.
+vi.mock('pdfjs-dist', () => import('pdfjs-dist/legacy/build/pdf.mjs'));
+vi.mock('pdfjs-dist/build/pdf.worker.min.mjs?url', () => ({ default: 'pdfjs-dist/legacy/build/pdf.worker.mjs' }));
+
+describe('readPdfPages', () => {
+  it('returns the text of each page with its number', async () => {
+    const pdf = createPdf(['Refunds (see policy)', 'Invoices are monthly']);
+    await expect(readPdfPages(pdf)).resolves.toEqual([
+      { text: 'Refunds (see policy)', pageNumber: 1 },
+      { text: 'Invoices are monthly', pageNumber: 2 },
+    ]);
+  });
+
+  it('rejects files that are not PDFs', async () => {
+    await expect(readPdfPages(new Blob(['plain text']))).rejects.toThrow();
+  });
+});
+
+describe('readFilePages', () => {
+  it('reads attached PDFs page by page', async () => {
+    const file = new File([createPdf(['One', 'Two'])], 'report.pdf');
+    await expect(readFilePages(file)).resolves.toEqual([
+      { text: 'One', pageNumber: 1 },
+      { text: 'Two', pageNumber: 2 },
+    ]);
+  });
+
+  it('reports PDFs without text', async () => {
+    const file = new File([createPdf([''])], 'scan.pdf');
+    await expect(readFilePages(file)).rejects.toThrow('scan.pdf has no extractable text');
+  });
+});
@@ -0,0 +1,71 @@
+// Text extraction for binary document formats so they can be chunked like
+// plain text: PDFs page by page through pdf.js, and .docx through the ZIP
+// reader.
+import { listZipEntries, readZipEntryText } from '@/utils/zip';
+
+// Text of a document, split by page where the format has pages
+export interface DocumentPage {
+  text: string;
+  pageNumber?: number;
+}
+
+export const DOCUMENT_EXTENSIONS = ['pdf', 'docx'];
+
+export const getExtension = (file: File) => file.name.split('.').pop()?.toLowerCase() || '';
+
+export const isDocumentFile = (file: File) => DOCUMENT_EXTENSIONS.includes(getExtension(file));
+
+export const readPdfPages = async (file: Blob): Promise<DocumentPage[]> => {
+  // pdf.js is large, so it is only loaded once a PDF is attached
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerSrc } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: DocumentPage[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { items } = await page.getTextContent();
+      const text = items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join('');
+      pages.push({ text, pageNumber });
+    }
+    return pages;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Paragraph text from word/document.xml, keeping tabs and line breaks
+export const readDocxText = async (file: Blob): Promise<string> => {
+  const entry = (await listZipEntries(file)).find(e => e.name === 'word/document.xml');
+  if (!entry) throw new Error('Not a Word document');
+
+  const xml = new DOMParser().parseFromString(await readZipEntryText(file, entry), 'application/xml');
+  const paragraphs = Array.from(xml.getElementsByTagNameNS(WORD_NS, 'p'));
+  return paragraphs
+    .map(paragraph => {
+      let text = '';
+      paragraph.querySelectorAll('*').forEach(node => {
+        if (node.namespaceURI !== WORD_NS) return;
+        if (node.localName === 't') text += node.textContent || '';
+        else if (node.localName === 'tab') text += '\t';
+        else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+      });
+      return text;
+    })
+    .join('\n');
+};
+
+export const readDocumentPages = async (file: File): Promise<DocumentPage[]> => {
+  switch (getExtension(file)) {
+    case 'pdf':
+      return readPdfPages(file);
+    case 'docx':
+      return [{ text: await readDocxText(file) }];
+    default:
+      throw new Error(`${file.name} is not a supported document format`);
+  }
+};
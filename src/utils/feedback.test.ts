@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { getWorstQueries, snapshotFeedbackChunks } from './feedback';
+import type { ChatAttachment, ChatMessage, DataSource, DocumentChunk, MessageFeedback } from '@/store/slices/appSlice';
+
+const chunk = (id: string, sourceId: string, content: string): DocumentChunk => ({
+  id,
+  sourceId,
+  content,
+  startIndex: 0,
+  endIndex: content.length,
+});
+
+const dataSources: DataSource[] = [{
+  id: 'ds-1',
+  name: 'handbook.pdf',
+  type: 'file',
+  status: 'connected',
+  chunks: [chunk('ds-1-chunk-1', 'ds-1', `  ${'Refund policy. '.repeat(40)}  `)],
+}];
+
+const attachments: ChatAttachment[] = [{
+  id: 'att-1',
+  threadId: 't1',
+  name: 'notes.md',
+  size: 10,
+  type: 'text/markdown',
+  addedAt: '2026-01-01T00:00:00.000Z',
+  chunks: [chunk('att-1-chunk-1', 'att-1', 'Short note')],
+}];
+
+describe('snapshotFeedbackChunks', () => {
+  it('copies source names and truncated excerpts of the prompt chunks', () => {
+    const snapshot = snapshotFeedbackChunks([
+      { index: 1, chunkId: 'ds-1-chunk-1', sourceId: 'ds-1', score: 0.9, tokens: 100 },
+      { index: 2, chunkId: 'att-1-chunk-1', sourceId: 'att-1', sourceName: 'My notes', score: 0.4, tokens: 3 },
+    ], dataSources, attachments);
+
+    expect(snapshot[0]).toMatchObject({ chunkId: 'ds-1-chunk-1', sourceName: 'handbook.pdf', score: 0.9 });
+    expect(snapshot[0].excerpt).toHaveLength(301);
+    expect(snapshot[0].excerpt).toMatch(/^Refund policy\..*…$/);
+    expect(snapshot[1]).toEqual({
+      chunkId: 'att-1-chunk-1',
+      sourceId: 'att-1',
+      sourceName: 'My notes',
+      score: 0.4,
+      excerpt: 'Short note',
+    });
+  });
+
+  it('leaves the excerpt out when the chunk is already gone', () => {
+    const [snapshot] = snapshotFeedbackChunks(
+      [{ index: 1, chunkId: 'gone', sourceId: 'ds-1', score: 0.5, tokens: 1 }],
+      dataSources,
+      attachments
+    );
+    expect(snapshot).toEqual({ chunkId: 'gone', sourceId: 'ds-1', sourceName: 'handbook.pdf', score: 0.5, excerpt: undefined });
+  });
+});
+
+describe('getWorstQueries', () => {
+  const rated = (id: string, question: string, rating: 'up' | 'down', updatedAt: string, excerpt: string): ChatMessage => {
+    const feedback: MessageFeedback = {
+      rating,
+      reasons: rating === 'down' ? ['incomplete'] : [],
+      question,
+      chunks: [{ chunkId: `${id}-chunk`, sourceId: 'ds-1', score: 0.5, excerpt }],
+      createdAt: updatedAt,
+      updatedAt,
+    };
+    return { id, threadId: 't1', content: 'answer', role: 'assistant', timestamp: updatedAt, feedback };
+  };
+
+  it('groups ratings by question and keeps the passages of the latest bad answer', () => {
+    const [query, ...rest] = getWorstQueries([
+      rated('a', 'What is the refund window?', 'down', '2026-01-02', 'older passage'),
+      rated('b', 'what is the  refund window?', 'down', '2026-01-05', 'newer passage'),
+      rated('c', 'What is the refund window?', 'up', '2026-01-06', 'good passage'),
+      rated('d', 'Who is the CEO?', 'up', '2026-01-03', 'ceo passage'),
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(query).toMatchObject({ down: 2, up: 1, reasons: ['incomplete'], lastRatedAt: '2026-01-06' });
+    expect(query.lastBadChunks.map(c => c.excerpt)).toEqual(['newer passage']);
+  });
+});
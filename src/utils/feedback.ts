@@ -0,0 +1,125 @@
+import type { ChatAttachment, ChatMessage, DataSource, FeedbackReason, MessageFeedback } from '@/store/slices/appSlice';
+import type { PromptChunk } from '@/utils/promptBuilder';
+
+export const FEEDBACK_REASONS: Record<FeedbackReason, string> = {
+  wrong_source: 'Wrong source',
+  hallucinated: 'Hallucinated',
+  incomplete: 'Incomplete',
+};
+
+const EXCERPT_LENGTH = 300;
+
+// Copies the prompt's chunks into a rating with their source name and a
+// truncated excerpt of their text, looked up while the chunks still exist.
+// Also accepts a rating's own chunks, to fill in ratings saved without them.
+export const snapshotFeedbackChunks = (
+  promptChunks: Array<PromptChunk | MessageFeedback['chunks'][number]>,
+  dataSources: DataSource[],
+  attachments: ChatAttachment[]
+): MessageFeedback['chunks'] => {
+  const sources = [
+    ...dataSources.map(source => ({ id: source.id, name: source.name, chunks: source.chunks || [] })),
+    ...attachments.map(attachment => ({ id: attachment.id, name: attachment.name, chunks: attachment.chunks })),
+  ];
+
+  return promptChunks.map(({ chunkId, sourceId, sourceName, score }) => {
+    const source = sources.find(s => s.id === sourceId);
+    const text = source?.chunks.find(chunk => chunk.id === chunkId)?.content.trim();
+    return {
+      chunkId,
+      sourceId,
+      sourceName: sourceName || source?.name,
+      score,
+      excerpt: text && (text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text),
+    };
+  });
+};
+
+type RatedMessage = ChatMessage & { feedback: MessageFeedback };
+
+export const getRatedMessages = (messages: ChatMessage[]) =>
+  messages.filter((message): message is RatedMessage => Boolean(message.feedback));
+
+export interface FeedbackSummary {
+  total: number;
+  up: number;
+  down: number;
+  corrections: number;
+  reasons: Record<FeedbackReason, number>;
+}
+
+export const summarizeFeedback = (messages: ChatMessage[]): FeedbackSummary => {
+  const rated = getRatedMessages(messages);
+  const reasons = { wrong_source: 0, hallucinated: 0, incomplete: 0 };
+  rated.forEach(({ feedback }) => feedback.reasons.forEach(reason => (reasons[reason] += 1)));
+  return {
+    total: rated.length,
+    up: rated.filter(m => m.feedback.rating === 'up').length,
+    down: rated.filter(m => m.feedback.rating === 'down').length,
+    corrections: rated.filter(m => m.feedback.correction).length,
+    reasons,
+  };
+};
+
+export interface QueryFeedback {
+  question: string;
+  up: number;
+  down: number;
+  reasons: FeedbackReason[];
+  lastCorrection?: string;
+  lastRatedAt: string;
+  // Passages in the prompt of the most recent down-rated answer
+  lastBadChunks: MessageFeedback['chunks'];
+}
+
+// Ratings grouped by question text, most disliked first.
+export const getWorstQueries = (messages: ChatMessage[], limit = 10): QueryFeedback[] => {
+  const queries = new Map<string, QueryFeedback>();
+  const lastBadAt = new Map<string, string>();
+  getRatedMessages(messages).forEach(({ feedback }) => {
+    const key = feedback.question.trim().toLowerCase().replace(/\s+/g, ' ');
+    const entry = queries.get(key) ??
+      { question: feedback.question, up: 0, down: 0, reasons: [], lastRatedAt: '', lastBadChunks: [] };
+    entry[feedback.rating] += 1;
+    entry.reasons = Array.from(new Set([...entry.reasons, ...feedback.reasons]));
+    if (feedback.updatedAt > entry.lastRatedAt) {
+      entry.lastRatedAt = feedback.updatedAt;
+      entry.lastCorrection = feedback.correction ?? entry.lastCorrection;
+    }
+    if (feedback.rating === 'down' && feedback.updatedAt >= (lastBadAt.get(key) ?? '')) {
+      lastBadAt.set(key, feedback.updatedAt);
+      entry.lastBadChunks = feedback.chunks;
+    }
+    queries.set(key, entry);
+  });
+
+  return Array.from(queries.values())
+    .filter(query => query.down > 0)
+    .sort((a, b) => b.down - b.up - (a.down - a.up) || b.lastRatedAt.localeCompare(a.lastRatedAt))
+    .slice(0, limit);
+};
+
+export interface SourceFeedback {
+  sourceId: string;
+  sourceName: string;
+  badAnswers: number;
+  totalAnswers: number;
+}
+
+// Sources whose chunks were in the prompt of down-rated answers.
+export const getProblemSources = (messages: ChatMessage[], limit = 10): SourceFeedback[] => {
+  const sources = new Map<string, SourceFeedback>();
+  getRatedMessages(messages).forEach(({ feedback }) => {
+    new Map(feedback.chunks.map(chunk => [chunk.sourceId, chunk.sourceName])).forEach((sourceName, sourceId) => {
+      const entry = sources.get(sourceId) ?? { sourceId, sourceName: sourceName || sourceId, badAnswers: 0, totalAnswers: 0 };
+      entry.totalAnswers += 1;
+      if (feedback.rating === 'down') entry.badAnswers += 1;
+      sources.set(sourceId, entry);
+    });
+  });
+
+  return Array.from(sources.values())
+    .filter(source => source.badAnswers > 0)
+    .sort((a, b) => b.badAnswers - a.badAnswers || b.badAnswers / b.totalAnswers - a.badAnswers / a.totalAnswers)
+    .slice(0, limit);
+};
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import { canMoveFolder, flattenFolders, getDescendantFolderIds, getFolderPath, sortThreads } from './folders';
+import appReducer, {
+  createFolder,
+  deleteFolder,
+  moveFolder,
+  type AppState,
+  type ChatFolder,
+  type ChatThread,
+} from '@/store/slices/appSlice';
+
+const folder = (id: string, name: string, parentId: string | null = null): ChatFolder => ({
+  id,
+  name,
+  parentId,
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+const thread = (id: string, updatedAt: string, extra: Partial<ChatThread> = {}): ChatThread => ({
+  id,
+  title: id,
+  createdAt: updatedAt,
+  updatedAt,
+  messageCount: 0,
+  ...extra,
+});
+
+// work > clients > acme, plus a separate personal folder
+const folders = [
+  folder('work', 'Work'),
+  folder('clients', 'Clients', 'work'),
+  folder('acme', 'Acme', 'clients'),
+  folder('personal', 'Personal'),
+];
+
+const withFolders = (threads: ChatThread[] = []): AppState => ({
+  ...appReducer(undefined, { type: 'init' }),
+  chatFolders: folders,
+  chatThreads: threads,
+});
+
+describe('canMoveFolder', () => {
+  it('rejects moving a folder into itself or its descendants', () => {
+    expect(getDescendantFolderIds(folders, 'work')).toEqual(['clients', 'acme']);
+    expect(canMoveFolder(folders, 'work', 'work')).toBe(false);
+    expect(canMoveFolder(folders, 'work', 'acme')).toBe(false);
+  });
+
+  it('allows moving to another branch or the top level', () => {
+    expect(canMoveFolder(folders, 'acme', 'personal')).toBe(true);
+    expect(canMoveFolder(folders, 'clients', null)).toBe(true);
+  });
+
+  it('leaves the tree unchanged when the reducer gets a cyclic move', () => {
+    const state = appReducer(withFolders(), moveFolder({ folderId: 'work', parentId: 'acme' }));
+    expect(state.chatFolders.find(f => f.id === 'work')?.parentId).toBeNull();
+
+    const moved = appReducer(withFolders(), moveFolder({ folderId: 'acme', parentId: 'personal' }));
+    expect(getFolderPath(moved.chatFolders, 'acme')).toBe('Personal / Acme');
+  });
+});
+
+describe('deleteFolder', () => {
+  it("moves the folder's subfolders and threads up to its parent", () => {
+    const state = appReducer(
+      withFolders([
+        thread('t1', '2026-01-02T00:00:00.000Z', { folderId: 'clients' }),
+        thread('t2', '2026-01-02T00:00:00.000Z', { folderId: 'acme' }),
+      ]),
+      deleteFolder('clients')
+    );
+    expect(state.chatFolders.map(f => f.id)).toEqual(['work', 'acme', 'personal']);
+    expect(state.chatFolders.find(f => f.id === 'acme')?.parentId).toBe('work');
+    expect(state.chatThreads.map(t => t.folderId)).toEqual(['work', 'acme']);
+  });
+
+  it('moves them to the top level when a root folder is deleted', () => {
+    const state = appReducer(withFolders([thread('t1', '2026-01-02T00:00:00.000Z', { folderId: 'work' })]), deleteFolder('work'));
+    expect(state.chatFolders.find(f => f.id === 'clients')?.parentId).toBeNull();
+    expect(state.chatThreads[0].folderId).toBeNull();
+  });
+});
+
+describe('createFolder', () => {
+  it('gives folders created in the same millisecond distinct ids', () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1767225600000);
+    const state = [createFolder({ name: 'A' }), createFolder({ name: 'B' })].reduce(appReducer, withFolders());
+    now.mockRestore();
+    const [a, b] = state.chatFolders.slice(-2);
+    expect(a.id).not.toBe(b.id);
+  });
+});
+
+describe('flattenFolders', () => {
+  it('lists folders depth first, sorted by name, with their depth', () => {
+    expect(flattenFolders(folders).map(({ folder, depth }) => [folder.name, depth])).toEqual([
+      ['Personal', 0],
+      ['Work', 0],
+      ['Clients', 1],
+      ['Acme', 2],
+    ]);
+  });
+});
+
+describe('sortThreads', () => {
+  const threads = [
+    thread('old', '2026-01-01T00:00:00.000Z'),
+    thread('new', '2026-01-03T00:00:00.000Z'),
+    thread('mid', '2026-01-02T00:00:00.000Z'),
+  ];
+  const ids = (sorted: ChatThread[]) => sorted.map(t => t.id);
+
+  it('sorts by recency and creation date', () => {
+    const messageCounts = new Map<string, number>();
+    expect(ids(sortThreads(threads, 'recent', { messageCounts }))).toEqual(['new', 'mid', 'old']);
+    expect(ids(sortThreads(threads, 'oldest', { messageCounts }))).toEqual(['old', 'mid', 'new']);
+  });
+
+  it('sorts by message count, breaking ties by recency', () => {
+    const messageCounts = new Map([['old', 5], ['mid', 2], ['new', 2]]);
+    expect(ids(sortThreads(threads, 'messages', { messageCounts }))).toEqual(['old', 'new', 'mid']);
+  });
+
+  it('sorts by relevance, breaking ties by recency', () => {
+    const relevance = new Map([['old', 0.4], ['mid', 0.9]]);
+    expect(ids(sortThreads(threads, 'relevance', { messageCounts: new Map(), relevance }))).toEqual(['mid', 'old', 'new']);
+    expect(ids(sortThreads(threads, 'relevance', { messageCounts: new Map() }))).toEqual(['new', 'mid', 'old']);
+  });
+
+  it('does not reorder the input', () => {
+    sortThreads(threads, 'recent', { messageCounts: new Map() });
+    expect(ids(threads)).toEqual(['old', 'new', 'mid']);
+  });
+});
@@ -0,0 +1,49 @@
+import type { ChatFolder, ChatThread } from '@/store/slices/appSlice';
+
+// dataTransfer types for dragging threads and folders in the sidebar
+export const THREAD_DRAG_TYPE = 'application/x-ragforge-thread';
+export const FOLDER_DRAG_TYPE = 'application/x-ragforge-folder';
+
+export type ThreadSort = 'recent' | 'oldest' | 'messages' | 'relevance';
+
+// Folder ids below `folderId`, not including itself
+export const getDescendantFolderIds = (folders: ChatFolder[], folderId: string): string[] => {
+  const children = folders.filter(folder => folder.parentId === folderId);
+  return children.flatMap(child => [child.id, ...getDescendantFolderIds(folders, child.id)]);
+};
+
+// A folder can move anywhere except into itself or one of its subfolders
+export const canMoveFolder = (folders: ChatFolder[], folderId: string, parentId: string | null) =>
+  parentId === null || (parentId !== folderId && !getDescendantFolderIds(folders, folderId).includes(parentId));
+
+export const getFolderPath = (folders: ChatFolder[], folderId: string | null | undefined) => {
+  const names: string[] = [];
+  let folder = folderId ? folders.find(f => f.id === folderId) : undefined;
+  for (let depth = 0; folder && depth < folders.length; depth++) {
+    names.unshift(folder.name);
+    folder = folder.parentId ? folders.find(f => f.id === folder.parentId) : undefined;
+  }
+  return names.join(' / ');
+};
+
+// Folders in display order, each with its nesting depth
+export const flattenFolders = (folders: ChatFolder[], parentId: string | null = null, depth = 0): Array<{ folder: ChatFolder; depth: number }> =>
+  folders
+    .filter(folder => (folder.parentId ?? null) === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(folder => [{ folder, depth }, ...flattenFolders(folders, folder.id, depth + 1)]);
+
+export const sortThreads = (
+  threads: ChatThread[],
+  sort: ThreadSort,
+  { messageCounts, relevance }: { messageCounts: Map<string, number>; relevance?: Map<string, number> }
+) => {
+  const byRecent = (a: ChatThread, b: ChatThread) => b.updatedAt.localeCompare(a.updatedAt);
+  const compare: Record<ThreadSort, (a: ChatThread, b: ChatThread) => number> = {
+    recent: byRecent,
+    oldest: (a, b) => a.createdAt.localeCompare(b.createdAt),
+    messages: (a, b) => (messageCounts.get(b.id) ?? 0) - (messageCounts.get(a.id) ?? 0) || byRecent(a, b),
+    relevance: (a, b) => (relevance?.get(b.id) ?? 0) - (relevance?.get(a.id) ?? 0) || byRecent(a, b),
+  };
+  return [...threads].sort(compare[sort]);
+};
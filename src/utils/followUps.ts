@@ -0,0 +1,37 @@
+import type { OllamaChatMessage } from '@/utils/ollama';
+import { truncateToTokens } from '@/utils/tokenizer';
+
+export const FOLLOW_UP_COUNT = 3;
+
+const FOLLOW_UP_INSTRUCTIONS =
+  `Suggest ${FOLLOW_UP_COUNT} short follow-up questions the user might ask next, based on the answer and the ` +
+  'source passages. Each must be answerable from the passages or the conversation, under 15 words, and ' +
+  'different from the original question. Reply with one question per line and nothing else.';
+
+export const buildFollowUpPrompt = (question: string, answer: string, passages: string[]): OllamaChatMessage[] => [
+  { role: 'system', content: FOLLOW_UP_INSTRUCTIONS },
+  {
+    role: 'user',
+    content:
+      `Question: ${truncateToTokens(question, 200)}\n\nAnswer: ${truncateToTokens(answer, 600)}` +
+      (passages.length
+        ? `\n\nPassages:\n${passages.map(p => `- ${truncateToTokens(p.replace(/\s+/g, ' '), 150)}`).join('\n')}`
+        : ''),
+  },
+];
+
+// Models number or bullet their lists despite being asked not to.
+export const parseFollowUps = (raw: string, question: string): string[] => {
+  const seen = new Set([question.trim().toLowerCase()]);
+  return raw
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^["'`]+|["'`]+$/g, '').trim())
+    .filter(line => line.endsWith('?') && line.length <= 160)
+    .filter(line => {
+      const key = line.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, FOLLOW_UP_COUNT);
+};
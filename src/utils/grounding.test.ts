@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { Root, Element } from 'hast';
+import { extractClaims } from './grounding';
+import { rehypeHighlightClaims } from './rehypeHighlightClaims';
+
+describe('extractClaims', () => {
+  it('strips paired emphasis, links, code ticks and citation markers', () => {
+    expect(extractClaims('The **annual** plan is *cheaper* than ~~monthly~~ billing [1]. See [the docs](https://x.y) for `pricing` details.')).toEqual([
+      'The annual plan is cheaper than monthly billing.',
+      'See the docs for pricing details.',
+    ]);
+  });
+
+  it('keeps underscores and asterisks that are not emphasis', () => {
+    expect(extractClaims('Set max_tokens and snake_case keys before calling __init__ helpers.')).toEqual([
+      'Set max_tokens and snake_case keys before calling init helpers.',
+    ]);
+    expect(extractClaims('Multiply 2 * 3 * 4 to get twenty four items.')).toEqual([
+      'Multiply 2 * 3 * 4 to get twenty four items.',
+    ]);
+    expect(extractClaims('The _underlined_ option overrides the __strong__ default setting.')).toEqual([
+      'The underlined option overrides the strong default setting.',
+    ]);
+  });
+
+  it('leaves emphasis characters inside code spans alone', () => {
+    expect(extractClaims('Use the `*_glob_*` pattern for matching nested folders.')).toEqual([
+      'Use the *_glob_* pattern for matching nested folders.',
+    ]);
+  });
+
+  it('skips code blocks, headings, tables, questions and short fragments', () => {
+    const content = [
+      '# Refund policy',
+      'Refunds are processed within ten business days.',
+      '```',
+      'refunds are ignored inside code blocks entirely',
+      '```',
+      '| col | col |',
+      '- Customers may request refunds online. Is that clear?',
+      'Yes.',
+    ].join('\n');
+    expect(extractClaims(content)).toEqual([
+      'Refunds are processed within ten business days.',
+      'Customers may request refunds online.',
+    ]);
+  });
+});
+
+describe('rehypeHighlightClaims', () => {
+  const text = (value: string) => ({ type: 'text' as const, value });
+  const element = (tagName: string, children: Element['children'], properties = {}): Element => ({
+    type: 'element',
+    tagName,
+    properties,
+    children,
+  });
+
+  it('marks a claim containing identifiers with underscores', () => {
+    const [claim] = extractClaims('Set `max_tokens` to 512 for snake_case keys [1].');
+    const paragraph = element('p', [
+      text('Set '),
+      element('code', [text('max_tokens')]),
+      text(' to 512 for snake_case keys '),
+      element('sup', [text('1')], { 'data-citation': 1 }),
+      text('.'),
+    ]);
+    const tree: Root = { type: 'root', children: [paragraph] };
+
+    rehypeHighlightClaims({ claims: [{ text: claim, note: 'Unsupported' }] })(tree);
+
+    expect(paragraph.children[0]).toMatchObject({ tagName: 'mark', children: [{ value: 'Set ' }] });
+    expect(paragraph.children[2]).toMatchObject({ tagName: 'mark', children: [{ value: ' to 512 for snake_case keys ' }] });
+    expect(paragraph.children[4]).toMatchObject({ tagName: 'mark', children: [{ value: '.' }] });
+  });
+});
@@ -0,0 +1,179 @@
+import { format, startOfDay, subDays } from 'date-fns';
+import type { OllamaChatMessage } from '@/utils/ollama';
+import { tokenizeTerms } from '@/utils/retrieval';
+import { truncateToTokens } from '@/utils/tokenizer';
+
+// Claims with at least this share of their terms in one passage are treated
+// as supported without asking the model.
+export const SUPPORTED_OVERLAP = 0.75;
+// Used instead of the model's verdict when the entailment call fails
+export const FALLBACK_OVERLAP = 0.5;
+const MIN_CLAIM_TERMS = 3;
+const PASSAGE_TOKENS = 300;
+
+export interface ClaimCheck {
+  // Sentence text with markdown and citation markers removed
+  text: string;
+  supported: boolean;
+  overlap: number;
+  chunkId?: string;
+  reason?: string;
+}
+
+export interface GroundingResult {
+  claims: ClaimCheck[];
+  score: number;
+  method: 'lexical' | 'entailment';
+  checkedAt: string;
+}
+
+export interface GroundingPassage {
+  chunkId: string;
+  content: string;
+}
+
+const ENTAILMENT_INSTRUCTIONS =
+  'You check whether claims are supported by source passages. For every numbered claim, decide if the ' +
+  'passages state or directly imply it. Reply with a JSON array only, one object per claim: ' +
+  '[{"claim": 1, "supported": true, "reason": "short explanation"}].';
+
+// Removes paired emphasis delimiters the way the markdown renderer reads
+// them: `*` may open and close inside a word, `_` only at word boundaries, so
+// identifiers like snake_case keep their underscores.
+const stripEmphasis = (text: string) =>
+  text
+    .replace(/\*\*(?=\S)(.*?\S)\*\*/g, '$1')
+    .replace(/(^|[^\p{L}\p{N}_])__(?=\S)(.*?\S)__(?![\p{L}\p{N}_])/gu, '$1$2')
+    .replace(/~~(?=\S)(.*?\S)~~/g, '$1')
+    .replace(/\*(?=\S)(.*?\S)\*/g, '$1')
+    .replace(/(^|[^\p{L}\p{N}_])_(?=\S)(.*?\S)_(?![\p{L}\p{N}_])/gu, '$1$2');
+
+const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[\d+\]/g, '')
+    // Code spans are shown verbatim, so only the text around them loses emphasis
+    .split(/(`[^`]*`)/)
+    .map(part => (/^`[^`]*`$/.test(part) ? part.slice(1, -1) : stripEmphasis(part)))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.!?,;:])/g, '$1')
+    .trim();
+
+// Splits an answer into sentence-level claims, skipping code, tables,
+// headings, questions and fragments too short to check.
+export const extractClaims = (content: string): string[] => {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+  const flush = () => {
+    if (paragraph.length) blocks.push(paragraph.join(' '));
+    paragraph = [];
+  };
+
+  content.split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      flush();
+      return;
+    }
+    if (inFence || /^\s*(#|\||\$\$)/.test(line) || !line.trim()) {
+      flush();
+      return;
+    }
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)]|>)\s+(.*)$/);
+    if (item) {
+      flush();
+      paragraph.push(item[1]);
+      return;
+    }
+    paragraph.push(line.trim());
+  });
+  flush();
+
+  return blocks
+    .flatMap(block => stripInlineMarkdown(block).match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => !sentence.endsWith('?') && tokenizeTerms(sentence).length >= MIN_CLAIM_TERMS);
+};
+
+// Light stemming so "reports" matches "report"
+const stem = (term: string) => term.replace(/(ies|es|s)$/, '');
+
+const termSet = (text: string) => new Set(tokenizeTerms(text).map(stem));
+
+// Share of the claim's terms found in its best matching passage.
+export const measureOverlap = (claim: string, passages: GroundingPassage[]) => {
+  const claimTerms = Array.from(termSet(claim));
+  let best = { overlap: 0, chunkId: undefined as string | undefined };
+  passages.forEach(passage => {
+    const passageTerms = termSet(passage.content);
+    const overlap = claimTerms.filter(term => passageTerms.has(term)).length / Math.max(1, claimTerms.length);
+    if (overlap > best.overlap) best = { overlap, chunkId: passage.chunkId };
+  });
+  return best;
+};
+
+export const buildEntailmentPrompt = (claims: string[], passages: GroundingPassage[]): OllamaChatMessage[] => [
+  { role: 'system', content: ENTAILMENT_INSTRUCTIONS },
+  {
+    role: 'user',
+    content:
+      `Passages:\n${passages.map((p, i) => `[${i + 1}] ${truncateToTokens(p.content, PASSAGE_TOKENS)}`).join('\n\n')}` +
+      `\n\nClaims:\n${claims.map((claim, i) => `${i + 1}. ${claim}`).join('\n')}`,
+  },
+];
+
+// Verdicts keyed by 1-based claim number. Unparseable output yields an empty map.
+export const parseEntailment = (raw: string) => {
+  const verdicts = new Map<number, { supported: boolean; reason?: string }>();
+  const json = raw.slice(raw.indexOf('['), raw.lastIndexOf(']') + 1);
+  try {
+    const entries: unknown = JSON.parse(json);
+    if (!Array.isArray(entries)) return verdicts;
+    entries.forEach((entry, i) => {
+      const item = entry as Record<string, unknown>;
+      const claim = typeof item?.claim === 'number' ? item.claim : i + 1;
+      if (typeof item?.supported === 'boolean') {
+        verdicts.set(claim, {
+          supported: item.supported,
+          reason: typeof item.reason === 'string' ? item.reason : undefined,
+        });
+      }
+    });
+  } catch {
+    // Model did not return JSON
+  }
+  return verdicts;
+};
+
+export const describeOverlap = (overlap: number) =>
+  `Only ${Math.round(overlap * 100)}% of its key terms appear in the retrieved passages`;
+
+export const groundednessScore = (claims: ClaimCheck[]) =>
+  claims.length === 0 ? 1 : claims.filter(claim => claim.supported).length / claims.length;
+
+interface GroundingRecord {
+  timestamp: string;
+  metadata?: { groundedness?: number };
+}
+
+// Average groundedness of checked answers per day, for the Analytics chart.
+export const getDailyGroundedness = (messages: GroundingRecord[], days: number) => {
+  const today = startOfDay(new Date());
+  return Array.from({ length: days }, (_, i) => {
+    const day = subDays(today, days - 1 - i);
+    const next = subDays(day, -1);
+    const scores = messages
+      .filter(m => {
+        const time = new Date(m.timestamp);
+        return m.metadata?.groundedness !== undefined && time >= day && time < next;
+      })
+      .map(m => m.metadata.groundedness);
+    return {
+      date: format(day, 'MMM dd'),
+      answers: scores.length,
+      groundedness: scores.length ? Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 100) : null,
+    };
+  });
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { streamOllamaChat, embedOllama, getEmbeddingModelError, OllamaError } from './ollama';
+import appReducer from '@/store/slices/appSlice';
+
+const respond = (status: number, body: string) =>
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status })));
+
+const chat = () =>
+  streamOllamaChat({ endpoint: 'http://localhost:11434/', model: 'llama3', messages: [] }, () => undefined);
+
+const errorCode = (promise: Promise<unknown>) =>
+  promise.then(
+    () => undefined,
+    (error: OllamaError) => error.code
+  );
+
+describe('Ollama error classification', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('treats a 404 from /api/chat as a missing model', async () => {
+    respond(404, '404 page not found');
+    await expect(errorCode(chat())).resolves.toBe('model_not_found');
+  });
+
+  it("recognizes Ollama's model not found message on any status", async () => {
+    respond(400, JSON.stringify({ error: 'model "llama3" not found, try pulling it first' }));
+    await expect(errorCode(chat())).resolves.toBe('model_not_found');
+
+    respond(404, JSON.stringify({ error: "model 'nomic-embed-text' not found" }));
+    await expect(
+      errorCode(embedOllama({ endpoint: 'http://localhost:11434', model: 'nomic-embed-text', input: ['a'] }))
+    ).resolves.toBe('model_not_found');
+  });
+
+  it('keeps unrelated "not found" errors as HTTP errors', async () => {
+    respond(500, JSON.stringify({ error: 'open /root/.ollama/models/blobs/sha256-abc: file not found' }));
+    await expect(chat()).rejects.toMatchObject({ code: 'http_error', message: expect.stringContaining('file not found') });
+
+    respond(404, '404 page not found');
+    await expect(
+      errorCode(embedOllama({ endpoint: 'http://localhost:11434', model: 'nomic-embed-text', input: ['a'] }))
+    ).resolves.toBe('http_error');
+  });
+
+  it('classifies model errors reported mid-stream', async () => {
+    respond(200, '{"message":{"content":"Hi"}}\n{"error":"model \\"llama3\\" not found"}\n');
+    await expect(errorCode(chat())).resolves.toBe('model_not_found');
+  });
+});
+
+describe('embedding model check', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('rejects models Ollama does not have before sending a request', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    await expect(
+      embedOllama({ endpoint: 'http://localhost:11434', model: 'text-embedding-ada-002', input: ['a'] })
+    ).rejects.toMatchObject({ code: 'invalid_model', message: expect.stringContaining('nomic-embed-text') });
+    await expect(
+      embedOllama({ endpoint: 'http://localhost:11434', model: ' ', input: ['a'] })
+    ).rejects.toMatchObject({ code: 'invalid_model' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('accepts the default embedding model', () => {
+    const { settings } = appReducer(undefined, { type: 'init' });
+    expect(getEmbeddingModelError(settings.embeddingModel)).toBeUndefined();
+    expect(getEmbeddingModelError('all-minilm')).toBeUndefined();
+  });
+});
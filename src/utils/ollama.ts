@@ -0,0 +1,239 @@
+import { readEventStream } from '@/utils/streamParser';
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+export interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: OllamaToolCall[];
+}
+
+export interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface OllamaChatRequest {
+  endpoint: string;
+  model: string;
+  messages: OllamaChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: OllamaTool[];
+  signal?: AbortSignal;
+}
+
+export interface OllamaChatResult {
+  content: string;
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalDuration?: number;
+  toolCalls?: OllamaToolCall[];
+}
+
+export type OllamaErrorCode =
+  | 'connection_refused'
+  | 'model_not_found'
+  | 'invalid_model'
+  | 'http_error'
+  | 'stream_error';
+
+export class OllamaError extends Error {
+  constructor(public code: OllamaErrorCode, message: string) {
+    super(message);
+    this.name = 'OllamaError';
+  }
+}
+
+const normalizeEndpoint = (endpoint: string) => endpoint.replace(/\/+$/, '');
+
+// Ollama reports a missing model as `model "name" not found, try pulling it first`
+const MODEL_NOT_FOUND_PATTERN = /\bmodel\s+["'][^"']+["']\s+not found/i;
+
+const toOllamaError = (status: number, body: string, model: string, path: string): OllamaError => {
+  let message = body;
+  try {
+    message = JSON.parse(body).error || body;
+  } catch (e) {
+    // Plain-text error body
+  }
+
+  if ((status === 404 && path === '/api/chat') || MODEL_NOT_FOUND_PATTERN.test(message)) {
+    return new OllamaError(
+      'model_not_found',
+      `Model "${model}" is not available on the Ollama server. Pull it with \`ollama pull ${model}\`.`
+    );
+  }
+  return new OllamaError('http_error', message || `Ollama request failed with status ${status}`);
+};
+
+// Streams a chat completion from Ollama's NDJSON /api/chat endpoint, calling
+// onToken for every content delta and resolving with the full response.
+export async function streamOllamaChat(
+  request: OllamaChatRequest,
+  onToken: (token: string) => void
+): Promise<OllamaChatResult> {
+  const { endpoint, model, messages, temperature, maxTokens, tools, signal } = request;
+
+  let response: Response;
+  try {
+    response = await fetch(`${normalizeEndpoint(endpoint)}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        ...(tools?.length && { tools }),
+        stream: true,
+        options: {
+          temperature,
+          num_predict: maxTokens,
+        },
+      }),
+      signal,
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new OllamaError(
+      'connection_refused',
+      `Could not connect to Ollama at ${endpoint}. Make sure the server is running.`
+    );
+  }
+
+  if (!response.ok) {
+    throw toOllamaError(response.status, await response.text(), model, '/api/chat');
+  }
+
+  if (!response.body) {
+    throw new OllamaError('stream_error', 'No response body');
+  }
+
+  const result: OllamaChatResult = { content: '', model };
+
+  for await (const event of readEventStream(response.body, 'ndjson')) {
+    let parsed;
+    try {
+      parsed = JSON.parse(event.data);
+    } catch (e) {
+      throw new OllamaError('stream_error', 'Received malformed data from Ollama');
+    }
+
+    if (parsed.error) {
+      throw toOllamaError(500, event.data, model, '/api/chat');
+    }
+
+    const token = parsed.message?.content;
+    if (token) {
+      result.content += token;
+      onToken(token);
+    }
+
+    if (parsed.message?.tool_calls?.length) {
+      result.toolCalls = [...(result.toolCalls || []), ...parsed.message.tool_calls];
+    }
+
+    if (parsed.done) {
+      result.model = parsed.model || model;
+      result.promptTokens = parsed.prompt_eval_count;
+      result.completionTokens = parsed.eval_count;
+      result.totalDuration = parsed.total_duration;
+    }
+  }
+
+  return result;
+}
+
+// Models installed on the Ollama server, from /api/tags.
+export async function listOllamaModels(endpoint: string): Promise<string[]> {
+  let response: Response;
+  try {
+    response = await fetch(`${normalizeEndpoint(endpoint)}/api/tags`);
+  } catch (error) {
+    throw new OllamaError(
+      'connection_refused',
+      `Could not connect to Ollama at ${endpoint}. Make sure the server is running.`
+    );
+  }
+
+  if (!response.ok) {
+    throw new OllamaError('http_error', `Ollama request failed with status ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.models || []).map((model: { name: string }) => model.name);
+}
+
+export interface OllamaEmbedRequest {
+  endpoint: string;
+  model: string;
+  input: string[];
+  signal?: AbortSignal;
+}
+
+// OpenAI and sentence-transformers names that older settings may still hold;
+// Ollama has no models by these names.
+const FOREIGN_EMBEDDING_MODEL_PATTERN = /^(text-embedding-|sentence-transformers$)/;
+
+// Why `model` cannot be used with /api/embed, or undefined when it can
+export const getEmbeddingModelError = (model: string) => {
+  if (!model.trim()) {
+    return 'No embedding model is set. Choose an Ollama embedding model such as nomic-embed-text in Settings.';
+  }
+  if (FOREIGN_EMBEDDING_MODEL_PATTERN.test(model)) {
+    return `"${model}" is not an Ollama embedding model. Choose one such as nomic-embed-text in Settings.`;
+  }
+  return undefined;
+};
+
+// One vector per input, from Ollama's /api/embed endpoint.
+export async function embedOllama(request: OllamaEmbedRequest): Promise<number[][]> {
+  const { endpoint, model, input, signal } = request;
+  const modelError = getEmbeddingModelError(model);
+  if (modelError) {
+    throw new OllamaError('invalid_model', modelError);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${normalizeEndpoint(endpoint)}/api/embed`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model, input }),
+      signal,
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new OllamaError(
+      'connection_refused',
+      `Could not connect to Ollama at ${endpoint}. Make sure the server is running.`
+    );
+  }
+
+  if (!response.ok) {
+    throw toOllamaError(response.status, await response.text(), model, '/api/embed');
+  }
+
+  const data = await response.json();
+  if (!Array.isArray(data.embeddings) || data.embeddings.length !== input.length) {
+    throw new OllamaError('http_error', `Model "${model}" did not return embeddings`);
+  }
+  return data.embeddings;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { buildPdfConversation, isPdfTextSafe, planSlices } from './pdfExport';
+import type { ChatMessage, ChatThread } from '@/store/slices/appSlice';
+
+describe('planSlices', () => {
+  it('keeps a block that fits in one slice', () => {
+    expect(planSlices(300, [100, 300], 1000)).toEqual([{ start: 0, end: 300 }]);
+  });
+
+  it('ends slices at the last break point in their lower half', () => {
+    expect(planSlices(2500, [200, 700, 950, 1300, 1800, 2500], 1000)).toEqual([
+      { start: 0, end: 950 },
+      { start: 950, end: 1800 },
+      { start: 1800, end: 2500 },
+    ]);
+  });
+
+  it('cuts at the page limit when no break point is close enough', () => {
+    expect(planSlices(2100, [100], 1000)).toEqual([
+      { start: 0, end: 1000 },
+      { start: 1000, end: 2000 },
+      { start: 2000, end: 2100 },
+    ]);
+  });
+});
+
+describe('isPdfTextSafe', () => {
+  it('accepts Latin-1 and WinAnsi punctuation', () => {
+    expect(isPdfTextSafe('Café “quotes” – €5 • naïve\n')).toBe(true);
+  });
+
+  it('rejects characters the built-in fonts cannot encode', () => {
+    expect(isPdfTextSafe('日本語のドキュメント')).toBe(false);
+    expect(isPdfTextSafe('Привет')).toBe(false);
+  });
+});
+
+describe('buildPdfConversation', () => {
+  const thread: ChatThread = {
+    id: 't1',
+    title: 'Refunds',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    messageCount: 5,
+    branchSelections: { q1: 'a1' },
+  };
+  const citation = (index: number, chunkId: string) => ({
+    id: `cite-${index}-${chunkId}`,
+    index,
+    text: `excerpt ${chunkId}`,
+    sourceId: 'ds-1',
+    sourceName: 'policy.pdf',
+    chunkId,
+    score: 0.5,
+  });
+  const message = (id: string, parentId: string | null, role: 'user' | 'assistant', citations?: ChatMessage['citations']): ChatMessage =>
+    ({ id, threadId: 't1', parentId, role, content: id, timestamp: '2026-01-01T00:00:00.000Z', citations });
+
+  it('exports the active branch and numbers each cited chunk once', () => {
+    const conversation = buildPdfConversation(thread, [
+      message('q1', null, 'user'),
+      message('a1', 'q1', 'assistant', [citation(1, 'c1'), citation(2, 'c2')]),
+      message('a1-old', 'q1', 'assistant', [citation(1, 'c9')]),
+      message('q2', 'a1', 'user'),
+      message('a2', 'q2', 'assistant', [citation(1, 'c2'), citation(2, 'c3')]),
+    ]);
+
+    expect(conversation.messages.map(m => m.id)).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(conversation.references.map(r => [r.number, r.chunkId])).toEqual([[1, 'c1'], [2, 'c2'], [3, 'c3']]);
+    expect(conversation.referenceNumbers).toEqual({ a1: { 1: 1, 2: 2 }, a2: { 1: 2, 2: 3 } });
+  });
+});
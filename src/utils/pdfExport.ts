@@ -0,0 +1,304 @@
+import { createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import html2canvas from 'html2canvas';
+import { jsPDF } from 'jspdf';
+import { ChatPdfDocument } from '@/components/ChatPdfDocument';
+import type { ChatMessage, ChatThread } from '@/store/slices/appSlice';
+import { getActivePath } from '@/utils/branches';
+
+export interface PdfExportOptions {
+  includeChunks: boolean;
+}
+
+export interface PdfReference {
+  number: number;
+  sourceId: string;
+  sourceName: string;
+  chunkId: string;
+  pageNumber?: number;
+  excerpt: string;
+  // Full chunk text, for the appendix
+  text: string;
+}
+
+export interface PdfConversation {
+  thread: ChatThread;
+  messages: ChatMessage[];
+  // One entry per cited chunk, numbered across the whole conversation
+  references: PdfReference[];
+  // messageId -> citation marker in the answer -> reference number
+  referenceNumbers: Record<string, Record<number, number>>;
+}
+
+// A4 at 96dpi; sections are laid out at this width and scaled onto the page
+const PAGE_WIDTH_PX = 794;
+const PAGE_MARGIN_PT = 36;
+const RENDER_SCALE = 2;
+
+// Answers number their citations per message; the PDF numbers each cited
+// chunk once per conversation so the references section has no duplicates.
+export const buildPdfConversation = (thread: ChatThread, threadMessages: ChatMessage[]): PdfConversation => {
+  const messages = getActivePath(threadMessages, thread.branchSelections);
+  const references: PdfReference[] = [];
+  const referenceNumbers: PdfConversation['referenceNumbers'] = {};
+
+  messages.forEach(message => {
+    (message.citations || []).forEach(citation => {
+      let reference = references.find(r => r.chunkId === citation.chunkId);
+      if (!reference) {
+        reference = {
+          number: references.length + 1,
+          sourceId: citation.sourceId,
+          sourceName: citation.sourceName || citation.sourceId,
+          chunkId: citation.chunkId,
+          pageNumber: citation.pageNumber,
+          excerpt: citation.text,
+          text: citation.context || citation.text,
+        };
+        references.push(reference);
+      }
+      if (citation.index !== undefined) {
+        referenceNumbers[message.id] = { ...referenceNumbers[message.id], [citation.index]: reference.number };
+      }
+    });
+  });
+
+  return { thread, messages, references, referenceNumbers };
+};
+
+const nextFrame = () => new Promise(resolve => requestAnimationFrame(() => resolve(undefined)));
+
+// Characters the PDF's built-in Helvetica can encode (WinAnsi). Text with
+// anything else is rasterized instead so it does not come out garbled.
+const WIN_ANSI_PATTERN = /^[\t\n\r\x20-\x7e\xa0-\xff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]*$/;
+
+export const isPdfTextSafe = (text: string) => WIN_ANSI_PATTERN.test(text);
+
+// Splits a block of `height` px into page-sized slices, ending each slice at
+// the last break point in its lower half so lines of text are not cut.
+export const planSlices = (height: number, breakPoints: number[], sliceLimit: number) => {
+  const slices: Array<{ start: number; end: number }> = [];
+  let start = 0;
+  while (start < height - 1) {
+    let end = Math.min(height, start + sliceLimit);
+    if (end < height) {
+      const candidates = breakPoints.filter(point => point > start + sliceLimit / 2 && point <= end);
+      if (candidates.length) end = candidates[candidates.length - 1];
+    }
+    slices.push({ start, end });
+    start = end;
+  }
+  return slices;
+};
+
+// Offsets (CSS px from the block top) where a page may end without cutting
+// through a line of text.
+const getBreakPoints = (block: HTMLElement) => {
+  const top = block.getBoundingClientRect().top;
+  const lines = block.querySelectorAll('p, li, pre, tr, h1, h2, h3, h4, blockquote, hr, .katex-display');
+  return Array.from(lines)
+    .map(line => line.getBoundingClientRect().bottom - top)
+    .sort((a, b) => a - b);
+};
+
+// Captures (part of) one block. Each capture is at most a page tall, which
+// keeps canvases well inside browser size limits however long the export is.
+const renderRegion = (block: HTMLElement, y: number, height: number) =>
+  html2canvas(block, {
+    scale: RENDER_SCALE,
+    backgroundColor: '#ffffff',
+    windowWidth: PAGE_WIDTH_PX,
+    logging: false,
+    y,
+    height: Math.ceil(height),
+    onclone: (doc) => {
+      // Export in light colors whatever the app theme, and without copy buttons
+      doc.documentElement.classList.remove('dark');
+      doc.querySelectorAll('[data-pdf-root] button').forEach(button => button.remove());
+    },
+  });
+
+// Where the next content goes: the current page and the y offset on it (pt)
+interface PageCursor {
+  pdf: jsPDF;
+  y: number;
+}
+
+const pageMetrics = (pdf: jsPDF) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  return { pageWidth, pageHeight, ptPerPx: pageWidth / PAGE_WIDTH_PX, bottom: pageHeight - PAGE_MARGIN_PT };
+};
+
+const newPage = (cursor: PageCursor) => {
+  cursor.pdf.addPage();
+  cursor.y = PAGE_MARGIN_PT;
+};
+
+// Adds a block's images at the cursor, moving to a new page when it does not
+// fit and slicing blocks taller than a page at line boundaries.
+const addBlock = async (cursor: PageCursor, block: HTMLElement, section: HTMLElement, gap: number) => {
+  const { ptPerPx, bottom } = pageMetrics(cursor.pdf);
+  const bounds = block.getBoundingClientRect();
+  const x = (bounds.left - section.getBoundingClientRect().left) * ptPerPx;
+  const pageLimit = (bottom - PAGE_MARGIN_PT) / ptPerPx;
+
+  if (cursor.y > PAGE_MARGIN_PT) cursor.y += gap * ptPerPx;
+  if (cursor.y + bounds.height * ptPerPx > bottom && cursor.y > PAGE_MARGIN_PT) newPage(cursor);
+
+  for (const { start, end } of planSlices(bounds.height, getBreakPoints(block), pageLimit)) {
+    if (cursor.y + (end - start) * ptPerPx > bottom + 1) newPage(cursor);
+    const canvas = await renderRegion(block, start, end - start);
+    cursor.pdf.addImage(canvas, 'JPEG', x, cursor.y, bounds.width * ptPerPx, (end - start) * ptPerPx, undefined, 'FAST');
+    cursor.y += (end - start) * ptPerPx;
+  }
+};
+
+interface TextStyle {
+  size: number;
+  bold?: boolean;
+  color?: number;
+  indent?: number;
+  spaceBefore?: number;
+}
+
+// Writes selectable text at the cursor, wrapping lines and paging as needed
+const addText = (cursor: PageCursor, text: string, { size, bold, color = 20, indent = 0, spaceBefore = 0 }: TextStyle) => {
+  const { pdf } = cursor;
+  const { pageWidth, bottom } = pageMetrics(pdf);
+  const lineHeight = size * 1.35;
+  pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+  pdf.setFontSize(size);
+  pdf.setTextColor(color);
+
+  if (cursor.y > PAGE_MARGIN_PT) cursor.y += spaceBefore;
+  const lines: string[] = pdf.splitTextToSize(text, pageWidth - PAGE_MARGIN_PT * 2 - indent);
+  lines.forEach(line => {
+    if (cursor.y + lineHeight > bottom) newPage(cursor);
+    pdf.text(line, PAGE_MARGIN_PT + indent, cursor.y, { baseline: 'top' });
+    cursor.y += lineHeight;
+  });
+};
+
+const describeReference = (reference: PdfReference) =>
+  reference.pageNumber ? `${reference.sourceName}, p. ${reference.pageNumber}` : reference.sourceName;
+
+const referencesAsText = (references: PdfReference[], field: 'excerpt' | 'text') =>
+  references.every(reference => isPdfTextSafe(describeReference(reference)) && isPdfTextSafe(reference[field]));
+
+const addReferences = (cursor: PageCursor, references: PdfReference[]) => {
+  addText(cursor, 'References', { size: 13, bold: true, spaceBefore: 24 });
+  references.forEach(reference => {
+    addText(cursor, `[${reference.number}] ${describeReference(reference)}`, { size: 10, bold: true, spaceBefore: 6 });
+    addText(cursor, reference.excerpt, { size: 8.5, color: 90, indent: 24 });
+  });
+};
+
+const addAppendix = (cursor: PageCursor, conversations: PdfConversation[]) => {
+  addText(cursor, 'Appendix: retrieved passages', { size: 18, bold: true });
+  addText(cursor, "Full text of every cited chunk, numbered as in each conversation's references.", {
+    size: 8.5,
+    color: 110,
+    spaceBefore: 2,
+  });
+  conversations.forEach(({ thread, references }) => {
+    if (conversations.length > 1) addText(cursor, thread.title, { size: 13, bold: true, spaceBefore: 18 });
+    references.forEach(reference => {
+      addText(cursor, `[${reference.number}] ${describeReference(reference)}`, { size: 10, bold: true, spaceBefore: 10 });
+      addText(cursor, reference.text, { size: 8.5, color: 70, indent: 12 });
+    });
+  });
+};
+
+// Rasterizes a section block by block. Blocks inside a [data-pdf-text]
+// group are skipped when the group was written as text instead.
+const addSectionBlocks = async (cursor: PageCursor, section: HTMLElement, textGroups: Set<string>) => {
+  let previousBottom: number | undefined;
+  for (const block of Array.from(section.querySelectorAll<HTMLElement>('[data-pdf-block]'))) {
+    const group = block.closest<HTMLElement>('[data-pdf-text]')?.dataset.pdfText;
+    if (group && textGroups.has(group)) continue;
+    const bounds = block.getBoundingClientRect();
+    await addBlock(cursor, block, section, previousBottom === undefined ? 0 : Math.max(0, bounds.top - previousBottom));
+    previousBottom = bounds.bottom;
+  }
+};
+
+const addPageNumbers = (pdf: jsPDF) => {
+  const total = pdf.getNumberOfPages();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.setTextColor(120);
+  for (let page = 2; page <= total; page++) {
+    pdf.setPage(page);
+    pdf.text(`${page} / ${total}`, pageWidth / 2, pageHeight - PAGE_MARGIN_PT / 2, { align: 'center' });
+  }
+};
+
+// Renders the conversations off screen and lays them out on A4 pages: the
+// cover and messages as images captured one block at a time, references and
+// the passage appendix as selectable text. Returns the file name.
+export const exportConversationsToPdf = async (
+  conversations: PdfConversation[],
+  options: PdfExportOptions
+): Promise<string> => {
+  const host = document.createElement('div');
+  host.style.cssText = `position: fixed; top: 0; left: -${PAGE_WIDTH_PX * 2}px; width: ${PAGE_WIDTH_PX}px;`;
+  document.body.appendChild(host);
+  const root = createRoot(host);
+
+  try {
+    const exportedAt = new Date().toISOString();
+    flushSync(() => {
+      root.render(createElement(ChatPdfDocument, { conversations, includeChunks: options.includeChunks, exportedAt }));
+    });
+    await document.fonts.ready;
+    await nextFrame();
+    await nextFrame();
+
+    const pdf = new jsPDF({ unit: 'pt', format: 'a4', compress: true });
+    const title = conversations.length === 1 ? conversations[0].thread.title : `${conversations.length} conversations`;
+    pdf.setProperties({ title, creator: 'RagForge' });
+    const cursor: PageCursor = { pdf, y: PAGE_MARGIN_PT };
+
+    // Sources in scripts Helvetica cannot encode keep the rendered layout
+    const textGroups = new Set(
+      conversations.filter(c => referencesAsText(c.references, 'excerpt')).map(c => `references-${c.thread.id}`)
+    );
+    const withReferences = conversations.filter(c => c.references.length > 0);
+    if (options.includeChunks && withReferences.every(c => referencesAsText(c.references, 'text'))) {
+      textGroups.add('appendix');
+    }
+
+    const sections = Array.from(host.querySelectorAll<HTMLElement>('[data-pdf-section]'));
+    for (const [i, section] of sections.entries()) {
+      if (i > 0) newPage(cursor);
+      const page = pdf.getNumberOfPages();
+      await addSectionBlocks(cursor, section, textGroups);
+
+      const threadId = section.dataset.pdfThread;
+      const conversation = conversations.find(c => c.thread.id === threadId);
+      if (conversation?.references.length && textGroups.has(`references-${conversation.thread.id}`)) {
+        addReferences(cursor, conversation.references);
+      }
+      if (section.dataset.pdfText === 'appendix' && textGroups.has('appendix')) {
+        addAppendix(cursor, withReferences);
+      }
+
+      const bookmark = section.dataset.pdfSection;
+      if (bookmark) pdf.outline.add(null, bookmark, { pageNumber: page });
+    }
+    addPageNumbers(pdf);
+
+    const filename = conversations.length === 1
+      ? `${conversations[0].thread.title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'chat'}.pdf`
+      : `ragforge-chats-${Date.now()}.pdf`;
+    pdf.save(filename);
+    return filename;
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+};
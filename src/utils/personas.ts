@@ -0,0 +1,68 @@
+import type { Persona, PersonaConfig } from '@/store/slices/appSlice';
+
+const EXPORT_TYPE = 'ragforge-personas';
+const EXPORT_VERSION = 1;
+
+export type PersonaInput = { name: string; description?: string } & PersonaConfig;
+
+// Threads remember which version of a persona they started with, so later
+// edits to the persona do not change conversations already under way.
+export const resolvePersonaConfig = (persona: Persona, version?: number): PersonaConfig => {
+  const snapshot = version !== undefined && version !== persona.version
+    ? persona.history.find(entry => entry.version === version)
+    : undefined;
+  const { systemPrompt, model, temperature, retrievalEnabled, preferredSourceIds } = snapshot ?? persona;
+  return { systemPrompt, model, temperature, retrievalEnabled, preferredSourceIds };
+};
+
+export const exportPersonas = (personas: Persona[]) =>
+  JSON.stringify(
+    {
+      type: EXPORT_TYPE,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      personas: personas.map(({ name, description, version, systemPrompt, model, temperature, retrievalEnabled, preferredSourceIds }) => ({
+        name,
+        description,
+        version,
+        systemPrompt,
+        model,
+        temperature,
+        retrievalEnabled,
+        preferredSourceIds,
+      })),
+    },
+    null,
+    2
+  );
+
+// Accepts either a full export or a single persona object.
+export const parsePersonaExport = (json: string): PersonaInput[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const record = data as Record<string, unknown>;
+  const entries = record?.type === EXPORT_TYPE && Array.isArray(record.personas) ? record.personas : [data];
+
+  return entries.map((entry, i) => {
+    const item = entry as Record<string, unknown>;
+    if (typeof item?.name !== 'string' || !item.name.trim() || typeof item.systemPrompt !== 'string') {
+      throw new Error(`Persona ${i + 1} needs a name and a system prompt`);
+    }
+    return {
+      name: item.name.trim(),
+      description: typeof item.description === 'string' ? item.description : undefined,
+      systemPrompt: item.systemPrompt,
+      model: typeof item.model === 'string' ? item.model : undefined,
+      temperature: typeof item.temperature === 'number' ? item.temperature : undefined,
+      retrievalEnabled: item.retrievalEnabled !== false,
+      preferredSourceIds: Array.isArray(item.preferredSourceIds)
+        ? item.preferredSourceIds.filter((id): id is string => typeof id === 'string')
+        : [],
+    };
+  });
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { buildPrompt, BuildPromptOptions } from './promptBuilder';
+import { countTokens } from './tokenizer';
+import type { DocumentChunk } from '@/store/slices/appSlice';
+
+const chunk = (id: string, score: number, content = `passage ${id} `.repeat(20)): DocumentChunk => ({
+  id,
+  sourceId: 'src-1',
+  content,
+  startIndex: 0,
+  endIndex: content.length,
+  score,
+});
+
+const history = [
+  { id: 'h1', role: 'user' as const, content: 'first question '.repeat(20) },
+  { id: 'h2', role: 'assistant' as const, content: 'first answer '.repeat(20) },
+  { id: 'h3', role: 'user' as const, content: 'second question '.repeat(20) },
+];
+
+const options = (overrides: Partial<BuildPromptOptions> = {}): BuildPromptOptions => ({
+  systemPrompt: 'You are helpful.',
+  history,
+  question: 'What is in the passages?',
+  chunks: [chunk('low', 0.2), chunk('high', 0.9), chunk('mid', 0.5)],
+  sourceNames: { 'src-1': 'handbook.pdf' },
+  contextWindow: 100000,
+  reservedTokens: 1000,
+  ...overrides,
+});
+
+describe('buildPrompt', () => {
+  it('keeps everything and numbers chunks by score when the budget allows', () => {
+    const { messages, context } = buildPrompt(options());
+
+    expect(context.chunks.map(c => [c.index, c.chunkId])).toEqual([[1, 'high'], [2, 'mid'], [3, 'low']]);
+    expect(context.historyMessageIds).toEqual(['h1', 'h2', 'h3']);
+    expect(context.droppedHistoryCount).toBe(0);
+    expect(messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user', 'user']);
+    expect(messages[0].content).toContain('[1] (Source: handbook.pdf)\npassage high');
+    expect(messages[messages.length - 1].content).toBe('What is in the passages?');
+    expect(context.tokens.budget).toBe(99000);
+    expect(context.tokens.total).toBeLessThanOrEqual(context.tokens.budget);
+  });
+
+  it('drops the oldest history turns before any chunk', () => {
+    const full = buildPrompt(options()).context;
+    const oneTurn = countTokens(history[0].content) + 4;
+    const { context } = buildPrompt(options({
+      contextWindow: full.tokens.total - oneTurn + 1 + 1000,
+    }));
+
+    expect(context.droppedHistoryCount).toBe(1);
+    expect(context.historyMessageIds).toEqual(['h2', 'h3']);
+    expect(context.droppedChunkIds).toEqual([]);
+  });
+
+  it('drops the lowest-scoring chunks once history is exhausted', () => {
+    const full = buildPrompt(options()).context;
+    const { context } = buildPrompt(options({
+      contextWindow: full.tokens.system + full.tokens.question + full.chunks[0].tokens + full.chunks[1].tokens + 1000,
+    }));
+
+    expect(context.historyMessageIds).toEqual([]);
+    expect(context.chunks.map(c => c.chunkId)).toEqual(['high', 'mid']);
+    expect(context.droppedChunkIds).toEqual(['low']);
+    expect(context.tokens.total).toBeLessThanOrEqual(context.tokens.budget);
+  });
+
+  it('always keeps the system prompt and question, even over budget', () => {
+    const { messages, context } = buildPrompt(options({ contextWindow: 10, reservedTokens: 5 }));
+
+    expect(context.chunks).toEqual([]);
+    expect(context.droppedChunkIds).toEqual(['high', 'mid', 'low']);
+    expect(messages).toEqual([
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'What is in the passages?' },
+    ]);
+  });
+
+  it('carries a running summary with the system prompt', () => {
+    const { messages, context } = buildPrompt(options({ summary: '  Earlier we discussed pricing.  ', chunks: [] }));
+
+    expect(context.summarized).toBe(true);
+    expect(messages[0].content).toMatch(/^You are helpful\.\n\n.*\nEarlier we discussed pricing\.$/);
+  });
+});
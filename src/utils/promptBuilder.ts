@@ -0,0 +1,135 @@
+import type { DocumentChunk } from '@/store/slices/appSlice';
+import type { OllamaChatMessage } from '@/utils/ollama';
+import { countTokens } from '@/utils/tokenizer';
+
+// Chat templates add a few tokens of framing around every message
+const MESSAGE_OVERHEAD = 4;
+
+const CONTEXT_INSTRUCTIONS =
+  'Answer using the numbered context passages below. Cite the passages you rely on inline with their ' +
+  'number in square brackets, e.g. [1] or [2][3]. If the context does not contain the answer, say so.';
+
+const SUMMARY_HEADING = 'Summary of the earlier conversation (older messages are not shown):';
+
+export interface PromptHistoryMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface PromptChunk {
+  index: number;
+  chunkId: string;
+  sourceId: string;
+  sourceName?: string;
+  score: number;
+  tokens: number;
+}
+
+export interface PromptContext {
+  systemPrompt: string;
+  summarized?: boolean;
+  chunks: PromptChunk[];
+  historyMessageIds: string[];
+  droppedHistoryCount: number;
+  droppedChunkIds: string[];
+  tokens: {
+    system: number;
+    context: number;
+    history: number;
+    question: number;
+    total: number;
+    budget: number;
+  };
+}
+
+export interface BuildPromptOptions {
+  systemPrompt: string;
+  summary?: string;
+  history: PromptHistoryMessage[];
+  question: string;
+  chunks: DocumentChunk[];
+  sourceNames?: Record<string, string>;
+  contextWindow: number;
+  reservedTokens: number;
+}
+
+const formatChunk = (index: number, chunk: DocumentChunk, sourceName?: string) =>
+  `[${index}] (Source: ${sourceName || chunk.sourceId})\n${chunk.content.trim()}`;
+
+// Packs the system prompt, retrieved chunks and recent history into the
+// model's context window. The system prompt and question are always kept;
+// when the rest does not fit, the oldest history turns are dropped first and
+// then the lowest-scoring chunks. A running summary of older turns, when
+// present, travels with the system prompt.
+export const buildPrompt = (options: BuildPromptOptions) => {
+  const { systemPrompt, summary, history, question, sourceNames = {}, contextWindow, reservedTokens } = options;
+  const budget = Math.max(0, contextWindow - reservedTokens);
+  const instructions = summary?.trim() ? `${systemPrompt}\n\n${SUMMARY_HEADING}\n${summary.trim()}` : systemPrompt;
+
+  const rankedChunks = [...options.chunks].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  const chunkTokens = rankedChunks.map(
+    (chunk, i) => countTokens(formatChunk(i + 1, chunk, sourceNames[chunk.sourceId])) + 2
+  );
+  const historyTokens = history.map(message => countTokens(message.content) + MESSAGE_OVERHEAD);
+
+  const systemTokens = countTokens(instructions) + MESSAGE_OVERHEAD +
+    (rankedChunks.length > 0 ? countTokens(CONTEXT_INSTRUCTIONS) + 4 : 0);
+  const questionTokens = countTokens(question) + MESSAGE_OVERHEAD;
+  const available = budget - systemTokens - questionTokens;
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  let keptChunks = rankedChunks.length;
+  let firstHistory = 0;
+  const used = () => sum(chunkTokens.slice(0, keptChunks)) + sum(historyTokens.slice(firstHistory));
+
+  while (used() > available && firstHistory < history.length) {
+    firstHistory++;
+  }
+  while (used() > available && keptChunks > 0) {
+    keptChunks--;
+  }
+
+  const selectedChunks = rankedChunks.slice(0, keptChunks);
+  const selectedHistory = history.slice(firstHistory);
+
+  const system = selectedChunks.length > 0
+    ? `${instructions}\n\n${CONTEXT_INSTRUCTIONS}\n\nContext:\n${selectedChunks
+        .map((chunk, i) => formatChunk(i + 1, chunk, sourceNames[chunk.sourceId]))
+        .join('\n\n')}`
+    : instructions;
+
+  const messages: OllamaChatMessage[] = [
+    { role: 'system', content: system },
+    ...selectedHistory.map(message => ({ role: message.role, content: message.content })),
+    { role: 'user', content: question },
+  ];
+
+  const contextTokens = sum(chunkTokens.slice(0, keptChunks));
+  const keptHistoryTokens = sum(historyTokens.slice(firstHistory));
+  const context: PromptContext = {
+    systemPrompt,
+    summarized: instructions !== systemPrompt,
+    chunks: selectedChunks.map((chunk, i) => ({
+      index: i + 1,
+      chunkId: chunk.id,
+      sourceId: chunk.sourceId,
+      sourceName: sourceNames[chunk.sourceId],
+      score: chunk.score ?? 0,
+      tokens: chunkTokens[i],
+    })),
+    historyMessageIds: selectedHistory.map(message => message.id),
+    droppedHistoryCount: firstHistory,
+    droppedChunkIds: rankedChunks.slice(keptChunks).map(chunk => chunk.id),
+    tokens: {
+      system: systemTokens,
+      context: contextTokens,
+      history: keptHistoryTokens,
+      question: questionTokens,
+      total: systemTokens + contextTokens + keptHistoryTokens + questionTokens,
+      budget,
+    },
+  };
+
+  return { messages, context };
+};
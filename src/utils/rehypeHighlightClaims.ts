@@ -0,0 +1,95 @@
+import type { Root, Element, ElementContent, Text } from 'hast';
+
+export interface ClaimHighlight {
+  text: string;
+  note: string;
+}
+
+const BLOCKS = new Set(['p', 'li', 'td', 'th', 'blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+const isCitation = (node: Element) =>
+  node.tagName === 'sup' && (node.properties['data-citation'] !== undefined || node.properties.dataCitation !== undefined);
+
+const hasBlockDescendant = (node: Element): boolean =>
+  node.children.some(child => child.type === 'element' && (BLOCKS.has(child.tagName) || hasBlockDescendant(child)));
+
+// Text nodes of a block in reading order, skipping citation markers and code
+// blocks, which claims are extracted without.
+const collectText = (node: Element, out: Array<{ node: Text; parent: Element }> = []) => {
+  node.children.forEach(child => {
+    if (child.type === 'text') out.push({ node: child, parent: node });
+    if (child.type === 'element' && !isCitation(child) && child.tagName !== 'pre') collectText(child, out);
+  });
+  return out;
+};
+
+const squash = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+// Rehype plugin wrapping each highlighted sentence in <mark data-note="...">.
+// Sentences are matched ignoring whitespace; a sentence spanning several
+// inline nodes (bold, links) gets one mark per node.
+export function rehypeHighlightClaims({ claims = [] }: { claims?: ClaimHighlight[] } = {}) {
+  const targets = claims.map(claim => ({ ...claim, key: squash(claim.text) })).filter(c => c.key);
+
+  const highlightBlock = (block: Element) => {
+    const texts = collectText(block);
+    // Non-whitespace characters of the block, each pointing back to its text node
+    const chars: Array<{ item: number; offset: number }> = [];
+    let squashed = '';
+    texts.forEach(({ node }, item) => {
+      for (let offset = 0; offset < node.value.length; offset++) {
+        const char = node.value[offset];
+        if (/\s/.test(char)) continue;
+        chars.push({ item, offset });
+        squashed += char.toLowerCase();
+      }
+    });
+
+    const ranges = new Map<number, Array<{ start: number; end: number; note: string }>>();
+    targets.forEach(target => {
+      const at = squashed.indexOf(target.key);
+      if (at === -1) return;
+      const first = chars[at];
+      const last = chars[at + target.key.length - 1];
+      for (let item = first.item; item <= last.item; item++) {
+        const start = item === first.item ? first.offset : 0;
+        const end = item === last.item ? last.offset + 1 : texts[item].node.value.length;
+        ranges.set(item, [...(ranges.get(item) || []), { start, end, note: target.note }]);
+      }
+    });
+
+    ranges.forEach((itemRanges, item) => {
+      const { node, parent } = texts[item];
+      const pieces: ElementContent[] = [];
+      let cursor = 0;
+      itemRanges.sort((a, b) => a.start - b.start).forEach(({ start, end, note }) => {
+        if (start < cursor) return;
+        if (start > cursor) pieces.push({ type: 'text', value: node.value.slice(cursor, start) });
+        pieces.push({
+          type: 'element',
+          tagName: 'mark',
+          properties: { 'data-note': note },
+          children: [{ type: 'text', value: node.value.slice(start, end) }],
+        });
+        cursor = end;
+      });
+      if (cursor < node.value.length) pieces.push({ type: 'text', value: node.value.slice(cursor) });
+      parent.children.splice(parent.children.indexOf(node), 1, ...pieces);
+    });
+  };
+
+  const visit = (node: Root | Element) => {
+    node.children.forEach(child => {
+      if (child.type !== 'element' || child.tagName === 'pre') return;
+      if (BLOCKS.has(child.tagName) && !hasBlockDescendant(child)) {
+        highlightBlock(child);
+      } else {
+        visit(child);
+      }
+    });
+  };
+
+  return (tree: Root) => {
+    if (targets.length > 0) visit(tree);
+  };
+}
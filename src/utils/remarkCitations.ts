@@ -0,0 +1,38 @@
+import type { Root, Parent, RootContent } from 'mdast';
+import { splitCitations } from '@/utils/citations';
+
+// Remark plugin that turns [n] citation markers in text into
+// <sup data-citation="n"> elements, leaving code spans and blocks untouched.
+// `maxIndex` is the number of chunks in the answer's prompt; without any,
+// markers are left as plain text.
+export function remarkCitations({ maxIndex = 0 }: { maxIndex?: number } = {}) {
+  const transform = (node: Parent) => {
+    const children: RootContent[] = [];
+
+    node.children.forEach((child) => {
+      if (child.type === 'text') {
+        splitCitations(child.value, maxIndex).forEach((segment) => {
+          if (segment.type === 'text') {
+            children.push({ type: 'text', value: segment.text });
+          } else {
+            children.push({
+              type: 'emphasis',
+              data: { hName: 'sup', hProperties: { 'data-citation': segment.index } },
+              children: [{ type: 'text', value: String(segment.index) }],
+            });
+          }
+        });
+        return;
+      }
+
+      if ('children' in child) {
+        transform(child as Parent);
+      }
+      children.push(child);
+    });
+
+    node.children = children as Parent['children'];
+  };
+
+  return (tree: Root) => transform(tree);
+}
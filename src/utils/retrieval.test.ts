@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { rankChunks, tokenizeTerms } from './retrieval';
+import type { DocumentChunk } from '@/store/slices/appSlice';
+
+const chunk = (id: string, content: string): DocumentChunk => ({
+  id,
+  sourceId: 'src-1',
+  content,
+  startIndex: 0,
+  endIndex: content.length,
+});
+
+const chunks = [
+  chunk('billing', 'Invoices are issued monthly. Billing disputes go to the finance team.'),
+  chunk('vacation', 'Employees accrue vacation days monthly and may carry over five days.'),
+  chunk('refunds', 'Refunds for billing errors are processed within ten days of the invoice.'),
+  chunk('unrelated', 'The office kitchen is cleaned every Friday afternoon.'),
+];
+
+describe('tokenizeTerms', () => {
+  it('lowercases, splits on non-letters and drops short and stop words', () => {
+    expect(tokenizeTerms('What are the Refund-policies for 2024?')).toEqual(['refund', 'policies', '2024']);
+  });
+});
+
+describe('rankChunks', () => {
+  it('orders matching chunks by similarity and drops non-matching ones', () => {
+    const ranked = rankChunks('billing invoice refunds', chunks, 10);
+
+    expect(ranked.map(c => c.id)).toEqual(['refunds', 'billing']);
+    ranked.forEach(c => {
+      expect(c.score).toBeGreaterThan(0);
+      expect(c.score).toBeLessThanOrEqual(1);
+    });
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score!);
+  });
+
+  it('limits results to topK', () => {
+    expect(rankChunks('monthly days', chunks, 1)).toHaveLength(1);
+  });
+
+  it('returns nothing for queries made only of stop words', () => {
+    expect(rankChunks('what is the', chunks, 5)).toEqual([]);
+    expect(rankChunks('billing', [], 5)).toEqual([]);
+  });
+
+  it('does not mutate the input chunks', () => {
+    rankChunks('billing', chunks, 5);
+    expect(chunks.every(c => c.score === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import type { DocumentChunk } from '@/store/slices/appSlice';
+
+export const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'his', 'how', 'its', 'who', 'did', 'yes', 'this', 'that', 'with', 'have',
+  'from', 'they', 'will', 'what', 'when', 'where', 'which', 'there', 'their', 'about', 'would',
+  'these', 'those', 'into', 'than', 'then', 'them', 'were', 'been', 'does', 'your', 'some',
+]);
+
+export const tokenizeTerms = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 2 && !STOP_WORDS.has(term));
+
+const termFrequencies = (terms: string[]) => {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+  return counts;
+};
+
+// Ranks chunks against a query by TF-IDF cosine similarity. Scores are in
+// [0, 1]; chunks sharing no terms with the query are dropped.
+export const rankChunks = (query: string, chunks: DocumentChunk[], topK: number): DocumentChunk[] => {
+  const queryTerms = termFrequencies(tokenizeTerms(query));
+  if (queryTerms.size === 0 || chunks.length === 0) return [];
+
+  const chunkTerms = chunks.map(chunk => termFrequencies(tokenizeTerms(chunk.content)));
+  const documentFrequency = new Map<string, number>();
+  chunkTerms.forEach(terms => {
+    terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  });
+
+  const idf = (term: string) => Math.log(1 + chunks.length / (1 + (documentFrequency.get(term) || 0)));
+  const weigh = (terms: Map<string, number>) => {
+    const vector = new Map<string, number>();
+    terms.forEach((count, term) => vector.set(term, (1 + Math.log(count)) * idf(term)));
+    return vector;
+  };
+  const norm = (vector: Map<string, number>) =>
+    Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0));
+
+  const queryVector = weigh(queryTerms);
+  const queryNorm = norm(queryVector);
+
+  return chunks
+    .map((chunk, index) => {
+      const vector = weigh(chunkTerms[index]);
+      let dot = 0;
+      queryVector.forEach((weight, term) => {
+        dot += weight * (vector.get(term) || 0);
+      });
+      const denominator = queryNorm * norm(vector);
+      return { ...chunk, score: denominator > 0 ? dot / denominator : 0 };
+    })
+    .filter(chunk => chunk.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+};
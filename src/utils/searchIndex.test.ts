@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { ChatSearchIndex, parseSearchQuery, stemTerm } from './searchIndex';
+import type { ChatMessage } from '@/store/slices/appSlice';
+
+const message = (id: string, content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  threadId: 't1',
+  role: 'user',
+  content,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const ids = (index: ChatSearchIndex, query: string) => index.search(query).map(hit => hit.messageId);
+
+const buildIndex = (messages: ChatMessage[]) => {
+  const index = new ChatSearchIndex();
+  index.sync(messages);
+  return index;
+};
+
+describe('stemTerm', () => {
+  it('gives inflections the same stem', () => {
+    expect(new Set(['indexing', 'indexed', 'indexes'].map(stemTerm))).toEqual(new Set(['index']));
+    expect(stemTerm('running')).toBe('run');
+    expect(stemTerm('gpt4')).toBe('gpt4');
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('separates phrases, prefixes and stop words', () => {
+    const { terms, phrases } = parseSearchQuery('"vector store" the embed* rank');
+    expect(phrases).toEqual([['vector', 'store']]);
+    expect(terms).toEqual([
+      { text: 'embed', stem: stemTerm('embed'), prefix: true },
+      { text: 'rank', stem: 'rank', prefix: true },
+    ]);
+  });
+
+  it('treats the last word as complete once a space follows it', () => {
+    expect(parseSearchQuery('rank ').terms[0].prefix).toBe(false);
+  });
+});
+
+describe('ChatSearchIndex', () => {
+  it('adds and removes messages', () => {
+    const index = new ChatSearchIndex();
+    index.add(message('m1', 'Chunking splits documents'));
+    index.add(message('m2', 'Embeddings map chunks to vectors'));
+    expect(ids(index, 'documents ')).toEqual(['m1']);
+
+    index.remove('m1');
+    expect(index.size).toBe(1);
+    expect(ids(index, 'documents ')).toEqual([]);
+    expect(ids(index, 'vectors ')).toEqual(['m2']);
+  });
+
+  it('syncs changed, removed and finished messages only', () => {
+    const index = new ChatSearchIndex();
+    expect(index.sync([message('m1', 'old text'), message('m2', 'partial', { status: 'streaming' })])).toBe(1);
+    expect(index.sync([message('m1', 'old text')])).toBe(0);
+
+    expect(index.sync([message('m1', 'new text'), message('m2', 'finished answer', { status: 'complete' })])).toBe(2);
+    expect(ids(index, 'old ')).toEqual([]);
+    expect(ids(index, 'finished ')).toEqual(['m2']);
+
+    expect(index.sync([message('m2', 'finished answer')])).toBe(1);
+    expect(index.size).toBe(1);
+  });
+
+  it('matches inflections through stemming and requires every term', () => {
+    const index = buildIndex([
+      message('m1', 'We are indexing the documents'),
+      message('m2', 'The index was rebuilt'),
+      message('m3', 'Documents only'),
+    ]);
+    expect(ids(index, 'indexed ').sort()).toEqual(['m1', 'm2']);
+    expect(ids(index, 'indexes documents ')).toEqual(['m1']);
+  });
+
+  it('matches quoted phrases only in order', () => {
+    const index = buildIndex([
+      message('m1', 'Use a vector store for retrieval'),
+      message('m2', 'Store the vector on disk'),
+    ]);
+    expect(ids(index, '"vector store"')).toEqual(['m1']);
+    expect(index.search('"vector store"')[0].snippet.filter(part => part.match).map(part => part.text))
+      .toEqual(['vector', 'store']);
+  });
+
+  it('expands prefixes while the last word is being typed', () => {
+    const index = buildIndex([
+      message('m1', 'Retrieval augmented generation'),
+      message('m2', 'Reranking the results'),
+    ]);
+    expect(ids(index, 'retri')).toEqual(['m1']);
+    expect(ids(index, 'rerank*')).toEqual(['m2']);
+    expect(ids(index, 'retri ')).toEqual([]);
+  });
+
+  it('falls back to fuzzy matches for misspellings', () => {
+    const index = buildIndex([message('m1', 'The embedding model'), message('m2', 'A different topic')]);
+    expect(ids(index, 'embeding ')).toEqual(['m1']);
+    expect(ids(index, 'mdoel ')).toEqual(['m1']);
+    expect(ids(index, 'xyz ')).toEqual([]);
+  });
+
+  it('ranks exact matches above fuzzy ones and applies filters', () => {
+    const index = buildIndex([
+      message('m1', 'latency latency', { role: 'assistant' }),
+      message('m2', 'latency budget', { threadId: 't2' }),
+    ]);
+    expect(ids(index, 'latency ')).toEqual(['m1', 'm2']);
+    expect(index.search('latency ', { role: 'user' }).map(hit => hit.messageId)).toEqual(['m2']);
+    expect(index.search('latency ', { threadIds: ['t1'] }).map(hit => hit.messageId)).toEqual(['m1']);
+  });
+
+  it('highlights matches in the snippet', () => {
+    const index = buildIndex([message('m1', 'Tune the chunk size before indexing')]);
+    expect(index.search('chunks ')[0].snippet).toEqual([
+      { text: 'Tune the ', match: false },
+      { text: 'chunk', match: true },
+      { text: ' size before indexing', match: false },
+    ]);
+  });
+});
@@ -0,0 +1,379 @@
+import type { ChatMessage } from '@/store/slices/appSlice';
+import { STOP_WORDS } from '@/utils/retrieval';
+
+export interface SearchFilters {
+  role?: 'user' | 'assistant' | 'all';
+  threadIds?: string[];
+  dateRange?: { start: string; end: string };
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  messageId: string;
+  threadId: string;
+  role: 'user' | 'assistant';
+  timestamp: string;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+interface Token {
+  stem: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedMessage {
+  id: string;
+  threadId: string;
+  role: 'user' | 'assistant';
+  timestamp: string;
+  content: string;
+  tokens: Token[];
+}
+
+interface QueryTerm {
+  text: string;
+  stem: string;
+  prefix: boolean;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHT = 0.5;
+const MAX_EXPANSIONS = 20;
+const SNIPPET_LENGTH = 180;
+
+const STEM_RULES: Array<[RegExp, string]> = [
+  [/(ational)$/, 'ate'],
+  [/(ization)$/, 'ize'],
+  [/(iveness|fulness|ousness)$/, ''],
+  [/(ingly|edly)$/, ''],
+  [/sses$/, 'ss'],
+  [/ies$/, 'y'],
+  [/(x|ch|sh|z)es$/, '$1'],
+  [/(ness|ment)$/, ''],
+  [/([^aeiou])ly$/, '$1'],
+  [/ing$/, ''],
+  [/ed$/, ''],
+  [/([^su])s$/, '$1'],
+];
+
+// Light suffix stripping so "indexing", "indexed" and "indexes" share a
+// stem. Only consistency matters: queries are stemmed the same way.
+export const stemTerm = (term: string) => {
+  if (term.length <= 3 || /\d/.test(term)) return term;
+  for (const [pattern, replacement] of STEM_RULES) {
+    if (!pattern.test(term)) continue;
+    const stem = term.replace(pattern, replacement);
+    if (stem.length < 3 || !/[aeiouy]/.test(stem)) return term;
+    // running -> runn -> run
+    return /([^aeioulsz])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+  }
+  return term;
+};
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    stem: stemTerm(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+// Damerau-Levenshtein distance, giving up once it exceeds `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Splits a query into "quoted phrases" and single terms. A trailing * marks
+// a prefix, and so does the last word while it is still being typed.
+export const parseSearchQuery = (query: string) => {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const stems = tokenize(phrase).map(token => token.stem);
+    if (stems.length > 1) phrases.push(stems);
+    else if (stems.length === 1) return ` ${phrase} `;
+    return ' ';
+  });
+
+  const words = rest.toLowerCase().split(/\s+/).filter(Boolean);
+  const typing = !/\s$/.test(query) && !query.trim().endsWith('"');
+  const terms: QueryTerm[] = [];
+  words.forEach((word, i) => {
+    const prefix = word.endsWith('*') || (typing && i === words.length - 1);
+    tokenize(word).forEach((token, j, tokens) => {
+      const text = word.replace(/\*$/, '').slice(token.start, token.end);
+      const isLast = j === tokens.length - 1;
+      if (STOP_WORDS.has(text) || (text.length < 2 && !(prefix && isLast))) return;
+      terms.push({ text, stem: token.stem, prefix: prefix && isLast });
+    });
+  });
+  return { terms, phrases };
+};
+
+const matchesFilters = (message: IndexedMessage, filters: SearchFilters) => {
+  if (filters.role && filters.role !== 'all' && message.role !== filters.role) return false;
+  if (filters.threadIds?.length && !filters.threadIds.includes(message.threadId)) return false;
+  if (filters.dateRange) {
+    const time = new Date(message.timestamp).getTime();
+    if (time < new Date(filters.dateRange.start).getTime() || time > new Date(filters.dateRange.end).getTime()) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Inverted index over chat messages: stem -> message id -> token positions.
+// sync() updates it incrementally, re-indexing only messages that changed.
+export class ChatSearchIndex {
+  private messages = new Map<string, IndexedMessage>();
+  private postings = new Map<string, Map<string, number[]>>();
+  private totalTokens = 0;
+
+  get size() {
+    return this.messages.size;
+  }
+
+  // Returns the number of messages added, updated or removed
+  sync(messages: ChatMessage[]) {
+    let changes = 0;
+    const seen = new Set<string>();
+    messages.forEach(message => {
+      // Streaming answers are indexed once they finish
+      if (message.status === 'streaming') return;
+      seen.add(message.id);
+      const indexed = this.messages.get(message.id);
+      if (indexed && indexed.content === message.content && indexed.threadId === message.threadId) return;
+      if (indexed) this.remove(message.id);
+      this.add(message);
+      changes++;
+    });
+    Array.from(this.messages.keys()).forEach(id => {
+      if (!seen.has(id)) {
+        this.remove(id);
+        changes++;
+      }
+    });
+    return changes;
+  }
+
+  add(message: ChatMessage) {
+    const tokens = tokenize(message.content);
+    this.messages.set(message.id, {
+      id: message.id,
+      threadId: message.threadId,
+      role: message.role,
+      timestamp: message.timestamp,
+      content: message.content,
+      tokens,
+    });
+    tokens.forEach((token, position) => {
+      let entries = this.postings.get(token.stem);
+      if (!entries) {
+        entries = new Map();
+        this.postings.set(token.stem, entries);
+      }
+      entries.set(message.id, [...(entries.get(message.id) || []), position]);
+    });
+    this.totalTokens += tokens.length;
+  }
+
+  remove(messageId: string) {
+    const message = this.messages.get(messageId);
+    if (!message) return;
+    new Set(message.tokens.map(token => token.stem)).forEach(stem => {
+      const entries = this.postings.get(stem);
+      entries?.delete(messageId);
+      if (entries?.size === 0) this.postings.delete(stem);
+    });
+    this.totalTokens -= message.tokens.length;
+    this.messages.delete(messageId);
+  }
+
+  // Index stems a query term matches, with a weight for inexact matches
+  private expand(term: QueryTerm) {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(term.stem)) expansions.set(term.stem, 1);
+    if (this.postings.has(term.text)) expansions.set(term.text, 1);
+
+    if (term.prefix) {
+      for (const stem of this.postings.keys()) {
+        if (expansions.size >= MAX_EXPANSIONS) break;
+        // "runn" is typed on the way to "running", whose stem is "run"
+        const isPrefix = stem.startsWith(term.text) || (term.text.startsWith(stem) && stem.length >= term.text.length - 2);
+        if (isPrefix && !expansions.has(stem)) expansions.set(stem, PREFIX_WEIGHT);
+      }
+    }
+
+    if (expansions.size === 0 && term.text.length >= 4) {
+      const maxEdits = term.stem.length >= 8 ? 2 : 1;
+      const candidates: Array<[string, number]> = [];
+      for (const stem of this.postings.keys()) {
+        const distance = editDistance(term.stem, stem, maxEdits);
+        if (distance <= maxEdits) candidates.push([stem, distance]);
+      }
+      candidates
+        .sort((a, b) => a[1] - b[1])
+        .slice(0, MAX_EXPANSIONS)
+        .forEach(([stem, distance]) => expansions.set(stem, FUZZY_WEIGHT / distance));
+    }
+    return expansions;
+  }
+
+  // Start positions of the phrase in a message
+  private findPhrase(messageId: string, stems: string[]) {
+    const first = this.postings.get(stems[0])?.get(messageId) || [];
+    return first.filter(start =>
+      stems.every((stem, i) => this.postings.get(stem)?.get(messageId)?.includes(start + i))
+    );
+  }
+
+  search(query: string, filters: SearchFilters = {}, limit = 50): SearchHit[] {
+    const { terms, phrases } = parseSearchQuery(query);
+    if ((terms.length === 0 && phrases.length === 0) || this.messages.size === 0) return [];
+
+    const count = this.messages.size;
+    const averageLength = this.totalTokens / count;
+    const idf = (documents: number) => Math.log(1 + (count - documents + 0.5) / (documents + 0.5));
+    const scores = new Map<string, number>();
+    const matchedStems = new Map<string, Set<string>>();
+    const phraseStarts = new Map<string, Array<{ start: number; length: number }>>();
+    let candidates: Set<string> | null = null;
+
+    // Every term and phrase must match
+    const intersect = (ids: Set<string>) => {
+      candidates = candidates ? new Set(Array.from(candidates).filter(id => ids.has(id))) : ids;
+    };
+
+    for (const term of terms) {
+      const expansions = this.expand(term);
+      const termScores = new Map<string, number>();
+      const documents = new Set<string>();
+      expansions.forEach((_, stem) => this.postings.get(stem)?.forEach((_, id) => documents.add(id)));
+      const termIdf = idf(documents.size);
+
+      expansions.forEach((weight, stem) => {
+        this.postings.get(stem)?.forEach((positions, id) => {
+          const length = this.messages.get(id).tokens.length;
+          const tf = positions.length;
+          const score = weight * termIdf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / averageLength));
+          termScores.set(id, Math.max(termScores.get(id) || 0, score));
+          matchedStems.set(id, (matchedStems.get(id) || new Set()).add(stem));
+        });
+      });
+      termScores.forEach((score, id) => scores.set(id, (scores.get(id) || 0) + score));
+      intersect(documents);
+    }
+
+    for (const stems of phrases) {
+      const documents = new Set<string>();
+      const firstPostings = this.postings.get(stems[0]);
+      firstPostings?.forEach((_, id) => {
+        const starts = this.findPhrase(id, stems);
+        if (starts.length === 0) return;
+        documents.add(id);
+        phraseStarts.set(id, [...(phraseStarts.get(id) || []), ...starts.map(start => ({ start, length: stems.length }))]);
+      });
+      const phraseIdf = stems.reduce((sum, stem) => sum + idf(this.postings.get(stem)?.size || 0), 0);
+      documents.forEach(id => scores.set(id, (scores.get(id) || 0) + phraseIdf * (1 + Math.log(phraseStarts.get(id).length))));
+      intersect(documents);
+    }
+
+    return Array.from((candidates as Set<string> | null) || [])
+      .map(id => this.messages.get(id))
+      .filter(message => matchesFilters(message, filters))
+      .map(message => ({ message, score: scores.get(message.id) || 0 }))
+      .sort((a, b) => b.score - a.score || b.message.timestamp.localeCompare(a.message.timestamp))
+      .slice(0, limit)
+      .map(({ message, score }) => ({
+        messageId: message.id,
+        threadId: message.threadId,
+        role: message.role,
+        timestamp: message.timestamp,
+        score,
+        snippet: this.buildSnippet(message, matchedStems.get(message.id), phraseStarts.get(message.id)),
+      }));
+  }
+
+  // The stretch of the message with the most matches, split into plain and
+  // highlighted parts.
+  private buildSnippet(
+    message: IndexedMessage,
+    stems: Set<string> = new Set(),
+    phrases: Array<{ start: number; length: number }> = []
+  ): SnippetPart[] {
+    const matched = new Set<number>();
+    message.tokens.forEach((token, position) => {
+      if (stems.has(token.stem)) matched.add(position);
+    });
+    phrases.forEach(({ start, length }) => {
+      for (let i = start; i < start + length; i++) matched.add(i);
+    });
+
+    const positions = Array.from(matched).sort((a, b) => a - b);
+    let windowStart = message.tokens[positions[0]]?.start ?? 0;
+    let best = 0;
+    positions.forEach(position => {
+      const start = message.tokens[position].start;
+      const inWindow = positions.filter(p => {
+        const offset = message.tokens[p].start;
+        return offset >= start && offset < start + SNIPPET_LENGTH;
+      }).length;
+      if (inWindow > best) {
+        best = inWindow;
+        windowStart = start;
+      }
+    });
+
+    // Back up to show a little context before the first match
+    const from = Math.max(0, message.content.lastIndexOf(' ', Math.max(0, windowStart - 40)) + 1);
+    const to = Math.min(message.content.length, from + SNIPPET_LENGTH);
+    const parts: SnippetPart[] = [];
+    let cursor = from;
+    positions.forEach(position => {
+      const { start, end } = message.tokens[position];
+      if (start < cursor || end > to) return;
+      if (start > cursor) parts.push({ text: message.content.slice(cursor, start), match: false });
+      parts.push({ text: message.content.slice(start, end), match: true });
+      cursor = end;
+    });
+    if (cursor < to) parts.push({ text: message.content.slice(cursor, to), match: false });
+
+    const normalized = parts
+      .map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }))
+      .filter(part => part.text);
+    if (from > 0 && normalized.length) normalized[0] = { ...normalized[0], text: `…${normalized[0].text}` };
+    if (to < message.content.length && normalized.length) {
+      const last = normalized.length - 1;
+      normalized[last] = { ...normalized[last], text: `${normalized[last].text}…` };
+    }
+    return normalized;
+  }
+}
+
+// Shared by the history page and the searchChatHistory thunk
+export const chatSearchIndex = new ChatSearchIndex();
@@ -0,0 +1,52 @@
+import type { AppDispatch, RootState } from '@/store';
+import type { useAppStore } from '@/stores/useAppStore';
+
+export interface SlashCommandContext {
+  app: ReturnType<typeof useAppStore>;
+  dispatch: AppDispatch;
+  getState: () => RootState;
+  setInput: (value: string) => void;
+  notify: (toast: { title: string; description?: string; variant?: 'default' | 'destructive' }) => void;
+  navigate: (path: string) => void;
+}
+
+export interface SlashCommandSuggestion {
+  // Replaces the argument text when the suggestion is picked
+  value: string;
+  label: string;
+  description?: string;
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  usage?: string;
+  requiresArgs?: boolean;
+  suggest?: (args: string, context: SlashCommandContext) => SlashCommandSuggestion[];
+  run: (args: string, context: SlashCommandContext) => void | Promise<void>;
+}
+
+const registry = new Map<string, SlashCommand>();
+
+// Features register their commands at import time; the returned function
+// removes the command again (useful for commands tied to a mounted view).
+export const registerSlashCommand = (command: SlashCommand) => {
+  registry.set(command.name, command);
+  return () => {
+    if (registry.get(command.name) === command) {
+      registry.delete(command.name);
+    }
+  };
+};
+
+export const getSlashCommand = (name: string) => registry.get(name.toLowerCase());
+
+export const getSlashCommands = () =>
+  Array.from(registry.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+// "/search  foo bar" -> { name: 'search', args: 'foo bar', hasArgs: true }
+export const parseSlashCommand = (input: string) => {
+  const match = input.match(/^\/(\S*)(\s+([\s\S]*))?$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[3] ?? '').trim(), hasArgs: match[2] !== undefined };
+};
@@ -0,0 +1,78 @@
+// Settings store short language codes; the speech APIs want BCP 47 locales.
+const SPEECH_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  zh: 'zh-CN',
+  ja: 'ja-JP',
+};
+
+export const getSpeechLocale = (language: string) => SPEECH_LOCALES[language] || language || 'en-US';
+
+export const getSpeechRecognition = () =>
+  typeof window === 'undefined' ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export const isSpeechSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Voices for the configured language first, then the rest alphabetically.
+export const sortVoices = (voices: SpeechSynthesisVoice[], language: string) => {
+  const prefix = language.split('-')[0].toLowerCase();
+  const matches = (voice: SpeechSynthesisVoice) => voice.lang.toLowerCase().startsWith(prefix);
+  return [...voices].sort((a, b) => Number(matches(b)) - Number(matches(a)) || a.name.localeCompare(b.name));
+};
+
+export const pickVoice = (voices: SpeechSynthesisVoice[], voiceURI: string, language: string) => {
+  const locale = getSpeechLocale(language).toLowerCase();
+  return (
+    voices.find(voice => voice.voiceURI === voiceURI) ||
+    voices.find(voice => voice.lang.toLowerCase() === locale) ||
+    voices.find(voice => voice.lang.toLowerCase().startsWith(locale.split('-')[0]))
+  );
+};
+
+// Plain text of an answer for reading aloud: code, math, links, citation
+// markers and markdown syntax are dropped or reduced to their text. Headings,
+// list items and table rows get a full stop so they are read as sentences.
+export const toSpeakableText = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?```/g, '\nCode block omitted.\n')
+    .replace(/\$\$[\s\S]*?\$\$/g, '')
+    .split('\n')
+    // Table separators and horizontal rules
+    .filter(line => !/^[\s|:-]*-[\s|:-]*$/.test(line))
+    .map(line =>
+      line
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/\[\d+\]/g, '')
+        .replace(/`([^`]*)`/g, '$1')
+        .replace(/^\s*(#{1,6}|>|[-*+]|\d+[.)])\s+/, '')
+        .replace(/^\s*\||\|\s*$/g, '')
+        .replace(/\s*\|\s*/g, ', ')
+        .replace(/(\*\*|__|\*|_|~~)/g, '')
+        .replace(/\s+/g, ' ')
+        .replace(/\s+([.!?,;:])/g, '$1')
+        .trim()
+    )
+    .filter(Boolean)
+    .map(line => (/[.!?:;]$/.test(line) ? line : `${line}.`))
+    .join(' ');
+
+// Browsers cut off long utterances, so text is spoken a few sentences at a time.
+export const splitForSpeech = (text: string, maxLength = 200) => {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+|$)/g) || [];
+  const parts: string[] = [];
+  let current = '';
+  sentences.forEach(sentence => {
+    const next = `${current} ${sentence.trim()}`.trim();
+    if (current && next.length > maxLength) {
+      parts.push(current);
+      current = sentence.trim();
+    } else {
+      current = next;
+    }
+  });
+  if (current) parts.push(current);
+  return parts;
+};
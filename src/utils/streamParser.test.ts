@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createStreamParser,
+  readEventStream,
+  detectStreamFormat,
+  StreamEvent,
+  StreamEventError,
+} from './streamParser';
+import { streamMessage } from '@/store/slices/chatSlice';
+
+const parse = (format: 'sse' | 'ndjson', pieces: string[], flush = true) => {
+  const events: StreamEvent[] = [];
+  const parser = createStreamParser(format, (event) => events.push(event));
+  pieces.forEach(piece => parser.push(piece));
+  if (flush) parser.flush();
+  return events;
+};
+
+const byteStream = (chunks: Uint8Array[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+
+const collect = async (stream: ReadableStream<Uint8Array>, format: 'sse' | 'ndjson') => {
+  const events: StreamEvent[] = [];
+  for await (const event of readEventStream(stream, format)) {
+    events.push(event);
+  }
+  return events;
+};
+
+describe('createStreamParser (sse)', () => {
+  it('reassembles data lines split across reads', () => {
+    const events = parse('sse', ['da', 'ta: {"content":"Hel', 'lo"}\n', '\n']);
+    expect(events).toEqual([{ event: 'message', data: '{"content":"Hello"}', id: undefined, retry: undefined }]);
+  });
+
+  it('handles CRLF and bare CR line endings, including a CRLF split across reads', () => {
+    const events = parse('sse', ['data: one\r', '\n\r\ndata: two\r\r']);
+    expect(events.map(e => e.data)).toEqual(['one', 'two']);
+  });
+
+  it('joins multi-line data fields with newlines', () => {
+    const events = parse('sse', ['data: first\ndata: second\ndata:third\n\n']);
+    expect(events[0].data).toBe('first\nsecond\nthird');
+  });
+
+  it('reads event, id and retry fields and ignores comments', () => {
+    const events = parse('sse', [': keep-alive\nevent: delta\nid: 42\nretry: 3000\ndata: x\n\n']);
+    expect(events).toEqual([{ event: 'delta', data: 'x', id: '42', retry: 3000 }]);
+  });
+
+  it('keeps the last event id across events and resets type and retry', () => {
+    const events = parse('sse', ['event: a\nid: 7\nretry: 10\ndata: 1\n\ndata: 2\n\n']);
+    expect(events[1]).toEqual({ event: 'message', data: '2', id: '7', retry: undefined });
+  });
+
+  it('ignores non-numeric retry values and events without data', () => {
+    const events = parse('sse', ['retry: soon\nevent: ping\n\ndata: x\n\n']);
+    expect(events).toEqual([{ event: 'message', data: 'x', id: undefined, retry: undefined }]);
+  });
+
+  it('discards a trailing event that never received its blank line', () => {
+    const events = parse('sse', ['data: complete\n\ndata: trunc', 'ated']);
+    expect(events.map(e => e.data)).toEqual(['complete']);
+  });
+
+  it('discards a trailing event whose data lines ended but no blank line followed', () => {
+    expect(parse('sse', ['data: partial\n'])).toEqual([]);
+  });
+});
+
+describe('createStreamParser (ndjson)', () => {
+  it('emits one event per line and skips blank lines', () => {
+    const events = parse('ndjson', ['{"a":1}\n\n{"b"', ':2}\r\n']);
+    expect(events.map(e => e.data)).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it('emits a final line without a trailing newline on flush', () => {
+    const events = parse('ndjson', ['{"a":1}\n{"done":true}']);
+    expect(events.map(e => e.data)).toEqual(['{"a":1}', '{"done":true}']);
+  });
+});
+
+describe('readEventStream', () => {
+  it('reassembles multi-byte UTF-8 characters split across reads', async () => {
+    const bytes = new TextEncoder().encode('data: héllo 👋\n\n');
+    const emoji = bytes.length - 4;
+    const chunks = [bytes.slice(0, 8), bytes.slice(8, emoji + 2), bytes.slice(emoji + 2)];
+
+    const events = await collect(byteStream(chunks), 'sse');
+    expect(events.map(e => e.data)).toEqual(['héllo 👋']);
+  });
+
+  it('frames NDJSON byte streams', async () => {
+    const encoder = new TextEncoder();
+    const events = await collect(
+      byteStream([encoder.encode('{"message":{"content":"a"}}\n{"mess'), encoder.encode('age":{"content":"b"},"done":true}')]),
+      'ndjson'
+    );
+    expect(events.map(e => JSON.parse(e.data).message.content)).toEqual(['a', 'b']);
+  });
+
+  it('raises error events as StreamEventError', async () => {
+    const stream = byteStream([new TextEncoder().encode('data: ok\n\nevent: error\ndata: {"error":{"message":"overloaded"}}\n\n')]);
+    const seen: string[] = [];
+    await expect(async () => {
+      for await (const event of readEventStream(stream, 'sse')) seen.push(event.data);
+    }).rejects.toSatisfy(error => error instanceof StreamEventError && error.message === 'overloaded');
+    expect(seen).toEqual(['ok']);
+  });
+});
+
+describe('detectStreamFormat', () => {
+  it('picks the format from the content type', () => {
+    const response = (type: string) => new Response('', { headers: { 'content-type': type } });
+    expect(detectStreamFormat(response('text/event-stream; charset=utf-8'))).toBe('sse');
+    expect(detectStreamFormat(response('application/x-ndjson'))).toBe('ndjson');
+    expect(detectStreamFormat(response('text/plain'), 'ndjson')).toBe('ndjson');
+  });
+});
+
+describe('streamMessage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const run = async (body: string) => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(body, { headers: { 'content-type': 'text/event-stream' } })
+    ));
+    const dispatch = vi.fn();
+    const getState = () => ({
+      chat: { selectedModel: 'gpt-4', settings: { systemPrompt: '' } },
+      app: { settings: { modelPrices: [] } },
+    });
+    return streamMessage({ threadId: 't1', message: 'hi' })(dispatch, getState, undefined);
+  };
+
+  it('rejects when the server sends an error event', async () => {
+    const result = await run('data: {"content":"par"}\n\nevent: error\ndata: {"error":"model crashed"}\n\n');
+    expect(result).toMatchObject({ type: streamMessage.rejected.type, error: { message: 'model crashed' } });
+  });
+
+  it('rejects when a data payload carries an error', async () => {
+    const result = await run('data: {"error":{"message":"quota exceeded"}}\n\n');
+    expect(result).toMatchObject({ type: streamMessage.rejected.type, error: { message: 'quota exceeded' } });
+  });
+
+  it('fulfills with the accumulated content on [DONE]', async () => {
+    const result = await run('data: {"content":"Hel"}\n\ndata: {"content":"lo"}\n\ndata: [DONE]\n\n');
+    expect(streamMessage.fulfilled.match(result)).toBe(true);
+    expect(result.payload).toMatchObject({ threadId: 't1', content: 'Hello', stopped: false });
+  });
+});
@@ -0,0 +1,184 @@
+export type StreamFormat = 'sse' | 'ndjson';
+
+export interface StreamEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export class StreamEventError extends Error {
+  constructor(message: string, public event?: StreamEvent) {
+    super(message);
+    this.name = 'StreamEventError';
+  }
+}
+
+export interface StreamParser {
+  push: (text: string) => void;
+  flush: () => void;
+}
+
+// Incremental parser for Server-Sent Events (per the WHATWG event-stream
+// spec) and newline-delimited JSON. Text may be pushed in arbitrary pieces;
+// partial lines are buffered until their terminator arrives.
+export function createStreamParser(
+  format: StreamFormat,
+  onEvent: (event: StreamEvent) => void
+): StreamParser {
+  let buffer = '';
+  let pendingCR = false;
+
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatchEvent = () => {
+    if (dataLines.length > 0) {
+      onEvent({
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        id: lastEventId,
+        retry,
+      });
+    }
+    eventType = '';
+    dataLines = [];
+    retry = undefined;
+  };
+
+  const handleSSELine = (line: string) => {
+    if (line === '') {
+      dispatchEvent();
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored per the spec
+    }
+  };
+
+  const handleLine = (line: string) => {
+    if (format === 'sse') {
+      handleSSELine(line);
+    } else if (line.trim()) {
+      onEvent({ event: 'message', data: line });
+    }
+  };
+
+  const push = (text: string) => {
+    if (pendingCR && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    pendingCR = false;
+    buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      handleLine(buffer.slice(start, i));
+      if (char === '\r') {
+        if (i + 1 === buffer.length) {
+          pendingCR = true;
+        } else if (buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+  };
+
+  // A trailing NDJSON line is complete without its newline, but an SSE event
+  // that never saw its blank line was cut off and is discarded per the spec.
+  const flush = () => {
+    if (format === 'ndjson' && buffer) {
+      handleLine(buffer);
+    }
+    buffer = '';
+    pendingCR = false;
+    eventType = '';
+    dataLines = [];
+    retry = undefined;
+  };
+
+  return { push, flush };
+}
+
+export const detectStreamFormat = (response: Response, fallback: StreamFormat = 'sse'): StreamFormat => {
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('text/event-stream')) return 'sse';
+  if (contentType.includes('ndjson') || contentType.includes('jsonl')) return 'ndjson';
+  return fallback;
+};
+
+const getErrorMessage = (data: string): string => {
+  try {
+    const parsed = JSON.parse(data);
+    if (typeof parsed.error === 'string') return parsed.error;
+    return parsed.error?.message || parsed.message || data;
+  } catch (e) {
+    return data || 'Stream error';
+  }
+};
+
+// Decodes a byte stream into events. UTF-8 sequences split across reads are
+// reassembled, and `event: error` frames are raised as StreamEventError.
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+  format: StreamFormat
+): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const queue: StreamEvent[] = [];
+  const parser = createStreamParser(format, (event) => queue.push(event));
+
+  const drain = function* () {
+    while (queue.length > 0) {
+      const event = queue.shift()!;
+      if (event.event === 'error') {
+        throw new StreamEventError(getErrorMessage(event.data), event);
+      }
+      yield event;
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      parser.push(decoder.decode(value, { stream: true }));
+      yield* drain();
+    }
+
+    parser.push(decoder.decode());
+    parser.flush();
+    yield* drain();
+  } finally {
+    // Stops the underlying request when the consumer exits early
+    reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSummaryPrompt,
+  getActiveSummary,
+  selectMessagesToSummarize,
+  KEEP_RECENT_MESSAGES,
+  ThreadSummary,
+} from './summarizer';
+
+const thread = Array.from({ length: 10 }, (_, i) => ({
+  id: `m${i}`,
+  role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+  content: 'word '.repeat(50),
+}));
+
+const summary = (messageIds: string[]): ThreadSummary => ({
+  content: '- Earlier notes',
+  messageIds,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('selectMessagesToSummarize', () => {
+  it('selects nothing while the unsummarized turns are under the threshold', () => {
+    expect(selectMessagesToSummarize(thread, undefined, 10000)).toEqual([]);
+  });
+
+  it('folds everything but the most recent turns once over the threshold', () => {
+    const selected = selectMessagesToSummarize(thread, undefined, 100);
+    expect(selected.map(m => m.id)).toEqual(['m0', 'm1', 'm2', 'm3', 'm4', 'm5']);
+    expect(thread.length - selected.length).toBe(KEEP_RECENT_MESSAGES);
+  });
+
+  it('skips turns already covered by the summary', () => {
+    const covered = summary(['m0', 'm1', 'm2', 'm3']);
+    expect(selectMessagesToSummarize(thread, covered, 100).map(m => m.id)).toEqual(['m4', 'm5']);
+    expect(selectMessagesToSummarize(thread, covered, 5000)).toEqual([]);
+  });
+
+  it('ignores the threshold when forced but still keeps the recent turns', () => {
+    expect(selectMessagesToSummarize(thread.slice(0, 6), undefined, 10000, true).map(m => m.id)).toEqual(['m0', 'm1']);
+    expect(selectMessagesToSummarize(thread.slice(0, 3), undefined, 0, true)).toEqual([]);
+  });
+});
+
+describe('getActiveSummary', () => {
+  it('applies while the last covered message is on the active path', () => {
+    const current = summary(['m0', 'm1']);
+    expect(getActiveSummary(current, thread)).toBe(current);
+  });
+
+  it('is dropped on a branch that forks before the covered messages', () => {
+    expect(getActiveSummary(summary(['m0', 'm1']), [{ id: 'm0' }, { id: 'm1-alt' }])).toBeUndefined();
+    expect(getActiveSummary(summary([]), thread)).toBeUndefined();
+    expect(getActiveSummary(undefined, thread)).toBeUndefined();
+  });
+});
+
+describe('buildSummaryPrompt', () => {
+  const messages = [
+    { id: 'a', role: 'user' as const, content: ' What is the budget? ' },
+    { id: 'b', role: 'assistant' as const, content: '$40k.' },
+  ];
+
+  it('asks for a fresh summary of the transcript', () => {
+    const [system, user] = buildSummaryPrompt(undefined, messages);
+    expect(system.role).toBe('system');
+    expect(user.content).toBe('Summarize these messages:\n\nUser: What is the budget?\n\nAssistant: $40k.');
+  });
+
+  it('asks to update an existing summary', () => {
+    const [, user] = buildSummaryPrompt('- Project kickoff\n', messages);
+    expect(user.content).toMatch(/^Existing summary:\n- Project kickoff\n\nUpdate it with these newer messages:\n\nUser:/);
+  });
+});
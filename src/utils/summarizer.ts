@@ -0,0 +1,69 @@
+import type { OllamaChatMessage } from '@/utils/ollama';
+import { countTokens } from '@/utils/tokenizer';
+
+// The most recent turns are always sent verbatim so the model keeps the
+// exact wording of what was just said.
+export const KEEP_RECENT_MESSAGES = 4;
+
+export interface ThreadSummary {
+  content: string;
+  messageIds: string[];
+  updatedAt: string;
+  edited?: boolean;
+}
+
+interface SummarizableMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+const SUMMARY_INSTRUCTIONS =
+  'You maintain the memory of a long conversation between a user and an assistant. Write a concise summary ' +
+  'that preserves facts, decisions, names, numbers, open questions and the user\'s goals. Use short bullet ' +
+  'points. Do not add anything that was not said. Reply with the summary only.';
+
+// A summary only applies while the conversation it describes is on screen:
+// switching to a branch that forks before its last covered message drops it.
+export const getActiveSummary = (
+  summary: ThreadSummary | undefined,
+  path: { id: string }[]
+): ThreadSummary | undefined => {
+  if (!summary || summary.messageIds.length === 0) return undefined;
+  const lastCovered = summary.messageIds[summary.messageIds.length - 1];
+  return path.some(m => m.id === lastCovered) ? summary : undefined;
+};
+
+// Picks the turns that should be folded into the summary, or none when the
+// unsummarized part of the thread is still under the threshold.
+export const selectMessagesToSummarize = <T extends SummarizableMessage>(
+  path: T[],
+  summary: ThreadSummary | undefined,
+  threshold: number,
+  force = false
+): T[] => {
+  const covered = new Set(summary?.messageIds);
+  const pending = path.filter(m => !covered.has(m.id));
+  const pendingTokens = pending.reduce((total, m) => total + countTokens(m.content), 0);
+  if (!force && pendingTokens < threshold) return [];
+  return pending.slice(0, Math.max(0, pending.length - KEEP_RECENT_MESSAGES));
+};
+
+export const buildSummaryPrompt = (
+  previousSummary: string | undefined,
+  messages: SummarizableMessage[]
+): OllamaChatMessage[] => {
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.trim()}`)
+    .join('\n\n');
+
+  return [
+    { role: 'system', content: SUMMARY_INSTRUCTIONS },
+    {
+      role: 'user',
+      content: previousSummary
+        ? `Existing summary:\n${previousSummary.trim()}\n\nUpdate it with these newer messages:\n\n${transcript}`
+        : `Summarize these messages:\n\n${transcript}`,
+    },
+  ];
+};
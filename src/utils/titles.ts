@@ -0,0 +1,33 @@
+import type { OllamaChatMessage } from '@/utils/ollama';
+import { truncateToTokens } from '@/utils/tokenizer';
+
+const MAX_TITLE_LENGTH = 60;
+
+const TITLE_INSTRUCTIONS =
+  'Write a short, descriptive title (3 to 6 words) for the conversation below. Use title case, no quotes, ' +
+  'no trailing punctuation. Reply with the title only.';
+
+// Placeholder used until a generated title arrives.
+export const fallbackTitle = (content: string) => {
+  const text = content.trim().replace(/\s+/g, ' ');
+  return text.length > 50 ? `${text.slice(0, 50)}...` : text || 'New Conversation';
+};
+
+export const buildTitlePrompt = (question: string, answer: string): OllamaChatMessage[] => [
+  { role: 'system', content: TITLE_INSTRUCTIONS },
+  {
+    role: 'user',
+    content: `User: ${truncateToTokens(question, 300)}\n\nAssistant: ${truncateToTokens(answer, 300)}`,
+  },
+];
+
+// Models like to wrap titles in quotes or prefix them with "Title:".
+export const cleanTitle = (raw: string): string => {
+  const firstLine = raw.trim().split('\n')[0] || '';
+  const title = firstLine
+    .replace(/^(title)\s*:\s*/i, '')
+    .replace(/^["'`*#\s]+|["'`*\s]+$/g, '')
+    .replace(/[.!?:;,]+$/, '')
+    .trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title;
+};
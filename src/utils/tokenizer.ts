@@ -0,0 +1,18 @@
+// Approximate token counting for budgeting prompts locally. Most BPE
+// tokenizers used by Ollama models average roughly four characters per token
+// for English text; words are counted as well so short, punctuation-heavy
+// strings are not underestimated.
+export const countTokens = (text: string): number => {
+  if (!text) return 0;
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.max(words, Math.ceil(text.length / 4));
+};
+
+// Cuts text down to roughly `maxTokens`, preferring a whitespace boundary.
+export const truncateToTokens = (text: string, maxTokens: number): string => {
+  if (countTokens(text) <= maxTokens) return text;
+  const limit = Math.max(0, maxTokens * 4);
+  const cut = text.slice(0, limit);
+  const boundary = cut.lastIndexOf(' ');
+  return `${boundary > limit * 0.8 ? cut.slice(0, boundary) : cut}…`;
+};
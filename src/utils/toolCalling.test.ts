@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import { buildToolDefinitions, getChatTools, parseToolArguments } from './toolCalling';
+import appReducer, { updateMCPServer } from '@/store/slices/appSlice';
+import mcpReducer, { fetchServerTools, toggleTool, type MCPTool } from '@/store/slices/mcpSlice';
+
+const createStore = () => configureStore({ reducer: { app: appReducer, mcp: mcpReducer } });
+
+const tool = (id: string, name: string, extra: Partial<MCPTool> = {}): MCPTool => ({
+  id,
+  serverId: 'mcp-1',
+  name,
+  description: `${name} tool`,
+  parameters: { type: 'object', properties: { query: { type: 'string' } } },
+  enabled: true,
+  ...extra,
+});
+
+describe('getChatTools', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const listTools = (tools: Array<Partial<MCPTool>>) =>
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({ tools }))));
+
+  it("offers a connected server's tools once they are fetched", async () => {
+    const store = createStore();
+    // The sample server from the MCP setup page
+    store.dispatch(updateMCPServer({ id: 'mcp-1', updates: { status: 'connected' } }));
+    listTools([{ id: 'search', name: 'search', description: 'Search the web', parameters: {} }]);
+
+    await store.dispatch(fetchServerTools('mcp-1')).unwrap();
+
+    expect(vi.mocked(fetch)).toHaveBeenCalledWith('/api/mcp/servers/mcp-1/tools');
+    expect(getChatTools(store.getState())).toEqual([
+      expect.objectContaining({ id: 'search', serverId: 'mcp-1', enabled: true, autoApprove: false }),
+    ]);
+  });
+
+  it('leaves out disabled tools and tools of disconnected servers', async () => {
+    const store = createStore();
+    listTools([{ id: 'search', name: 'search' }, { id: 'fetch', name: 'fetch' }]);
+    await store.dispatch(fetchServerTools('mcp-1')).unwrap();
+    expect(getChatTools(store.getState())).toEqual([]);
+
+    store.dispatch(updateMCPServer({ id: 'mcp-1', updates: { status: 'connected' } }));
+    store.dispatch(toggleTool({ toolId: 'fetch', enabled: false }));
+    expect(getChatTools(store.getState()).map(t => t.id)).toEqual(['search']);
+  });
+});
+
+describe('buildToolDefinitions', () => {
+  it('makes tool names valid and unique across servers', () => {
+    const { definitions, byName } = buildToolDefinitions([
+      tool('a', 'web search'),
+      tool('b', 'web search', { serverId: 'mcp-2', parameters: { query: { type: 'string' } } }),
+    ]);
+    expect(definitions.map(d => d.function.name)).toEqual(['web_search', 'web_search_2']);
+    expect(byName.get('web_search_2')?.id).toBe('b');
+    expect(definitions[1].function.parameters).toEqual({ type: 'object', properties: { query: { type: 'string' } } });
+  });
+});
+
+describe('parseToolArguments', () => {
+  it('accepts objects and JSON strings', () => {
+    expect(parseToolArguments({ function: { name: 'x', arguments: { q: 1 } } })).toEqual({ q: 1 });
+    const asString = { function: { name: 'x', arguments: '{"q":2}' as unknown as Record<string, unknown> } };
+    expect(parseToolArguments(asString)).toEqual({ q: 2 });
+  });
+});
@@ -0,0 +1,55 @@
+import type { MCPState, MCPTool } from '@/store/slices/mcpSlice';
+import type { AppState } from '@/store/slices/appSlice';
+import type { OllamaTool, OllamaToolCall } from '@/utils/ollama';
+import { truncateToTokens } from '@/utils/tokenizer';
+
+// Tool rounds per answer before the model is asked to answer without tools
+export const MAX_TOOL_ROUNDS = 5;
+
+const MAX_RESULT_TOKENS = 2000;
+
+// Enabled tools whose server is connected, either through the MCP setup page
+// or the MCP API.
+export const getChatTools = (state: { app: AppState; mcp: MCPState }) => {
+  const connected = new Set([
+    ...state.mcp.servers.filter(server => server.status === 'connected').map(server => server.id),
+    ...state.app.mcpServers.filter(server => server.status === 'connected').map(server => server.id),
+  ]);
+  return state.mcp.tools.filter(tool => tool.enabled && connected.has(tool.serverId));
+};
+
+// Tools get names that are valid function identifiers and unique across
+// servers; the map resolves the model's calls back to the MCP tool.
+export const buildToolDefinitions = (tools: MCPTool[]) => {
+  const byName = new Map<string, MCPTool>();
+  const definitions: OllamaTool[] = tools.map(tool => {
+    const base = tool.name.replace(/[^a-zA-Z0-9_-]/g, '_');
+    let name = base;
+    for (let n = 2; byName.has(name); n++) {
+      name = `${base}_${n}`;
+    }
+    byName.set(name, tool);
+
+    const parameters = tool.parameters?.type === 'object'
+      ? tool.parameters
+      : { type: 'object', properties: tool.parameters || {} };
+    return { type: 'function', function: { name, description: tool.description, parameters } };
+  });
+  return { definitions, byName };
+};
+
+// Some models send arguments as a JSON string instead of an object.
+export const parseToolArguments = (call: OllamaToolCall): Record<string, unknown> => {
+  const args: unknown = call.function.arguments;
+  if (typeof args === 'string') {
+    try {
+      return JSON.parse(args);
+    } catch {
+      return {};
+    }
+  }
+  return (args as Record<string, unknown>) || {};
+};
+
+export const formatToolResult = (result: unknown) =>
+  truncateToTokens(typeof result === 'string' ? result : JSON.stringify(result, null, 2), MAX_RESULT_TOKENS);
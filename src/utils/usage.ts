@@ -0,0 +1,102 @@
+import { format, startOfDay, subDays } from 'date-fns';
+
+// Prices are in USD per million tokens, the unit providers publish them in.
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface MessageUsage {
+  promptTokens: number;
+  completionTokens: number;
+  tokens: number;
+  cost: number;
+  tokensEstimated: boolean;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  tokens: number;
+  cost: number;
+}
+
+interface UsageRecord {
+  role: string;
+  timestamp: string;
+  metadata?: {
+    promptTokens?: number;
+    completionTokens?: number;
+    tokens?: number;
+    cost?: number;
+  };
+}
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'llama3.2', inputPerMillion: 0, outputPerMillion: 0 },
+  { model: 'mistral', inputPerMillion: 0, outputPerMillion: 0 },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'claude-3-5-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+];
+
+// Exact match first, then the family name without the Ollama tag
+// (e.g. "mistral:7b-instruct" falls back to "mistral").
+export const findModelPrice = (prices: ModelPrice[], model?: string): ModelPrice | undefined => {
+  if (!model) return undefined;
+  return prices.find(p => p.model === model) ?? prices.find(p => p.model === model.split(':')[0]);
+};
+
+export const calculateUsage = (
+  promptTokens: number,
+  completionTokens: number,
+  price: ModelPrice | undefined,
+  tokensEstimated: boolean
+): MessageUsage => ({
+  promptTokens,
+  completionTokens,
+  tokens: promptTokens + completionTokens,
+  cost: price
+    ? (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000
+    : 0,
+  tokensEstimated,
+});
+
+export const summarizeUsage = (messages: UsageRecord[]): UsageTotals =>
+  messages.reduce<UsageTotals>((totals, message) => {
+    if (message.role !== 'assistant' || !message.metadata) return totals;
+    const { promptTokens = 0, completionTokens = 0, tokens, cost = 0 } = message.metadata;
+    return {
+      promptTokens: totals.promptTokens + promptTokens,
+      completionTokens: totals.completionTokens + completionTokens,
+      tokens: totals.tokens + (tokens ?? promptTokens + completionTokens),
+      cost: totals.cost + cost,
+    };
+  }, { promptTokens: 0, completionTokens: 0, tokens: 0, cost: 0 });
+
+// One bucket per day for the last `days` days, oldest first.
+export const getDailyUsage = (messages: UsageRecord[], days: number) => {
+  const today = startOfDay(new Date());
+  return Array.from({ length: days }, (_, i) => {
+    const day = subDays(today, days - 1 - i);
+    const next = subDays(day, -1);
+    const totals = summarizeUsage(messages.filter(m => {
+      const time = new Date(m.timestamp);
+      return time >= day && time < next;
+    }));
+    return {
+      date: format(day, 'MMM dd'),
+      promptTokens: totals.promptTokens,
+      completionTokens: totals.completionTokens,
+      totalTokens: totals.tokens,
+      cost: totals.cost,
+    };
+  });
+};
+
+export const formatTokenCount = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export const formatCost = (cost: number) =>
+  cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
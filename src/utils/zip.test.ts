@@ -0,0 +1,55 @@
+// @vitest-environment node
+// jsdom's Blob has no stream(), which inflating deflated entries needs
+import { describe, it, expect } from 'vitest';
+import { isZipFile, listZipEntries, readZipEntryText } from './zip';
+import { createZip } from '@/test/files';
+
+describe('listZipEntries', () => {
+  it('lists entries from the central directory', async () => {
+    const zip = createZip({ 'conversations.json': '[]', 'user.json': '{"id":"u1"}' });
+    const entries = await listZipEntries(zip);
+    expect(entries.map(e => [e.name, e.method, e.size])).toEqual([
+      ['conversations.json', 8, 2],
+      ['user.json', 8, 11],
+    ]);
+  });
+
+  it('rejects files without an end of central directory record', async () => {
+    await expect(listZipEntries(new Blob(['not a zip archive']))).rejects.toThrow('Not a valid ZIP archive');
+  });
+});
+
+describe('readZipEntryText', () => {
+  it('inflates deflated entries', async () => {
+    const text = JSON.stringify([{ title: 'Héllo', body: 'x'.repeat(500) }]);
+    const zip = createZip({ 'a.txt': 'first', 'conversations.json': text });
+    const entry = (await listZipEntries(zip)).find(e => e.name === 'conversations.json')!;
+    expect(entry.compressedSize).toBeLessThan(entry.size);
+    expect(await readZipEntryText(zip, entry)).toBe(text);
+  });
+
+  it('reads stored entries as they are', async () => {
+    const zip = createZip({ 'a.txt': 'first', 'b.txt': 'second' }, { store: true });
+    const entries = await listZipEntries(zip);
+    expect(await Promise.all(entries.map(entry => readZipEntryText(zip, entry)))).toEqual(['first', 'second']);
+  });
+
+  it('rejects entries whose offset does not point at a local header', async () => {
+    const zip = createZip({ 'a.txt': 'first' });
+    const [entry] = await listZipEntries(zip);
+    await expect(readZipEntryText(zip, { ...entry, offset: 4 })).rejects.toThrow('Corrupt ZIP entry: a.txt');
+  });
+
+  it('rejects unsupported compression methods', async () => {
+    const zip = createZip({ 'a.txt': 'first' });
+    const [entry] = await listZipEntries(zip);
+    await expect(readZipEntryText(zip, { ...entry, method: 12 })).rejects.toThrow('unsupported compression method');
+  });
+});
+
+describe('isZipFile', () => {
+  it('checks for the local file header signature', async () => {
+    expect(await isZipFile(createZip({ 'a.txt': 'x' }))).toBe(true);
+    expect(await isZipFile(new Blob(['[{"mapping":{}}]']))).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+// Minimal ZIP reader for export archives: lists entries from the central
+// directory and inflates single files with the browser's DecompressionStream,
+// so only the parts of the archive that are needed are read into memory.
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+// End of central directory record plus the longest possible comment
+const EOCD_SEARCH = 22 + 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+const readBytes = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+export const isZipFile = async (file: Blob) => {
+  if (file.size < 4) return false;
+  return (await readBytes(file, 0, 4)).getUint32(0, true) === LOCAL_SIGNATURE;
+};
+
+export const listZipEntries = async (file: Blob): Promise<ZipEntry[]> => {
+  const tailStart = Math.max(0, file.size - EOCD_SEARCH);
+  const tail = await readBytes(file, tailStart, file.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a valid ZIP archive');
+
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  if (directoryOffset === ZIP64_MARKER || directorySize === ZIP64_MARKER) {
+    throw new Error('This archive is too large to read here. Extract it and import the JSON file instead.');
+  }
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let position = 0;
+  while (position + 46 <= directory.byteLength && directory.getUint32(position, true) === CENTRAL_SIGNATURE) {
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + position + 46, nameLength);
+    entries.push({
+      name: decoder.decode(nameBytes),
+      method: directory.getUint16(position + 10, true),
+      compressedSize: directory.getUint32(position + 20, true),
+      size: directory.getUint32(position + 24, true),
+      offset: directory.getUint32(position + 42, true),
+    });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+export const readZipEntryText = async (file: Blob, entry: ZipEntry): Promise<string> => {
+  if (entry.offset === ZIP64_MARKER || entry.compressedSize === ZIP64_MARKER) {
+    throw new Error(`${entry.name} is too large to read here. Extract the archive and import it directly.`);
+  }
+  const header = await readBytes(file, entry.offset, entry.offset + 30);
+  if (header.getUint32(0, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+  const dataStart = entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) return data.text();
+  if (entry.method !== 8) throw new Error(`${entry.name} uses an unsupported compression method`);
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot unzip archives. Extract it and import the JSON file instead.');
+  }
+  return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+};